@@ -0,0 +1,211 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  parseNumberOption,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getLocalLabelFiles, readLocalLabels } from '@/core/local-labels';
+import {
+  getPendingReviews,
+  readReviewState,
+  type ReviewEntry,
+} from '@/core/review-state';
+import {
+  checkTranslations,
+  getCoverage,
+  type TranslationReport,
+} from '@/core/translation-check';
+import { getLocaleName, tryFetchLanguages } from '@/create-labels';
+import { parseReportFormat, renderJUnitReport, writeReport } from '@/reporting';
+import { log } from '@/utils';
+import chalk from 'chalk';
+
+interface CheckThresholds {
+  maxMissing?: number;
+  minCoverage?: number;
+}
+
+export const checkCommand: Command = {
+  usage:
+    'check [--report text|json|junit] [--out <path>] [--max-missing <n>] [--min-coverage <percent>]',
+  description:
+    'Report missing and empty translations per locale. Exits non-zero when a threshold is crossed.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      report: { type: 'string', default: 'text' },
+      out: { type: 'string' },
+      'max-missing': { type: 'string' },
+      'min-coverage': { type: 'string' },
+    });
+    const reportFormat = parseReportFormat(values.report);
+    const thresholds = parseThresholds(
+      values['max-missing'],
+      values['min-coverage']
+    );
+    const config = await resolveCommandConfig(values);
+    const files = unwrapOrFail(getLocalLabelFiles(config));
+    const locales = await tryFetchLanguages(config);
+    const reference = locales.find(entry => entry.isReference);
+
+    if (!reference) {
+      throw new CommandError('The project has no reference locale.');
+    }
+
+    const labelFile = unwrapOrFail(
+      await readLocalLabels(files, reference.locale)
+    );
+    const report = checkTranslations(
+      labelFile,
+      locales.map(entry => entry.locale),
+      reference.locale
+    );
+    const violation = findThresholdViolation(report, thresholds);
+
+    if (reportFormat === 'text') {
+      printReport(report);
+      printPendingReviews(
+        getPendingReviews(await readReviewState(), report.keys)
+      );
+      if (violation) throw new CommandError(violation);
+      return;
+    }
+
+    await writeReport(
+      reportFormat === 'json'
+        ? `${JSON.stringify(report, null, 2)}\n`
+        : renderJUnitReport('labeleer-check', toTestSuites(report)),
+      values.out
+    );
+
+    // Keep stdout parseable, the report may have been written to it.
+    if (violation) {
+      console.error(chalk.red(violation));
+      process.exitCode = 1;
+    }
+  },
+};
+
+/**
+ * Without any threshold, a single missing translation fails the check.
+ */
+function parseThresholds(
+  maxMissing: string | undefined,
+  minCoverage: string | undefined
+): CheckThresholds {
+  if (maxMissing === undefined && minCoverage === undefined) {
+    return { maxMissing: 0 };
+  }
+
+  return {
+    maxMissing:
+      maxMissing === undefined
+        ? undefined
+        : parseNumberOption('--max-missing', maxMissing),
+    minCoverage:
+      minCoverage === undefined
+        ? undefined
+        : parseNumberOption('--min-coverage', minCoverage),
+  };
+}
+
+function findThresholdViolation(
+  report: TranslationReport,
+  thresholds: CheckThresholds
+): string | undefined {
+  const missing = report.locales.reduce(
+    (total, coverage) => total + coverage.missing.length,
+    0
+  );
+
+  if (thresholds.maxMissing !== undefined && missing > thresholds.maxMissing) {
+    return `${missing} translation(s) missing, exceeding the maximum of ${thresholds.maxMissing}.`;
+  }
+
+  const { minCoverage } = thresholds;
+  const belowCoverage =
+    minCoverage === undefined
+      ? []
+      : report.locales.filter(coverage => getCoverage(coverage) < minCoverage);
+
+  if (belowCoverage.length > 0) {
+    return `Coverage of ${belowCoverage.map(coverage => coverage.locale).join(', ')} is below ${minCoverage}%.`;
+  }
+
+  return undefined;
+}
+
+function printReport(report: TranslationReport) {
+  for (const coverage of report.locales) {
+    const percentage = getCoverage(coverage);
+    const color = coverage.missing.length === 0 ? chalk.green : chalk.yellow;
+
+    log(
+      chalk.bold(
+        `${getLocaleName(coverage.locale)} ${chalk.gray(`(${coverage.locale})`)}${coverage.isReference ? ' ★' : ''}`
+      ),
+      color(
+        `${coverage.translated}/${coverage.total} (${percentage.toFixed(1)}%)`
+      )
+    );
+
+    for (const entry of coverage.missing) {
+      log(chalk.red(`  - ${entry.key}`), chalk.gray(`(${entry.reason})`));
+    }
+  }
+
+  const missing = report.locales.flatMap(coverage => coverage.missing);
+
+  log(
+    missing.length === 0
+      ? chalk.green('All translations are present.')
+      : chalk.yellow(
+          `${missing.length} translation(s) missing across ${report.locales.length} locale(s).`
+        )
+  );
+}
+
+function printPendingReviews(reviews: ReviewEntry[]) {
+  if (!reviews.length) return;
+
+  log(
+    chalk.yellow(
+      `${reviews.length} machine translation(s) need review: ${reviews
+        .map(review => `${review.key} (${review.locale})`)
+        .join(', ')}`
+    )
+  );
+}
+
+/**
+ * Maps every checked key to a test case, grouped per locale.
+ * Keys without a reference translation are only checked for the reference locale.
+ */
+function toTestSuites(report: TranslationReport) {
+  const untranslatedKeys = new Set(
+    report.locales
+      .filter(coverage => coverage.isReference)
+      .flatMap(coverage => coverage.missing.map(entry => entry.key))
+  );
+
+  return report.locales.map(coverage => {
+    const missing = new Map(
+      coverage.missing.map(entry => [entry.key, entry.reason])
+    );
+    const keys = coverage.isReference
+      ? report.keys
+      : report.keys.filter(key => !untranslatedKeys.has(key));
+
+    return {
+      name: coverage.locale,
+      testCases: keys.map(key => ({
+        name: key,
+        className: `labeleer.${coverage.locale}`,
+        failure: missing.has(key)
+          ? `Translation is ${missing.get(key)} for locale ${coverage.locale}`
+          : undefined,
+      })),
+    };
+  });
+}
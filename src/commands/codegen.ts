@@ -0,0 +1,62 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getLocalLabelFiles, readLocalLabels } from '@/core/local-labels';
+import { getProjectSetup } from '@/core/project-setup';
+import { writeLabelTypes } from '@/core/type-generation';
+import { tryFetchLanguages } from '@/create-labels';
+import { toRelativePath } from '@/files';
+import { log } from '@/utils';
+import chalk from 'chalk';
+import { resolve } from 'path';
+
+export const codegenCommand: Command = {
+  usage: 'codegen [--out <path>]',
+  description:
+    'Generate TypeScript types for the label keys and their parameters.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      out: { type: 'string' },
+    });
+    const setup = await getProjectSetup();
+    const output =
+      values.out ?? (setup.success ? setup.value.codegen?.output : undefined);
+
+    if (!output) {
+      throw new CommandError(
+        'Missing output path. Pass one with --out or configure codegen.output in labeleer.json.'
+      );
+    }
+    if (!output.endsWith('.ts')) {
+      throw new CommandError(
+        `Invalid output path '${output}'. Expected a .ts or .d.ts file.`
+      );
+    }
+
+    const config = await resolveCommandConfig(values);
+    const files = unwrapOrFail(getLocalLabelFiles(config));
+    const locales = await tryFetchLanguages(config);
+    const reference = locales.find(entry => entry.isReference);
+
+    if (!reference) {
+      throw new CommandError('The project has no reference locale.');
+    }
+
+    const labelFile = unwrapOrFail(
+      await readLocalLabels(files, reference.locale)
+    );
+    const path = unwrapOrFail(
+      await writeLabelTypes(labelFile, reference.locale, output)
+    );
+
+    log(
+      chalk.blue(
+        `Label types have been written to ${chalk.cyan.underline(toRelativePath(resolve(path)))}`
+      )
+    );
+  },
+};
@@ -0,0 +1,124 @@
+import { LocaleDecoder } from '@/core/project-setup';
+import { type Result } from '@/core/result';
+import { type InteractionOptions } from '@/inquire/confirmation';
+import { type ParseArgsOptionsConfig, parseArgs } from 'node:util';
+
+/**
+ * A non-interactive subcommand, e.g. `labeleer-cli pull`.
+ */
+export interface Command {
+  /**
+   * Usage line shown in the help output, without the binary name.
+   */
+  usage: string;
+  description: string;
+  run(args: string[]): Promise<void>;
+}
+
+/**
+ * Thrown whenever a subcommand cannot continue, e.g. due to missing input.
+ * The message is shown to the user and the process exits with code 1.
+ */
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+/**
+ * Options that are accepted by every subcommand.
+ */
+export const commonOptions = {
+  project: { type: 'string', short: 'p' },
+  token: { type: 'string', short: 't' },
+  file: { type: 'string', short: 'f' },
+  format: { type: 'string' },
+  profile: { type: 'string' },
+  'env-file': { type: 'string' },
+  yes: { type: 'boolean', short: 'y', default: false },
+} as const satisfies ParseArgsOptionsConfig;
+
+export type CommonOptions = {
+  project?: string;
+  token?: string;
+  file?: string;
+  format?: string;
+  profile?: string;
+  'env-file'?: string;
+  yes: boolean;
+};
+
+/**
+ * Parses the arguments of a subcommand, including the {@link commonOptions}.
+ * Unknown options are rejected with a {@link CommandError}.
+ */
+export function parseCommandArguments<T extends ParseArgsOptionsConfig>(
+  args: string[],
+  options: T
+) {
+  try {
+    return parseArgs({
+      args,
+      options: { ...commonOptions, ...options },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw new CommandError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Parses a numeric option, e.g. `--max-missing 5`.
+ *
+ * @param name The option as passed on the command line, used in the error message.
+ */
+export function parseNumberOption(name: string, value: string): number {
+  const number = Number(value);
+
+  if (value.trim() === '' || Number.isNaN(number) || number < 0) {
+    throw new CommandError(
+      `Invalid value '${value}' for ${name}. Expected a non-negative number.`
+    );
+  }
+
+  return number;
+}
+
+/**
+ * Normalizes a locale passed on the command line, e.g. `de` or `de-DE` to `de_DE`.
+ */
+export function parseLocaleOption(value: string): string {
+  const locale = LocaleDecoder.safeParse(value);
+
+  if (!locale.success || !locale.data) {
+    throw new CommandError(
+      `Invalid locale '${value}'. Expected a language code such as de, de-DE or de_DE.`
+    );
+  }
+
+  return locale.data;
+}
+
+/**
+ * Returns the value of a successful result, or throws a {@link CommandError}
+ * with the error message of a failed one.
+ */
+export function unwrapOrFail<T>(result: Result<T>): T {
+  if (!result.success) {
+    throw new CommandError(result.error);
+  }
+  return result.value;
+}
+
+/**
+ * Subcommands can only ask for confirmation when they run in a terminal.
+ */
+export function getInteractionOptions(
+  options: Pick<CommonOptions, 'yes'>
+): InteractionOptions {
+  return { interactive: Boolean(process.stdin.isTTY), yes: options.yes };
+}
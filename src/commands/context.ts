@@ -0,0 +1,125 @@
+import {
+  CommandError,
+  type CommonOptions,
+  unwrapOrFail,
+} from '@/commands/command';
+import { findLabelFiles } from '@/core/file-discovery';
+import { hasProjectIdentityInEnv } from '@/core/project-location';
+import { createConfigFromSetup, getProjectSetup } from '@/core/project-setup';
+import { inferFileFormatFromFileName, toRelativePath } from '@/files';
+import {
+  resolveProjectConfig,
+  resolveProjectConfigFromIdentity,
+} from '@/project-settings';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import type { ProjectConfig } from 'labeleer-cli';
+import { resolve } from 'path';
+
+/**
+ * Resolves the full project configuration for a subcommand from its options,
+ * the environment and the project directory, without prompting the user.
+ * Unless `--file` is passed, the label files are taken from the `LABELEER_PROJECT`
+ * environment variable, or otherwise from `labeleer.json`.
+ *
+ * @throws CommandError whenever a required value cannot be resolved.
+ */
+export async function resolveCommandConfig(
+  options: CommonOptions
+): Promise<ProjectConfig> {
+  const overrides = {
+    projectId: options.project,
+    accessToken: options.token,
+  };
+
+  if (!options.file && hasProjectIdentityInEnv()) {
+    const config = unwrapOrFail(
+      await resolveProjectConfigFromIdentity(overrides, {
+        profile: options.profile,
+        envFile: options['env-file'],
+      })
+    );
+
+    return options.format
+      ? { ...config, format: parseFormatOption(options.format) }
+      : config;
+  }
+
+  const partialConfig = unwrapOrFail(
+    await resolveProjectConfig(overrides, {
+      profile: options.profile,
+      envFile: options['env-file'],
+    })
+  );
+
+  if (!options.file) {
+    const setup = await getProjectSetup();
+
+    if (setup.success) {
+      const config = createConfigFromSetup(partialConfig, setup.value);
+
+      return options.format && !config.layout
+        ? { ...config, format: parseFormatOption(options.format) }
+        : config;
+    }
+  }
+
+  const localFilePath = await resolveLabelFilePath(options);
+  const format = resolveFormat(options, localFilePath);
+
+  return { ...partialConfig, localFilePath, format };
+}
+
+async function resolveLabelFilePath(options: CommonOptions): Promise<string> {
+  if (options.file) {
+    return resolve(options.file);
+  }
+
+  const candidates = await findLabelFiles();
+
+  if (candidates.length === 0) {
+    throw new CommandError(
+      'Unable to locate any label files. Pass one with --file.'
+    );
+  }
+  if (candidates.length > 1) {
+    throw new CommandError(
+      `Found multiple label files (${candidates.map(toRelativePath).join(', ')}). Pass one with --file.`
+    );
+  }
+
+  return candidates[0];
+}
+
+function resolveFormat(
+  options: CommonOptions,
+  localFilePath: string
+): SupportedFormat {
+  if (options.format) {
+    return parseFormatOption(options.format);
+  }
+
+  const format = inferFileFormatFromFileName(localFilePath);
+
+  if (!format) {
+    throw new CommandError(
+      `Unable to infer the format of ${toRelativePath(localFilePath)}. Pass one with --format.`
+    );
+  }
+
+  return format;
+}
+
+/**
+ * Validates a format passed on the command line against {@link SupportedFormat}.
+ */
+export function parseFormatOption(value: string): SupportedFormat {
+  const formats: string[] = Object.values(SupportedFormat);
+
+  if (!formats.includes(value)) {
+    throw new CommandError(
+      `Unsupported format '${value}'. Expected one of: ${formats.join(', ')}.`
+    );
+  }
+
+  return value as SupportedFormat;
+}
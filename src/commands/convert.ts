@@ -0,0 +1,109 @@
+import {
+  type Command,
+  CommandError,
+  getInteractionOptions,
+  parseCommandArguments,
+  parseLocaleOption,
+  unwrapOrFail,
+} from '@/commands/command';
+import { parseFormatOption } from '@/commands/context';
+import { convertLabels } from '@/core/label-conversion';
+import { inferLocaleFromPath } from '@/core/project-setup';
+import { inferFileFormatFromFileName, toRelativePath } from '@/files';
+import { inquireConfirmation } from '@/inquire/confirmation';
+import { exitMessage, log } from '@/utils';
+import type { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import chalk from 'chalk';
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+
+const DEFAULT_REFERENCE_LOCALE = 'en_US';
+
+export const convertCommand: Command = {
+  usage:
+    'convert <in> <out> [--from <format>] [--to <format>] [--reference <locale>] [--locale <locale>]',
+  description:
+    'Convert a label file to another format, without contacting the project.',
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      reference: { type: 'string', default: DEFAULT_REFERENCE_LOCALE },
+      locale: { type: 'string', short: 'l' },
+    });
+    const [inputPath, outputPath] = positionals;
+
+    if (!inputPath || !outputPath) {
+      throw new CommandError('Missing file. Usage: convert <in> <out>.');
+    }
+
+    const from = resolveFileFormat(inputPath, values.from, '--from');
+    const to = resolveFileFormat(outputPath, values.to, '--to');
+    const content = await readFile(resolve(inputPath), 'utf-8').catch(() => {
+      throw new CommandError(`Unable to read ${inputPath}.`);
+    });
+    const referenceLocale = parseLocaleOption(values.reference);
+    const result = unwrapOrFail(
+      await convertLabels(content, {
+        from,
+        to,
+        referenceLocale,
+        sourceLocale: inferLocaleFromPath(inputPath, from, referenceLocale),
+        targetLocale: values.locale
+          ? parseLocaleOption(values.locale)
+          : inferLocaleFromPath(outputPath, to, referenceLocale),
+      })
+    );
+
+    for (const warning of result.warnings) {
+      log(chalk.yellow(`⚠ ${warning}`));
+    }
+
+    if (
+      (await fileExists(outputPath)) &&
+      !(await inquireConfirmation(
+        `${toRelativePath(resolve(outputPath))} already exists. Overwrite it?`,
+        getInteractionOptions(values)
+      ))
+    ) {
+      exitMessage();
+      return;
+    }
+
+    await mkdir(dirname(resolve(outputPath)), { recursive: true });
+    await writeFile(resolve(outputPath), result.content, 'utf-8');
+
+    log(
+      chalk.green(
+        `Converted ${result.keys} label(s) in ${result.locales.join(', ') || 'no locales'} from ${from} to ${to}: ${chalk.underline(toRelativePath(resolve(outputPath)))}`
+      )
+    );
+  },
+};
+
+function resolveFileFormat(
+  path: string,
+  option: string | undefined,
+  optionName: string
+): SupportedFormat {
+  if (option) return parseFormatOption(option);
+
+  const format = inferFileFormatFromFileName(path);
+
+  if (!format) {
+    throw new CommandError(
+      `Unable to infer the format of ${path}. Pass one with ${optionName}.`
+    );
+  }
+
+  return format;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(resolve(path));
+    return true;
+  } catch {
+    return false;
+  }
+}
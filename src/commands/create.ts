@@ -0,0 +1,101 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getTranslationProvider } from '@/core/machine-translation';
+import { markForReview } from '@/core/review-state';
+import {
+  processLabelName,
+  tryAddLabel,
+  tryFetchLanguages,
+  validateLabelPlaceholders,
+} from '@/create-labels';
+import { printPlaceholderIssues } from '@/placeholder-report';
+import { tryTranslateNewLabel } from '@/translate-labels';
+
+export const createCommand: Command = {
+  usage: 'create <key> --value <locale>=<text> [--value ...] [--translate]',
+  description:
+    'Add a label to the local label file. The reference locale is required. --translate fills the other locales through machine translation.',
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      value: { type: 'string', short: 'v', multiple: true, default: [] },
+      translate: { type: 'boolean', default: false },
+    });
+    const [labelName] = positionals;
+
+    if (!labelName) {
+      throw new CommandError('Missing label key. Usage: create <key>.');
+    }
+    if (!processLabelName(labelName)) {
+      throw new CommandError(
+        `Invalid label key '${labelName}'. Use only letters, digits, '.', '_' and '-'.`
+      );
+    }
+
+    const translations = parseTranslationValues(values.value);
+    const config = await resolveCommandConfig(values);
+    const locales = await tryFetchLanguages(config);
+
+    for (const locale of translations.keys()) {
+      if (!locales.some(entry => entry.locale === locale)) {
+        throw new CommandError(
+          `Locale '${locale}' is not part of the project. Expected one of: ${locales.map(entry => entry.locale).join(', ')}.`
+        );
+      }
+    }
+
+    const reference = locales.find(entry => entry.isReference);
+    if (reference && !translations.get(reference.locale)) {
+      throw new CommandError(
+        `Missing value for reference locale '${reference.locale}'. Pass it with --value ${reference.locale}=<text>.`
+      );
+    }
+
+    const machineTranslations = values.translate
+      ? await tryTranslateNewLabel(
+          unwrapOrFail(await getTranslationProvider()),
+          labelName,
+          translations,
+          locales
+        )
+      : [];
+    const issues = validateLabelPlaceholders(labelName, translations, locales);
+
+    if (issues.length) {
+      printPlaceholderIssues(issues);
+      throw new CommandError(
+        `The placeholders of '${labelName}' are inconsistent. The label has not been added.`
+      );
+    }
+
+    if (!(await tryAddLabel(config, labelName, translations, locales))) {
+      throw new CommandError(`The label '${labelName}' has not been added.`);
+    }
+    await markForReview(machineTranslations);
+  },
+};
+
+function parseTranslationValues(entries: string[]): Map<string, string> {
+  const translations = new Map<string, string>();
+
+  for (const entry of entries) {
+    const separatorIndex = entry.indexOf('=');
+
+    if (separatorIndex <= 0) {
+      throw new CommandError(
+        `Invalid value '${entry}'. Expected the form <locale>=<text>.`
+      );
+    }
+
+    translations.set(
+      entry.slice(0, separatorIndex),
+      entry.slice(separatorIndex + 1)
+    );
+  }
+
+  return translations;
+}
@@ -0,0 +1,31 @@
+import {
+  type Command,
+  CommandError,
+  getInteractionOptions,
+  parseCommandArguments,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { Ok } from '@/core/result';
+import { tryEditLabels } from '@/edit-labels';
+
+export const deleteCommand: Command = {
+  usage: 'delete <key> [<key> ...] [--dry-run]',
+  description: 'Delete labels from the local label files and the project.',
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      'dry-run': { type: 'boolean', default: false },
+    });
+
+    if (!positionals.length) {
+      throw new CommandError('Missing label key. Usage: delete <key>.');
+    }
+
+    const config = await resolveCommandConfig(values);
+
+    await tryEditLabels(
+      config,
+      () => Ok(positionals.map(key => ({ type: 'delete', key }))),
+      { ...getInteractionOptions(values), dryRun: values['dry-run'] }
+    );
+  },
+};
@@ -0,0 +1,27 @@
+import { type Command, parseCommandArguments } from '@/commands/command';
+import { listSnapshots } from '@/core/label-history';
+import { log } from '@/utils';
+import chalk from 'chalk';
+
+export const historyCommand: Command = {
+  usage: 'history',
+  description:
+    'List the snapshots of the local labels taken before they were overwritten, see restore.',
+  async run(args) {
+    parseCommandArguments(args, {});
+    const snapshots = await listSnapshots();
+
+    if (!snapshots.length) {
+      log(chalk.blue('No snapshots have been taken yet.'));
+      return;
+    }
+
+    for (const snapshot of snapshots) {
+      const { added, changed, removed } = snapshot.changes;
+
+      log(
+        `${chalk.bold(snapshot.id)}  ${new Date(snapshot.createdAt).toLocaleString()}  ${chalk.cyan(snapshot.command)}  ${chalk.green(`+${added}`)} ${chalk.yellow(`~${changed}`)} ${chalk.red(`-${removed}`)} ${chalk.gray(`(${snapshot.labels} labels before)`)}`
+      );
+    }
+  },
+};
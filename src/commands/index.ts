@@ -0,0 +1,96 @@
+import { checkCommand } from '@/commands/check';
+import { codegenCommand } from '@/commands/codegen';
+import { type Command, CommandError } from '@/commands/command';
+import { convertCommand } from '@/commands/convert';
+import { createCommand } from '@/commands/create';
+import { deleteCommand } from '@/commands/delete';
+import { historyCommand } from '@/commands/history';
+import { localesCommand } from '@/commands/locales';
+import { loginCommand } from '@/commands/login';
+import { logoutCommand } from '@/commands/logout';
+import { mvCommand } from '@/commands/mv';
+import { pullCommand } from '@/commands/pull';
+import { pseudoCommand } from '@/commands/pseudo';
+import { pushCommand } from '@/commands/push';
+import { renameCommand } from '@/commands/rename';
+import { restoreCommand } from '@/commands/restore';
+import { scanCommand } from '@/commands/scan';
+import { schemaCommand } from '@/commands/schema';
+import { setCommand } from '@/commands/set';
+import { statusCommand } from '@/commands/status';
+import { translateCommand } from '@/commands/translate';
+import { validateCommand } from '@/commands/validate';
+import { watchCommand } from '@/commands/watch';
+import { whoamiCommand } from '@/commands/whoami';
+import { workspaceCommand } from '@/commands/workspace';
+import chalk from 'chalk';
+
+const commands: Record<string, Command> = {
+  pull: pullCommand,
+  push: pushCommand,
+  create: createCommand,
+  rename: renameCommand,
+  delete: deleteCommand,
+  mv: mvCommand,
+  set: setCommand,
+  translate: translateCommand,
+  locales: localesCommand,
+  convert: convertCommand,
+  pseudo: pseudoCommand,
+  status: statusCommand,
+  history: historyCommand,
+  restore: restoreCommand,
+  check: checkCommand,
+  validate: validateCommand,
+  scan: scanCommand,
+  codegen: codegenCommand,
+  schema: schemaCommand,
+  watch: watchCommand,
+  login: loginCommand,
+  logout: logoutCommand,
+  whoami: whoamiCommand,
+  workspace: workspaceCommand,
+};
+
+/**
+ * Runs the subcommand with the given name.
+ *
+ * @throws CommandError if the command is unknown or fails.
+ */
+export async function runCommand(name: string, args: string[]): Promise<void> {
+  if (name === 'help' || name === '--help' || name === '-h') {
+    printUsage();
+    return;
+  }
+
+  const command = commands[name];
+
+  if (!command) {
+    throw new CommandError(
+      `Unknown command '${name}'. Run 'labeleer-cli help' for a list of commands.`
+    );
+  }
+
+  await command.run(args);
+}
+
+function printUsage() {
+  console.log(`Usage: labeleer-cli [command] [options]
+
+Without a command, an interactive session is started.
+
+Commands:`);
+  for (const command of Object.values(commands)) {
+    console.log(`  ${chalk.bold(command.usage)}`);
+    console.log(`      ${command.description}`);
+  }
+  console.log(`
+Options:
+  -p, --project <id>    Project ID (defaults to LABELEER_PROJECT_ID)
+  -t, --token <token>   Access token (defaults to LABELEER_ACCESS_TOKEN)
+  -f, --file <path>     Label file to use
+      --format <format> Format of the label file
+      --profile <name>  Stored credentials to use (see login)
+      --env-file <path> Read this .env file instead of looking up .env files
+  -y, --yes             Confirm all prompts`);
+}
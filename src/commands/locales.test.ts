@@ -0,0 +1,161 @@
+import { CommandError } from '@/commands/command';
+import { localesCommand } from '@/commands/locales';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const fetchMock = vi.fn<typeof fetch>();
+let directory: string;
+let output: string[];
+
+const remoteLocales = [
+  { locale: 'en_US', isReference: true, id: '1', createdAt: '2024-01-01' },
+  { locale: 'de_DE', isReference: false, id: '2', createdAt: '2024-01-01' },
+];
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'labeleer-'));
+  output = [];
+  vi.spyOn(process, 'cwd').mockReturnValue(directory);
+  vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+    output.push(args.map(String).join(' '));
+  });
+  vi.stubEnv('XDG_CONFIG_HOME', directory);
+  vi.stubEnv('LABELEER_ACCESS_TOKEN', 'token');
+  vi.stubEnv('LABELEER_PROJECT_ID', 'p1');
+  vi.stubEnv('LABELEER_PROJECT', '');
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockImplementation((_, init) =>
+    Promise.resolve(
+      new Response(
+        init?.method === 'GET' ? JSON.stringify({ data: remoteLocales }) : ''
+      )
+    )
+  );
+});
+
+afterEach(async () => {
+  fetchMock.mockReset();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await rm(directory, { recursive: true, force: true });
+});
+
+function getRequests() {
+  return fetchMock.mock.calls.map(
+    ([url, init]) =>
+      `${init?.method} ${(url as string).replace(/^.*\/api/, '')}`
+  );
+}
+
+describe('locales', () => {
+  it('lists the locales of the project', async () => {
+    await localesCommand.run(['list']);
+
+    expect(getRequests()).toEqual(['GET /project/p1/locale']);
+    expect(output.join('\n')).toMatch(/en_US.*★/);
+    expect(output.join('\n')).toContain('2 locale(s)');
+  });
+
+  it('takes the project from LABELEER_PROJECT', async () => {
+    vi.stubEnv('LABELEER_PROJECT_ID', '');
+    vi.stubEnv('LABELEER_PROJECT', 'my-project::android_strings@./res');
+
+    await localesCommand.run(['list']);
+
+    expect(getRequests()).toEqual(['GET /project/my-project/locale']);
+  });
+
+  it('adds a locale to the project', async () => {
+    await localesCommand.run(['add', 'fr']);
+
+    expect(getRequests()).toEqual([
+      'GET /project/p1/locale',
+      'POST /project/p1/locale',
+    ]);
+    expect(fetchMock.mock.calls[1][1]?.body).toBe('{"locale":"fr_FR"}');
+  });
+
+  it('rejects locales that are already part of the project', async () => {
+    await expect(localesCommand.run(['add', 'de-DE'])).rejects.toThrow(
+      new CommandError(
+        'German (Germany) (de_DE) is already part of the project.'
+      )
+    );
+    expect(getRequests()).toEqual(['GET /project/p1/locale']);
+  });
+
+  it('creates the label file of a new locale next to the existing ones', async () => {
+    fetchMock.mockImplementation((_, init) =>
+      Promise.resolve(
+        new Response(
+          init?.method === 'GET'
+            ? JSON.stringify({
+                data: [
+                  ...remoteLocales,
+                  { ...remoteLocales[1], locale: 'pt_PT', id: '3' },
+                ],
+              })
+            : ''
+        )
+      )
+    );
+    await mkdir(join(directory, 'res/values'), { recursive: true });
+    await mkdir(join(directory, 'res/values-de'), { recursive: true });
+    await writeFile(join(directory, 'res/values/strings.xml'), '<resources/>');
+    await writeFile(
+      join(directory, 'res/values-de/strings.xml'),
+      '<resources/>'
+    );
+    await writeFile(
+      join(directory, 'labeleer.json'),
+      JSON.stringify({
+        variant: 'android_strings',
+        paths: [
+          { locale: 'reference', path: 'res/values/strings.xml' },
+          { locale: 'de_DE', path: 'res/values-de/strings.xml' },
+        ],
+      })
+    );
+
+    await localesCommand.run(['add', 'pt_BR', '--scaffold']);
+
+    expect(getRequests()).toEqual([
+      'GET /project/p1/locale',
+      'POST /project/p1/locale',
+    ]);
+    expect(
+      await readFile(join(directory, 'res/values-pt-rBR/strings.xml'), 'utf-8')
+    ).toContain('<resources');
+    const setup = JSON.parse(
+      await readFile(join(directory, 'labeleer.json'), 'utf-8')
+    ) as { paths: { locale: string; path: string }[] };
+    expect(setup.paths).toContainEqual({
+      locale: 'pt_BR',
+      path: 'res/values-pt-rBR/strings.xml',
+    });
+  });
+
+  it('removes a locale from the project', async () => {
+    await localesCommand.run(['remove', 'de', '--yes']);
+
+    expect(getRequests()).toEqual([
+      'GET /project/p1/locale',
+      'DELETE /project/p1/locale/de_DE',
+    ]);
+  });
+
+  it('keeps the reference locale and rejects unknown locales', async () => {
+    await expect(
+      localesCommand.run(['remove', 'en_US', '--yes'])
+    ).rejects.toThrow(
+      new CommandError('The reference locale cannot be removed.')
+    );
+    await expect(localesCommand.run(['remove', 'fr', '--yes'])).rejects.toThrow(
+      new CommandError('French (France) (fr_FR) is not part of the project.')
+    );
+    expect(getRequests()).not.toContain('DELETE /project/p1/locale/en_US');
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  type Command,
+  CommandError,
+  type CommonOptions,
+  getInteractionOptions,
+  parseCommandArguments,
+  parseLocaleOption,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getLocalLabelFiles, scaffoldLocaleFiles } from '@/core/local-labels';
+import {
+  extractProjectIdentity,
+  hasProjectIdentityInEnv,
+} from '@/core/project-location';
+import { updateProjectSetupPaths } from '@/core/project-setup';
+import { getLocaleName, tryFetchLanguages } from '@/create-labels';
+import { toRelativePath } from '@/files';
+import { inquireConfirmation } from '@/inquire/confirmation';
+import { resolveProjectConfig } from '@/project-settings';
+import { addRemoteLocale, removeRemoteLocale } from '@/remote-locales';
+import { exitMessage, log } from '@/utils';
+import chalk from 'chalk';
+import type { PartialConfig } from 'labeleer-cli';
+
+export const localesCommand: Command = {
+  usage: 'locales list | add <locale> [--scaffold] | remove <locale>',
+  description:
+    'List, add or remove the locales of the project. --scaffold creates the label file of a new locale.',
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      scaffold: { type: 'boolean', default: false },
+    });
+    const [action, locale] = positionals;
+
+    switch (action) {
+      case 'list':
+        return await listLocales(values);
+      case 'add':
+        return await addLocale(values, parseLocale(locale));
+      case 'remove':
+        return await removeLocale(values, parseLocale(locale));
+      default:
+        throw new CommandError(
+          'Expected one of list, add or remove. Usage: locales list | add <locale> | remove <locale>.'
+        );
+    }
+  },
+};
+
+async function listLocales(options: CommonOptions) {
+  const locales = await tryFetchLanguages(await resolvePartialConfig(options));
+  const nameWidth = Math.max(
+    ...locales.map(entry => getLocaleName(entry.locale).length)
+  );
+
+  for (const entry of locales) {
+    log(
+      `${getLocaleName(entry.locale).padEnd(nameWidth)}  ${chalk.gray(entry.locale)}${entry.isReference ? chalk.yellow(' ★') : ''}`
+    );
+  }
+  log(chalk.gray(`${locales.length} locale(s), ★ marks the reference locale.`));
+}
+
+async function addLocale(
+  options: CommonOptions & { scaffold: boolean },
+  locale: string
+) {
+  // The label files are resolved first, so a misconfiguration does not leave a half-added locale.
+  const projectConfig = options.scaffold
+    ? await resolveCommandConfig(options)
+    : undefined;
+  const config = projectConfig ?? (await resolvePartialConfig(options));
+  const files = projectConfig
+    ? unwrapOrFail(getLocalLabelFiles(projectConfig))
+    : undefined;
+
+  if (!files?.layout && files?.entries.some(entry => entry.locale === '*')) {
+    throw new CommandError(
+      'The label file holds every locale, so there is no file to scaffold.'
+    );
+  }
+
+  const locales = await tryFetchLanguages(config);
+
+  if (locales.some(entry => entry.locale === locale)) {
+    throw new CommandError(
+      `${getLocaleName(locale)} (${locale}) is already part of the project.`
+    );
+  }
+
+  unwrapOrFail(await addRemoteLocale(config, locale));
+  log(
+    chalk.green(`Added ${getLocaleName(locale)} (${locale}) to the project.`)
+  );
+
+  if (!files) return;
+
+  const entries = unwrapOrFail(
+    await scaffoldLocaleFiles(files, locale, {
+      referenceLocale:
+        locales.find(entry => entry.isReference)?.locale ?? locale,
+      locales: [...locales.map(entry => entry.locale), locale],
+    })
+  );
+
+  if (projectConfig?.localFiles) {
+    await updateProjectSetupPaths([...projectConfig.localFiles, ...entries]);
+  }
+  for (const entry of entries) {
+    log(chalk.green(`Created ${chalk.underline(toRelativePath(entry.path))}.`));
+  }
+}
+
+async function removeLocale(options: CommonOptions, locale: string) {
+  const config = await resolvePartialConfig(options);
+  const entry = (await tryFetchLanguages(config)).find(
+    entry => entry.locale === locale
+  );
+
+  if (!entry) {
+    throw new CommandError(
+      `${getLocaleName(locale)} (${locale}) is not part of the project.`
+    );
+  }
+  if (entry.isReference) {
+    throw new CommandError('The reference locale cannot be removed.');
+  }
+
+  const confirmed = await inquireConfirmation(
+    `Remove ${getLocaleName(locale)} (${locale}) and all of its translations from the project?`,
+    getInteractionOptions(options)
+  );
+
+  if (!confirmed) {
+    exitMessage();
+    return;
+  }
+
+  unwrapOrFail(await removeRemoteLocale(config, locale));
+  log(
+    chalk.green(
+      `Removed ${getLocaleName(locale)} (${locale}) from the project. Local label files are kept.`
+    )
+  );
+}
+
+function parseLocale(value: string | undefined): string {
+  if (!value) {
+    throw new CommandError('Missing locale, e.g. de or de_DE.');
+  }
+
+  return parseLocaleOption(value);
+}
+
+/**
+ * Resolves the project and access token. The label files are not needed, so the
+ * project ID of `LABELEER_PROJECT` is used without looking them up.
+ */
+async function resolvePartialConfig(
+  options: CommonOptions
+): Promise<PartialConfig> {
+  const identity = hasProjectIdentityInEnv()
+    ? unwrapOrFail(extractProjectIdentity(process.env.LABELEER_PROJECT))
+    : undefined;
+
+  return unwrapOrFail(
+    await resolveProjectConfig(
+      {
+        projectId: options.project ?? identity?.projectId,
+        accessToken: options.token,
+      },
+      { profile: options.profile, envFile: options['env-file'] }
+    )
+  );
+}
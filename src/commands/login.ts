@@ -0,0 +1,50 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import { writeCredentialProfile } from '@/core/credential-store';
+import { tryFetchLanguages } from '@/create-labels';
+import { getDefaultProfile } from '@/project-settings';
+import { log } from '@/utils';
+import { input, password } from '@inquirer/prompts';
+import chalk from 'chalk';
+
+export const loginCommand: Command = {
+  usage: 'login [--profile <name>] [--project <id>] [--token <token>]',
+  description: 'Verify and store the credentials of a project for later runs.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {});
+    const profile = values.profile ?? (await getDefaultProfile());
+    const projectId = values.project ?? (await inquireValue('project ID'));
+    const accessToken = values.token ?? (await inquireValue('access token'));
+
+    await tryFetchLanguages({ projectId, accessToken });
+
+    const path = unwrapOrFail(
+      await writeCredentialProfile(profile, { projectId, accessToken })
+    );
+
+    log(
+      chalk.green(
+        `Logged in to project ${chalk.bold(projectId)} as profile ${chalk.bold(profile)}.`
+      )
+    );
+    log(chalk.gray(`Credentials are stored in ${path}`));
+  },
+};
+
+async function inquireValue(name: 'project ID' | 'access token') {
+  if (!process.stdin.isTTY) {
+    throw new CommandError(
+      `Missing ${name}. Pass it with ${name === 'project ID' ? '--project' : '--token'}.`
+    );
+  }
+
+  const message = `Please enter your ${name}:`;
+
+  return name === 'access token'
+    ? await password({ message, mask: true }, { clearPromptOnDone: true })
+    : await input({ message, required: true }, { clearPromptOnDone: true });
+}
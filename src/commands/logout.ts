@@ -0,0 +1,29 @@
+import {
+  type Command,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import { removeCredentialProfile } from '@/core/credential-store';
+import { getDefaultProfile } from '@/project-settings';
+import { log } from '@/utils';
+import chalk from 'chalk';
+
+export const logoutCommand: Command = {
+  usage: 'logout [--profile <name>]',
+  description: 'Remove the stored credentials of a profile.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {});
+    const profile = values.profile ?? (await getDefaultProfile());
+    const removed = unwrapOrFail(await removeCredentialProfile(profile));
+
+    log(
+      removed
+        ? chalk.green(
+            `Removed the credentials of profile ${chalk.bold(profile)}.`
+          )
+        : chalk.yellow(
+            `No credentials stored for profile ${chalk.bold(profile)}.`
+          )
+    );
+  },
+};
@@ -0,0 +1,43 @@
+import {
+  type Command,
+  CommandError,
+  getInteractionOptions,
+  parseCommandArguments,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getMoveOperations } from '@/core/key-operations';
+import { processLabelName } from '@/create-labels';
+import { tryEditLabels } from '@/edit-labels';
+
+export const mvCommand: Command = {
+  usage: 'mv <prefix> <newPrefix> [--dry-run]',
+  description:
+    "Move every label in a namespace, e.g. 'settings.*' to 'preferences.*'.",
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      'dry-run': { type: 'boolean', default: false },
+    });
+    const [prefix, newPrefix] = positionals.map(positional =>
+      positional.replace(/\.\*?$/, '')
+    );
+
+    if (!prefix || !newPrefix) {
+      throw new CommandError(
+        'Missing namespace. Usage: mv <prefix> <newPrefix>.'
+      );
+    }
+    if (!processLabelName(newPrefix)) {
+      throw new CommandError(
+        `Invalid namespace '${newPrefix}'. Use only letters, digits, '.', '_' and '-'.`
+      );
+    }
+
+    const config = await resolveCommandConfig(values);
+
+    await tryEditLabels(
+      config,
+      labelFile => getMoveOperations(labelFile, prefix, newPrefix),
+      { ...getInteractionOptions(values), dryRun: values['dry-run'] }
+    );
+  },
+};
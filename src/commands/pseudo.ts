@@ -0,0 +1,110 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  parseLocaleOption,
+  parseNumberOption,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { recordSnapshot } from '@/core/label-history';
+import {
+  getLocalLabelFiles,
+  readLocalLabels,
+  writeLocalLabels,
+} from '@/core/local-labels';
+import { updateProjectSetupPaths } from '@/core/project-setup';
+import {
+  createPseudoTranslations,
+  isPseudoLocale,
+  pseudoLocales,
+} from '@/core/pseudo-localization';
+import { tryFetchLanguages } from '@/create-labels';
+import { toRelativePath } from '@/files';
+import { log } from '@/utils';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import chalk from 'chalk';
+
+const DEFAULT_PSEUDO_LOCALE = 'en_XA';
+
+export const pseudoCommand: Command = {
+  usage:
+    'pseudo [--locale en-XA|ar-XB] [--expansion <percent>] [--no-accents] [--no-brackets] [--mirror]',
+  description:
+    'Write a pseudo locale derived from the reference locale into the local label files, to find truncated and hard-coded strings.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      locale: { type: 'string', short: 'l', default: DEFAULT_PSEUDO_LOCALE },
+      expansion: { type: 'string' },
+      'no-accents': { type: 'boolean', default: false },
+      'no-brackets': { type: 'boolean', default: false },
+      mirror: { type: 'boolean', default: false },
+    });
+    const locale = parseLocaleOption(values.locale);
+
+    if (!isPseudoLocale(locale)) {
+      throw new CommandError(
+        `'${values.locale}' is not a pseudo locale. Expected one of: en-XA, ar-XB.`
+      );
+    }
+
+    const defaults = pseudoLocales[locale];
+    const options = {
+      accents: defaults.accents && !values['no-accents'],
+      expansion:
+        values.expansion === undefined
+          ? defaults.expansion
+          : parseNumberOption('--expansion', values.expansion),
+      brackets: defaults.brackets && !values['no-brackets'],
+      mirror: defaults.mirror || values.mirror,
+    };
+    const config = await resolveCommandConfig(values);
+    const files = unwrapOrFail(getLocalLabelFiles(config));
+
+    if (
+      !files.layout &&
+      files.format !== SupportedFormat.JSON &&
+      files.entries.some(entry => entry.locale === '*')
+    ) {
+      throw new CommandError(
+        `A ${files.format} file that holds every locale only accepts the locales of the project. Pseudo locales need one file per locale, or the json format.`
+      );
+    }
+    const locales = await tryFetchLanguages(config);
+    const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+    if (!referenceLocale) {
+      throw new CommandError('The project has no reference locale.');
+    }
+
+    const labelFile = unwrapOrFail(
+      await readLocalLabels(files, referenceLocale)
+    );
+    const pseudoLabels = createPseudoTranslations(
+      labelFile,
+      referenceLocale,
+      locale,
+      options
+    );
+
+    await recordSnapshot('pseudo', labelFile, pseudoLabels);
+    const written = unwrapOrFail(
+      await writeLocalLabels(files, pseudoLabels, {
+        referenceLocale,
+        locales: [...locales.map(entry => entry.locale), locale],
+      })
+    );
+
+    if (config.localFiles && written.length > config.localFiles.length) {
+      await updateProjectSetupPaths(written);
+    }
+
+    log(
+      chalk.green(
+        `Generated ${locale} for ${Object.keys(labelFile).length} label(s) in ${written
+          .map(entry => chalk.underline(toRelativePath(entry.path)))
+          .join(', ')}`
+      )
+    );
+  },
+};
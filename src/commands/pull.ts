@@ -0,0 +1,19 @@
+import {
+  type Command,
+  getInteractionOptions,
+  parseCommandArguments,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { tryRetrieveLabels } from '@/retrieve-labels';
+
+export const pullCommand: Command = {
+  usage: 'pull [--file <path>] [--format <format>]',
+  description:
+    'Retrieve the labels of the project and merge them into the local label file.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {});
+    const config = await resolveCommandConfig(values);
+
+    await tryRetrieveLabels(config, getInteractionOptions(values));
+  },
+};
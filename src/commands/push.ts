@@ -0,0 +1,24 @@
+import {
+  type Command,
+  getInteractionOptions,
+  parseCommandArguments,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { tryPublishLocalLabels } from '@/publish-labels';
+
+export const pushCommand: Command = {
+  usage: 'push [--file <path>] [--format <format>] [--dry-run]',
+  description:
+    'Publish the local label file to the project, after showing the changes.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      'dry-run': { type: 'boolean', default: false },
+    });
+    const config = await resolveCommandConfig(values);
+
+    await tryPublishLocalLabels(config, {
+      ...getInteractionOptions(values),
+      dryRun: values['dry-run'],
+    });
+  },
+};
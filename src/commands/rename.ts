@@ -0,0 +1,40 @@
+import {
+  type Command,
+  CommandError,
+  getInteractionOptions,
+  parseCommandArguments,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { Ok } from '@/core/result';
+import { processLabelName } from '@/create-labels';
+import { tryEditLabels } from '@/edit-labels';
+
+export const renameCommand: Command = {
+  usage: 'rename <key> <newKey> [--dry-run]',
+  description:
+    'Rename a label in the local label files and in the project, keeping its translations.',
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      'dry-run': { type: 'boolean', default: false },
+    });
+    const [key, newKey] = positionals;
+
+    if (!key || !newKey) {
+      throw new CommandError(
+        'Missing label key. Usage: rename <key> <newKey>.'
+      );
+    }
+    if (!processLabelName(newKey)) {
+      throw new CommandError(
+        `Invalid label key '${newKey}'. Use only letters, digits, '.', '_' and '-'.`
+      );
+    }
+
+    const config = await resolveCommandConfig(values);
+
+    await tryEditLabels(config, () => Ok([{ type: 'rename', key, newKey }]), {
+      ...getInteractionOptions(values),
+      dryRun: values['dry-run'],
+    });
+  },
+};
@@ -0,0 +1,35 @@
+import {
+  type Command,
+  CommandError,
+  getInteractionOptions,
+  parseCommandArguments,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { tryRestoreSnapshot } from '@/restore-labels';
+
+export const restoreCommand: Command = {
+  usage: 'restore <id> [--push] [--dry-run]',
+  description:
+    'Roll the local label files back to a snapshot of history. --push publishes the restored labels as well.',
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      push: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+    });
+    const [id] = positionals;
+
+    if (!id) {
+      throw new CommandError(
+        'Expected a snapshot id. Usage: restore <id>. Run history to list the snapshots.'
+      );
+    }
+
+    const config = await resolveCommandConfig(values);
+
+    await tryRestoreSnapshot(config, id, {
+      ...getInteractionOptions(values),
+      push: values.push,
+      dryRun: values['dry-run'],
+    });
+  },
+};
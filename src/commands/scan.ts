@@ -0,0 +1,173 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getIgnorePatterns } from '@/core/file-discovery';
+import { getLocalLabelFiles, readLocalLabels } from '@/core/local-labels';
+import { getProjectSetup } from '@/core/project-setup';
+import {
+  defaultKeyPatterns,
+  defaultSourcePatterns,
+  parseKeyPattern,
+  type ScanResult,
+  scanSourceFiles,
+} from '@/core/source-scan';
+import { tryFetchLanguages } from '@/create-labels';
+import { parseReportFormat, renderJUnitReport, writeReport } from '@/reporting';
+import { log } from '@/utils';
+import chalk from 'chalk';
+import { relative } from 'path';
+
+export const scanCommand: Command = {
+  usage:
+    'scan [--include <glob>] [--exclude <glob>] [--pattern <regex>] [--strict] [--report text|json|junit] [--out <path>]',
+  description:
+    'Find keys that are used in the source code but missing from the label file, and keys that are never used.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      include: { type: 'string', multiple: true, default: [] },
+      exclude: { type: 'string', multiple: true, default: [] },
+      pattern: { type: 'string', multiple: true, default: [] },
+      strict: { type: 'boolean', default: false },
+      report: { type: 'string', default: 'text' },
+      out: { type: 'string' },
+    });
+    const reportFormat = parseReportFormat(values.report);
+    const setup = await getProjectSetup();
+    const scanSetup = setup.success ? setup.value.scan : undefined;
+    const patterns = [...(scanSetup?.patterns ?? []), ...values.pattern].map(
+      pattern => unwrapOrFail(parseKeyPattern(pattern))
+    );
+
+    const config = await resolveCommandConfig(values);
+    const files = unwrapOrFail(getLocalLabelFiles(config));
+    const locales = await tryFetchLanguages(config);
+    const reference = locales.find(entry => entry.isReference);
+
+    if (!reference) {
+      throw new CommandError('The project has no reference locale.');
+    }
+
+    const labelFile = unwrapOrFail(
+      await readLocalLabels(files, reference.locale)
+    );
+    const result = await scanSourceFiles(
+      process.cwd(),
+      Object.keys(labelFile),
+      {
+        include: values.include.length
+          ? values.include
+          : (scanSetup?.include ?? defaultSourcePatterns),
+        ignore: [
+          ...getIgnorePatterns(),
+          ...(scanSetup?.exclude ?? []),
+          ...values.exclude,
+          // The label files themselves define keys rather than reference them.
+          ...files.entries.map(entry =>
+            relative(process.cwd(), entry.path).replace(
+              /\{(?:locale|namespace)\}/g,
+              '*'
+            )
+          ),
+        ],
+        patterns: [...defaultKeyPatterns, ...patterns],
+      }
+    );
+    const violation = findViolation(result, values.strict);
+
+    if (reportFormat === 'text') {
+      printScanResult(result);
+      if (violation) throw new CommandError(violation);
+      return;
+    }
+
+    await writeReport(
+      reportFormat === 'json'
+        ? `${JSON.stringify({ undefinedKeys: result.undefinedKeys, unusedKeys: result.unusedKeys }, null, 2)}\n`
+        : renderJUnitReport(
+            'labeleer-scan',
+            toTestSuites(result, values.strict)
+          ),
+      values.out
+    );
+
+    // Keep stdout parseable, the report may have been written to it.
+    if (violation) {
+      console.error(chalk.red(violation));
+      process.exitCode = 1;
+    }
+  },
+};
+
+/**
+ * Undefined keys always fail the scan, unused keys only in strict mode.
+ */
+function findViolation(
+  result: ScanResult,
+  strict: boolean
+): string | undefined {
+  if (result.undefinedKeys.length) {
+    return `${result.undefinedKeys.length} key reference(s) missing from the label file.`;
+  }
+  if (strict && result.unusedKeys.length) {
+    return `${result.unusedKeys.length} key(s) are not used in the source code.`;
+  }
+
+  return undefined;
+}
+
+function printScanResult(result: ScanResult) {
+  if (result.undefinedKeys.length) {
+    log(chalk.bold('Used in the source code, missing from the label file'));
+
+    for (const reference of result.undefinedKeys) {
+      log(
+        chalk.red(`  ✗ ${reference.key}`),
+        chalk.gray(`${reference.file}:${reference.line}`)
+      );
+    }
+  }
+
+  if (result.unusedKeys.length) {
+    log(chalk.bold('Not used in the source code'));
+
+    for (const key of result.unusedKeys) {
+      log(chalk.yellow(`  - ${key}`));
+    }
+  }
+
+  log(
+    `${chalk.blue(`${result.references.length} reference(s) found`)}, ${chalk.red(`${result.undefinedKeys.length} undefined`)}, ${chalk.yellow(`${result.unusedKeys.length} unused`)}`
+  );
+}
+
+/**
+ * Unused keys only fail the report in strict mode, like the exit code.
+ */
+function toTestSuites(result: ScanResult, strict: boolean) {
+  return [
+    {
+      name: 'undefined keys',
+      testCases: result.undefinedKeys.map(reference => ({
+        name: `${reference.file}:${reference.line}`,
+        className: 'labeleer.scan.undefined',
+        failure: `Key '${reference.key}' is missing from the label file`,
+      })),
+    },
+    {
+      name: 'unused keys',
+      testCases: result.unusedKeys.map(key => {
+        const message = `Key '${key}' is not used in the source code`;
+
+        return {
+          name: key,
+          className: 'labeleer.scan.unused',
+          ...(strict ? { failure: message } : { skipped: message }),
+        };
+      }),
+    },
+  ];
+}
@@ -0,0 +1,19 @@
+import { type Command, parseCommandArguments } from '@/commands/command';
+import { getProjectSetupJsonSchema } from '@/core/project-setup';
+import { writeReport } from '@/reporting';
+
+export const schemaCommand: Command = {
+  usage: 'schema [--out <path>]',
+  description:
+    'Print the JSON Schema of labeleer.json, or write it to a file with --out.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      out: { type: 'string' },
+    });
+
+    await writeReport(
+      `${JSON.stringify(getProjectSetupJsonSchema(), null, 2)}\n`,
+      values.out
+    );
+  },
+};
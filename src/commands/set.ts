@@ -0,0 +1,41 @@
+import {
+  type Command,
+  CommandError,
+  getInteractionOptions,
+  parseCommandArguments,
+  parseLocaleOption,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { Ok } from '@/core/result';
+import { tryEditLabels } from '@/edit-labels';
+
+export const setCommand: Command = {
+  usage: 'set <key> --locale <locale> <text> [--dry-run]',
+  description:
+    'Change the translation of an existing label in the local label files and the project.',
+  async run(args) {
+    const { values, positionals } = parseCommandArguments(args, {
+      locale: { type: 'string', short: 'l' },
+      'dry-run': { type: 'boolean', default: false },
+    });
+    const [key, value] = positionals;
+
+    if (!key || value === undefined) {
+      throw new CommandError(
+        'Missing label key or text. Usage: set <key> --locale <locale> <text>.'
+      );
+    }
+    if (!values.locale) {
+      throw new CommandError('Missing locale. Pass it with --locale <locale>.');
+    }
+
+    const locale = parseLocaleOption(values.locale);
+    const config = await resolveCommandConfig(values);
+
+    await tryEditLabels(
+      config,
+      () => Ok([{ type: 'set', key, locale, value }]),
+      { ...getInteractionOptions(values), dryRun: values['dry-run'] }
+    );
+  },
+};
@@ -0,0 +1,132 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getLocalLabelFiles, readLocalLabels } from '@/core/local-labels';
+import {
+  getProjectStatus,
+  type LocaleStatus,
+  type ProjectStatus,
+} from '@/core/project-status';
+import { getLocaleName, tryFetchLanguages } from '@/create-labels';
+import { toRelativePath } from '@/files';
+import { fetchRemoteLabels } from '@/remote-labels';
+import { log } from '@/utils';
+import chalk from 'chalk';
+import type { ProjectConfig } from 'labeleer-cli';
+import ora from 'ora';
+
+const PROGRESS_BAR_WIDTH = 20;
+/**
+ * How many local-only and remote-only keys are listed per locale.
+ */
+const LISTED_KEYS = 5;
+
+export const statusCommand: Command = {
+  usage: 'status [--json]',
+  description:
+    'Show the translation progress per locale, comparing the local label files with the project.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      json: { type: 'boolean', default: false },
+    });
+    const config = await resolveCommandConfig(values);
+    const files = unwrapOrFail(getLocalLabelFiles(config));
+    const locales = await tryFetchLanguages(config);
+    const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+    if (!referenceLocale) {
+      throw new CommandError('The project has no reference locale.');
+    }
+
+    const localLabels = unwrapOrFail(
+      await readLocalLabels(files, referenceLocale)
+    );
+    const loader = values.json
+      ? undefined
+      : ora('Loading the remote project...').start();
+    const remoteLabels = await fetchRemoteLabels(config, referenceLocale);
+    loader?.stop();
+
+    const status = getProjectStatus(
+      localLabels,
+      unwrapOrFail(remoteLabels),
+      locales.map(entry => entry.locale),
+      referenceLocale
+    );
+
+    if (values.json) {
+      const report = {
+        projectId: config.projectId,
+        ...status,
+        locales: status.locales.map(entry => ({
+          ...entry,
+          name: getLocaleName(entry.locale),
+        })),
+      };
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+      return;
+    }
+
+    printStatus(config, status);
+  },
+};
+
+function printStatus(config: ProjectConfig, status: ProjectStatus) {
+  log(chalk.blue(`Project:    ${chalk.bold(config.projectId)}`));
+  log(
+    chalk.blue(
+      `Label file: ${chalk.cyan.underline(toRelativePath(config.localFilePath))}`
+    )
+  );
+  log(chalk.blue(`Format:     ${chalk.bold(config.format)}`));
+  log(
+    chalk.blue(
+      `Keys:       ${chalk.bold(status.keys.local)} local, ${chalk.bold(status.keys.remote)} in the project`
+    )
+  );
+  log('');
+
+  const names = status.locales.map(
+    entry => `${getLocaleName(entry.locale)}${entry.isReference ? ' ★' : ''}`
+  );
+  const nameWidth = Math.max(...names.map(name => name.length));
+
+  for (const [index, entry] of status.locales.entries()) {
+    log(
+      `${names[index].padEnd(nameWidth)}  ${renderProgressBar(entry)}  ${`${entry.percentage.toFixed(1)}%`.padStart(6)}  ${chalk.gray(
+        `${entry.translated}/${entry.total} keys, ${entry.words} words, ${entry.characters} characters`
+      )}`
+    );
+    printKeys('local only', entry.localOnly);
+    printKeys('remote only', entry.remoteOnly);
+  }
+}
+
+function renderProgressBar(entry: LocaleStatus): string {
+  const filled = Math.round((entry.percentage / 100) * PROGRESS_BAR_WIDTH);
+  const color =
+    entry.percentage === 100
+      ? chalk.green
+      : entry.percentage >= 80
+        ? chalk.yellow
+        : chalk.red;
+
+  return (
+    color('█'.repeat(filled)) +
+    chalk.gray('░'.repeat(PROGRESS_BAR_WIDTH - filled))
+  );
+}
+
+function printKeys(label: string, keys: string[]) {
+  if (!keys.length) return;
+
+  const listed = keys.slice(0, LISTED_KEYS).join(', ');
+  const more =
+    keys.length > LISTED_KEYS ? ` and ${keys.length - LISTED_KEYS} more` : '';
+
+  log(chalk.gray(`  ${keys.length} ${label}: ${listed}${more}`));
+}
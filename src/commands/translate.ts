@@ -0,0 +1,34 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  parseLocaleOption,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { tryTranslateLabels } from '@/translate-labels';
+
+export const translateCommand: Command = {
+  usage: 'translate --missing [--locale <locale> ...] [--dry-run]',
+  description:
+    'Fill missing translations through the translation command of labeleer.json. Filled values are marked as needing review.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      missing: { type: 'boolean', default: false },
+      locale: { type: 'string', short: 'l', multiple: true, default: [] },
+      'dry-run': { type: 'boolean', default: false },
+    });
+
+    if (!values.missing) {
+      throw new CommandError(
+        'Expected --missing. Usage: translate --missing [--locale <locale>].'
+      );
+    }
+
+    const config = await resolveCommandConfig(values);
+
+    await tryTranslateLabels(config, {
+      locales: values.locale.map(parseLocaleOption),
+      dryRun: values['dry-run'],
+    });
+  },
+};
@@ -0,0 +1,101 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { getLocalLabelFiles, readLocalLabels } from '@/core/local-labels';
+import {
+  type PlaceholderIssue,
+  validatePlaceholders,
+} from '@/core/placeholder-validation';
+import { tryFetchLanguages } from '@/create-labels';
+import { printPlaceholderIssues } from '@/placeholder-report';
+import { parseReportFormat, renderJUnitReport, writeReport } from '@/reporting';
+import chalk from 'chalk';
+import type { LabelFile } from 'labeleer-cli';
+
+export const validateCommand: Command = {
+  usage: 'validate [--report text|json|junit] [--out <path>]',
+  description:
+    'Check that every translation uses the placeholders of its reference translation.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      report: { type: 'string', default: 'text' },
+      out: { type: 'string' },
+    });
+    const reportFormat = parseReportFormat(values.report);
+    const config = await resolveCommandConfig(values);
+    const files = unwrapOrFail(getLocalLabelFiles(config));
+    const locales = await tryFetchLanguages(config);
+    const reference = locales.find(entry => entry.isReference);
+
+    if (!reference) {
+      throw new CommandError('The project has no reference locale.');
+    }
+
+    const labelFile = unwrapOrFail(
+      await readLocalLabels(files, reference.locale)
+    );
+    const issues = validatePlaceholders(labelFile, reference.locale);
+    const violation = issues.length
+      ? `${issues.length} placeholder issue(s) found.`
+      : undefined;
+
+    if (reportFormat === 'text') {
+      printPlaceholderIssues(issues);
+      if (violation) throw new CommandError(violation);
+      return;
+    }
+
+    await writeReport(
+      reportFormat === 'json'
+        ? `${JSON.stringify({ referenceLocale: reference.locale, issues }, null, 2)}\n`
+        : renderJUnitReport(
+            'labeleer-validate',
+            toTestSuites(labelFile, issues)
+          ),
+      values.out
+    );
+
+    // Keep stdout parseable, the report may have been written to it.
+    if (violation) {
+      console.error(chalk.red(violation));
+      process.exitCode = 1;
+    }
+  },
+};
+
+/**
+ * Maps every key to a test case per locale, failing with all issues of that key.
+ */
+function toTestSuites(labelFile: LabelFile, issues: PlaceholderIssue[]) {
+  const locales = new Set(
+    Object.values(labelFile).flatMap(entry => [
+      ...Object.keys(entry.translations),
+      ...Object.values(entry.plurals ?? {}).flatMap(plural =>
+        Object.keys(plural ?? {})
+      ),
+    ])
+  );
+
+  return [...locales].sort().map(locale => ({
+    name: locale,
+    testCases: Object.keys(labelFile).map(key => {
+      const keyIssues = issues.filter(
+        issue =>
+          issue.locale === locale &&
+          (issue.key === key || issue.key.startsWith(`${key}[`))
+      );
+
+      return {
+        name: key,
+        className: `labeleer.${locale}`,
+        failure: keyIssues.length
+          ? keyIssues.map(issue => `${issue.key}: ${issue.message}`).join('; ')
+          : undefined,
+      };
+    }),
+  }));
+}
@@ -0,0 +1,14 @@
+import { CommandError } from '@/commands/command';
+import { watchCommand } from '@/commands/watch';
+import { describe, expect, it } from 'vitest';
+
+describe('watchCommand', () => {
+  it.each(['0', '0.5', '-1', 'soon'])(
+    'rejects an interval of %s',
+    async interval => {
+      await expect(
+        watchCommand.run(['--interval', interval])
+      ).rejects.toBeInstanceOf(CommandError);
+    }
+  );
+});
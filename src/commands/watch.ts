@@ -0,0 +1,32 @@
+import {
+  type Command,
+  CommandError,
+  parseCommandArguments,
+  parseNumberOption,
+} from '@/commands/command';
+import { resolveCommandConfig } from '@/commands/context';
+import { MIN_WATCH_INTERVAL, watchLabels } from '@/watch-labels';
+
+export const watchCommand: Command = {
+  usage: 'watch [--debounce <ms>] [--interval <seconds>]',
+  description:
+    'Publish local edits as they are saved and merge remote changes periodically.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {
+      debounce: { type: 'string', default: '500' },
+      interval: { type: 'string', default: '30' },
+    });
+    const debounce = parseNumberOption('--debounce', values.debounce);
+    const interval = parseNumberOption('--interval', values.interval);
+
+    if (interval * 1000 < MIN_WATCH_INTERVAL) {
+      throw new CommandError(
+        `Invalid value '${values.interval}' for --interval. Expected at least ${MIN_WATCH_INTERVAL / 1000} second(s).`
+      );
+    }
+
+    const config = await resolveCommandConfig(values);
+
+    await watchLabels(config, { debounce, interval: interval * 1000 });
+  },
+};
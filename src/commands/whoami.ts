@@ -0,0 +1,70 @@
+import {
+  type Command,
+  parseCommandArguments,
+  unwrapOrFail,
+} from '@/commands/command';
+import {
+  getCredentialStorePath,
+  listCredentialProfiles,
+  readCredentialProfile,
+} from '@/core/credential-store';
+import { tryFetchLanguages } from '@/create-labels';
+import { getDefaultProfile, resolveProjectConfig } from '@/project-settings';
+import { log } from '@/utils';
+import chalk from 'chalk';
+
+export const whoamiCommand: Command = {
+  usage: 'whoami [--profile <name>]',
+  description:
+    'Show which project and credentials are used, and verify that they are valid.',
+  async run(args) {
+    const { values } = parseCommandArguments(args, {});
+    const config = unwrapOrFail(
+      await resolveProjectConfig(
+        { projectId: values.project, accessToken: values.token },
+        { profile: values.profile, envFile: values['env-file'] }
+      )
+    );
+    const profile = values.profile ?? (await getDefaultProfile());
+    const storedConfig = await readCredentialProfile(profile);
+    const usesProfile =
+      storedConfig.success &&
+      storedConfig.value.accessToken === config.accessToken;
+
+    log(chalk.blue(`Project: ${chalk.bold(config.projectId)}`));
+    log(chalk.blue(`Token:   ${chalk.bold(maskToken(config.accessToken))}`));
+    log(
+      chalk.blue(
+        `Profile: ${usesProfile ? chalk.bold(profile) : chalk.gray('none, taken from the options or environment')}`
+      )
+    );
+
+    const locales = await tryFetchLanguages(config);
+
+    log(
+      chalk.green(
+        `The credentials are valid, the project has ${locales.length} locale(s).`
+      )
+    );
+
+    const profiles = await listCredentialProfiles();
+    if (profiles.length) {
+      log(
+        chalk.gray(
+          `Stored profiles: ${profiles.join(', ')} (${getCredentialStorePath()})`
+        )
+      );
+    }
+  },
+};
+
+/**
+ * Shows up to 4 characters at either end, but never more than a quarter of the token.
+ */
+function maskToken(token: string): string {
+  const visible = Math.min(4, Math.floor(token.length / 8));
+
+  return visible
+    ? `${token.slice(0, visible)}${'*'.repeat(token.length - 2 * visible)}${token.slice(-visible)}`
+    : '*'.repeat(token.length);
+}
@@ -0,0 +1,102 @@
+import {
+  type Command,
+  CommandError,
+  parseNumberOption,
+  unwrapOrFail,
+} from '@/commands/command';
+import {
+  filterWorkspacePackages,
+  findWorkspacePackages,
+} from '@/core/workspace';
+import { log } from '@/utils';
+import { printWorkspaceSummary, runInWorkspace } from '@/workspace-runner';
+import chalk from 'chalk';
+
+const WORKSPACE_COMMANDS = ['pull', 'push', 'check'];
+const DEFAULT_CONCURRENCY = 4;
+
+interface WorkspaceArguments {
+  filters: string[];
+  concurrency: number;
+  /**
+   * The subcommand and its arguments, passed on to every package.
+   */
+  commandArgs: string[];
+}
+
+export const workspaceCommand: Command = {
+  usage: `workspace <${WORKSPACE_COMMANDS.join('|')}> [--filter <pattern>] [--concurrency <n>] [options]`,
+  description:
+    'Run a command in every workspace package that has a labeleer.json, in parallel.',
+  async run(args) {
+    const { filters, concurrency, commandArgs } = splitWorkspaceArguments(args);
+    const [commandName] = commandArgs;
+
+    if (!WORKSPACE_COMMANDS.includes(commandName)) {
+      throw new CommandError(
+        `Expected one of ${WORKSPACE_COMMANDS.join(', ')} to run in the workspace.`
+      );
+    }
+
+    const packages = filterWorkspacePackages(
+      unwrapOrFail(await findWorkspacePackages()),
+      filters
+    );
+
+    if (!packages.length) {
+      throw new CommandError(
+        `No workspace package matches ${filters.map(filter => `'${filter}'`).join(', ')}.`
+      );
+    }
+
+    log(
+      chalk.blue(
+        `Running ${chalk.bold(commandName)} in ${packages
+          .map(workspacePackage => chalk.cyan(workspacePackage.name))
+          .join(', ')}`
+      )
+    );
+
+    const results = await runInWorkspace(packages, commandArgs, concurrency);
+    printWorkspaceSummary(results);
+
+    const failures = results.filter(result => result.exitCode !== 0);
+    if (failures.length) {
+      throw new CommandError(
+        `${commandName} failed in ${failures.length} of ${results.length} package(s).`
+      );
+    }
+  },
+};
+
+/**
+ * Separates the options of the workspace command from the subcommand and its
+ * arguments, as the latter are validated by the subcommand in every package.
+ */
+function splitWorkspaceArguments(args: string[]): WorkspaceArguments {
+  const filters: string[] = [];
+  let concurrency = DEFAULT_CONCURRENCY;
+  const commandArgs: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const [name, inlineValue] = args[index].split(/=(.*)/s);
+
+    if (name !== '--filter' && name !== '--concurrency') {
+      commandArgs.push(args[index]);
+      continue;
+    }
+
+    const value = inlineValue ?? args[++index];
+    if (value === undefined) {
+      throw new CommandError(`Option '${name} <value>' argument missing`);
+    }
+
+    if (name === '--filter') {
+      filters.push(value);
+    } else {
+      concurrency = Math.max(1, Math.floor(parseNumberOption(name, value)));
+    }
+  }
+
+  return { filters, concurrency, commandArgs };
+}
@@ -0,0 +1,75 @@
+import {
+  getCredentialStorePath,
+  listCredentialProfiles,
+  readCredentialProfile,
+  removeCredentialProfile,
+  writeCredentialProfile,
+} from '@/core/credential-store';
+import { mkdir, mkdtemp, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'labeleer-'));
+  vi.stubEnv('XDG_CONFIG_HOME', directory);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('credential store', () => {
+  it('stores, lists and removes profiles', async () => {
+    const credentials = { projectId: 'project', accessToken: 'token' };
+
+    expect(await writeCredentialProfile('work', credentials)).toEqual({
+      success: true,
+      value: join(directory, 'labeleer', 'credentials.json'),
+    });
+    expect(await readCredentialProfile('work')).toEqual({
+      success: true,
+      value: credentials,
+    });
+    expect(await listCredentialProfiles()).toEqual(['work']);
+    expect(await removeCredentialProfile('work')).toEqual({
+      success: true,
+      value: true,
+    });
+    expect(await removeCredentialProfile('work')).toEqual({
+      success: true,
+      value: false,
+    });
+  });
+
+  it.runIf(process.platform !== 'win32')(
+    'keeps the file readable by the current user only',
+    async () => {
+      await writeCredentialProfile('default', {
+        projectId: 'project',
+        accessToken: 'token',
+      });
+
+      expect((await stat(getCredentialStorePath())).mode & 0o777).toBe(0o600);
+    }
+  );
+
+  it('points to the login command for unknown profiles', async () => {
+    expect(await readCredentialProfile('ci')).toEqual({
+      success: false,
+      error:
+        "No credentials stored for profile 'ci'. Run 'labeleer-cli login --profile ci' first.",
+    });
+  });
+
+  it('rejects a malformed store', async () => {
+    await mkdir(dirname(getCredentialStorePath()), { recursive: true });
+    await writeFile(getCredentialStorePath(), '{"profiles": []}', 'utf-8');
+
+    expect((await readCredentialProfile('default')).success).toBe(false);
+    expect(await listCredentialProfiles()).toEqual([]);
+  });
+});
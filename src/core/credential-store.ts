@@ -0,0 +1,130 @@
+import { Err, Ok, type Result } from '@/core/result';
+import { chmod, mkdir, readFile, writeFile } from 'fs/promises';
+import type { PartialConfig } from 'labeleer-cli';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { z } from 'zod';
+
+export const DEFAULT_PROFILE = 'default';
+
+const CredentialStoreDecoder = z.object({
+  profiles: z.record(
+    z.string(),
+    z.object({
+      projectId: z.string(),
+      accessToken: z.string(),
+    })
+  ),
+});
+
+type CredentialStore = z.infer<typeof CredentialStoreDecoder>;
+
+/**
+ * The credentials are stored per user, outside of any repository,
+ * e.g. `~/.config/labeleer/credentials.json`.
+ */
+export function getCredentialStorePath(): string {
+  const configDirectory =
+    process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+
+  return join(configDirectory, 'labeleer', 'credentials.json');
+}
+
+export async function readCredentialProfile(
+  profile: string
+): Promise<Result<PartialConfig>> {
+  const store = await readCredentialStore();
+
+  if (!store.success) return store;
+
+  const credentials = store.value.profiles[profile];
+
+  if (!credentials) {
+    return Err(
+      `No credentials stored for profile '${profile}'. Run 'labeleer-cli login --profile ${profile}' first.`
+    );
+  }
+
+  return Ok(credentials);
+}
+
+export async function listCredentialProfiles(): Promise<string[]> {
+  const store = await readCredentialStore();
+
+  return store.success ? Object.keys(store.value.profiles) : [];
+}
+
+/**
+ * Stores the credentials under the given profile, replacing existing ones.
+ * The file is only readable by the current user.
+ */
+export async function writeCredentialProfile(
+  profile: string,
+  config: PartialConfig
+): Promise<Result<string>> {
+  const store = await readCredentialStore();
+
+  if (!store.success) return store;
+
+  store.value.profiles[profile] = {
+    projectId: config.projectId,
+    accessToken: config.accessToken,
+  };
+  await writeCredentialStore(store.value);
+
+  return Ok(getCredentialStorePath());
+}
+
+/**
+ * @returns Whether credentials were stored for the profile.
+ */
+export async function removeCredentialProfile(
+  profile: string
+): Promise<Result<boolean>> {
+  const store = await readCredentialStore();
+
+  if (!store.success) return store;
+  if (!store.value.profiles[profile]) return Ok(false);
+
+  delete store.value.profiles[profile];
+  await writeCredentialStore(store.value);
+
+  return Ok(true);
+}
+
+/**
+ * Reads the credential store, or an empty one if it does not exist yet.
+ */
+async function readCredentialStore(): Promise<Result<CredentialStore>> {
+  let content: string;
+
+  try {
+    content = await readFile(getCredentialStorePath(), 'utf-8');
+  } catch {
+    return Ok({ profiles: {} });
+  }
+
+  try {
+    const store = CredentialStoreDecoder.safeParse(JSON.parse(content));
+
+    if (store.success) return Ok(store.data);
+  } catch {
+    // Reported below, like any other malformed store.
+  }
+
+  return Err(
+    `The credential store at ${getCredentialStorePath()} is malformed. Remove it and log in again.`
+  );
+}
+
+async function writeCredentialStore(store: CredentialStore): Promise<void> {
+  const path = getCredentialStorePath();
+
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, `${JSON.stringify(store, null, 2)}\n`, {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+  // The mode only applies to new files, so existing ones are restricted explicitly.
+  await chmod(path, 0o600);
+}
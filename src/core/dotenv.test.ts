@@ -0,0 +1,99 @@
+import { findEnvFiles, parseDotenv } from '@/core/dotenv';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+describe('parseDotenv', () => {
+  it('parses unquoted values, comments and export prefixes', () => {
+    const content = [
+      '# Labeleer',
+      '',
+      'export LABELEER_PROJECT_ID=project # the project',
+      '  LABELEER_ACCESS_TOKEN = token  ',
+      'INVALID LINE',
+      'EMPTY=',
+    ].join('\r\n');
+
+    expect(parseDotenv(content)).toEqual({
+      LABELEER_PROJECT_ID: 'project',
+      LABELEER_ACCESS_TOKEN: 'token',
+      EMPTY: '',
+    });
+  });
+
+  it('ends unquoted values at the first #, as dotenv does', () => {
+    const content = [
+      'UNQUOTED=abc#def',
+      'COMMENT=#abc',
+      "SINGLE_QUOTED='abc#def'",
+      'DOUBLE_QUOTED="abc#def" # comment',
+    ].join('\n');
+
+    expect(parseDotenv(content)).toEqual({
+      UNQUOTED: 'abc',
+      COMMENT: '',
+      SINGLE_QUOTED: 'abc#def',
+      DOUBLE_QUOTED: 'abc#def',
+    });
+  });
+
+  it('expands escapes in double-quoted values only', () => {
+    const content = [
+      'DOUBLE="line\\nbreak \\"quoted\\" # kept"',
+      "SINGLE='line\\nbreak'",
+      'BACKTICK=`it\'s "raw"`',
+    ].join('\n');
+
+    expect(parseDotenv(content)).toEqual({
+      DOUBLE: 'line\nbreak "quoted" # kept',
+      SINGLE: 'line\\nbreak',
+      BACKTICK: 'it\'s "raw"',
+    });
+  });
+
+  it('reads quoted values across lines', () => {
+    expect(parseDotenv('KEY="first\nsecond"\nNEXT=value')).toEqual({
+      KEY: 'first\nsecond',
+      NEXT: 'value',
+    });
+  });
+
+  it('takes unterminated quotes literally', () => {
+    expect(parseDotenv('KEY="value\nNEXT=value')).toEqual({
+      KEY: '"value',
+      NEXT: 'value',
+    });
+  });
+
+  it('lets later definitions win', () => {
+    expect(parseDotenv('KEY=first\nKEY=second')).toEqual({ KEY: 'second' });
+  });
+});
+
+describe('findEnvFiles', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'labeleer-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('orders the files of the repository by precedence', async () => {
+    const packageDirectory = join(directory, 'packages', 'app');
+    await mkdir(join(directory, '.git'));
+    await mkdir(packageDirectory, { recursive: true });
+    await writeFile(join(directory, '.env'), '');
+    await writeFile(join(packageDirectory, '.env'), '');
+    await writeFile(join(packageDirectory, '.env.local'), '');
+
+    expect(await findEnvFiles(packageDirectory)).toEqual([
+      join(packageDirectory, '.env.local'),
+      join(packageDirectory, '.env'),
+      join(directory, '.env'),
+    ]);
+  });
+});
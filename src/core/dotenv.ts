@@ -0,0 +1,148 @@
+import { readFile, stat } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+
+/**
+ * The `.env` files of a directory, from highest to lowest precedence.
+ */
+const ENV_FILE_NAMES = ['.env.local', '.env'];
+
+export interface EnvFile {
+  path: string;
+  variables: Record<string, string>;
+}
+
+const keyExpression = /^(?:export\s+)?([A-Za-z_][\w.-]*)\s*=\s*/;
+
+/**
+ * Parses the content of a `.env` file, following the behaviour of `dotenv`:
+ * - `export` prefixes, blank lines and `#` comments are ignored, as are CR line endings;
+ * - unquoted values are trimmed and end at the first `#`, also without whitespace before it,
+ *   so values that contain a `#` have to be quoted;
+ * - single-quoted values are taken literally, double-quoted values expand `\n`, `\r`, `\t`,
+ *   `\"` and `\\`, and quoted values can span multiple lines;
+ * - later definitions of the same key win.
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const text = content.replace(/\r\n?/g, '\n');
+  let position = 0;
+
+  while (position < text.length) {
+    const lineEnd = indexOrEnd(text, '\n', position);
+    const line = text.slice(position, lineEnd);
+    const keyMatch = line.trimStart().match(keyExpression);
+
+    if (!keyMatch) {
+      position = lineEnd + 1;
+      continue;
+    }
+
+    const valueStart =
+      position + (line.length - line.trimStart().length) + keyMatch[0].length;
+    const quote = text[valueStart];
+
+    if (quote === '"' || quote === "'" || quote === '`') {
+      const closingQuote = findClosingQuote(text, valueStart, quote);
+
+      if (closingQuote !== -1) {
+        const value = text.slice(valueStart + 1, closingQuote);
+        variables[keyMatch[1]] = quote === '"' ? unescape(value) : value;
+        position = indexOrEnd(text, '\n', closingQuote) + 1;
+        continue;
+      }
+    }
+
+    const value = text.slice(valueStart, lineEnd);
+    variables[keyMatch[1]] = value.replace(/#.*$/, '').trim();
+    position = lineEnd + 1;
+  }
+
+  return variables;
+}
+
+/**
+ * Finds the `.env` and `.env.local` files from the given directory up to the root
+ * of the repository, i.e. the first directory that contains `.git`.
+ * Outside of a repository, only the given directory is searched.
+ *
+ * @returns The paths ordered by precedence: files closer to the directory win,
+ * and `.env.local` wins over `.env` in the same directory.
+ */
+export async function findEnvFiles(
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const directories = [resolve(cwd)];
+  let directory = directories[0];
+
+  while (!(await exists(join(directory, '.git')))) {
+    const parent = dirname(directory);
+
+    if (parent === directory) {
+      // Not inside a repository, so parent directories are not ours to read.
+      directories.splice(1);
+      break;
+    }
+    directory = parent;
+    directories.push(directory);
+  }
+
+  const paths: string[] = [];
+  for (const directory of directories) {
+    for (const fileName of ENV_FILE_NAMES) {
+      const path = join(directory, fileName);
+
+      if (await exists(path)) paths.push(path);
+    }
+  }
+
+  return paths;
+}
+
+export async function readEnvFile(path: string): Promise<EnvFile> {
+  return {
+    path,
+    variables: parseDotenv(await readFile(path, 'utf-8')),
+  };
+}
+
+function findClosingQuote(text: string, start: number, quote: string) {
+  for (let index = start + 1; index < text.length; index++) {
+    if (text[index] === '\\' && quote === '"') {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+function unescape(value: string): string {
+  return value.replace(/\\([nrt"\\])/g, (_, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      default:
+        return char;
+    }
+  });
+}
+
+function indexOrEnd(text: string, search: string, position: number): number {
+  const index = text.indexOf(search, position);
+
+  return index === -1 ? text.length : index;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
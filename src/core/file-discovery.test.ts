@@ -0,0 +1,99 @@
+import { findLabelFiles } from '@/core/file-discovery';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'labeleer-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+async function addFiles(...paths: string[]) {
+  for (const path of paths) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), '');
+  }
+}
+
+async function writeDiscovery(discovery: object) {
+  await writeFile(join(root, 'labeleer.json'), JSON.stringify({ discovery }));
+}
+
+describe('findLabelFiles', () => {
+  it('finds the label files by their default names, skipping tooling directories', async () => {
+    await addFiles(
+      'src/labels.json',
+      'config/strings.yml',
+      'src/messages.json',
+      'node_modules/pkg/labels.json',
+      'dist/labels.json'
+    );
+
+    expect(await findLabelFiles(undefined, root)).toEqual([
+      join(root, 'config/strings.yml'),
+      join(root, 'src/labels.json'),
+    ]);
+    expect(await findLabelFiles([SupportedFormat.YAML], root)).toEqual([
+      join(root, 'config/strings.yml'),
+    ]);
+  });
+
+  it('skips the entries of the .gitignore and the excluded globs', async () => {
+    await addFiles(
+      'src/labels.json',
+      'generated/labels.json',
+      'fixtures/labels.json',
+      'vendor/app/labels.json'
+    );
+    await writeFile(
+      join(root, '.gitignore'),
+      '# build output\n/generated/\nvendor\n!vendor/app\n'
+    );
+    await writeDiscovery({ exclude: ['fixtures/**'] });
+
+    expect(await findLabelFiles(undefined, root)).toEqual([
+      join(root, 'src/labels.json'),
+    ]);
+  });
+
+  it('finds the configured file names and included globs', async () => {
+    await addFiles('src/labels.json', 'src/messages.json', 'i18n/app.yaml');
+
+    await writeDiscovery({ fileNames: ['messages'] });
+    expect(await findLabelFiles(undefined, root)).toEqual([
+      join(root, 'src/messages.json'),
+    ]);
+
+    await writeDiscovery({ include: ['i18n/*.yaml', 'src/*.json'] });
+    expect(await findLabelFiles([SupportedFormat.YAML], root)).toEqual([
+      join(root, 'i18n/app.yaml'),
+    ]);
+  });
+
+  it('only accepts locales as suffixes of the file names', async () => {
+    await addFiles(
+      'src/labels.ts',
+      'src/labels_de.ts',
+      'src/labels-pt_BR.ts',
+      'src/labels-utils.ts'
+    );
+
+    expect(
+      await findLabelFiles([SupportedFormat.TS], root, { localeSuffixes: true })
+    ).toEqual([
+      join(root, 'src/labels-pt_BR.ts'),
+      join(root, 'src/labels.ts'),
+      join(root, 'src/labels_de.ts'),
+    ]);
+    expect(await findLabelFiles([SupportedFormat.TS], root)).toEqual([
+      join(root, 'src/labels.ts'),
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { readDiscoverySetup } from '@/core/project-setup';
+import { getExtensionsGlobPattern, inferFileFormatFromFileName } from '@/files';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import { readFileSync } from 'fs';
+import { glob, type GlobOptionsWithFileTypesUnset } from 'glob';
+import { basename, join } from 'path';
+
+/**
+ * Dependency, build and tooling directories that never hold label files.
+ */
+const ignoredDirectories = [
+  'node_modules',
+  'dist',
+  'build',
+  'out',
+  'coverage',
+  '.tmp',
+  '.gradle',
+  'DerivedData',
+  'Pods',
+  'xcuserdata',
+  '.git',
+  '.idea',
+  'reports',
+  '__tests__',
+];
+const defaultLabelFileNames = ['labels', 'strings'];
+const localeSuffixPattern = /^[_.-][a-z]{2}(?:[_-][A-Z]{2})?$/;
+
+/**
+ * Glob patterns of the files that are never searched: the ignored directories
+ * including their contents, the `.gitignore` of the base path and the
+ * `discovery.exclude` globs of `labeleer.json`.
+ */
+export function getIgnorePatterns(basePath: string = process.cwd()): string[] {
+  return [
+    ...ignoredDirectories.map(directory => `**/${directory}/**`),
+    ...readGitignorePatterns(basePath),
+    ...(readDiscoverySetup(basePath).exclude ?? []),
+  ];
+}
+
+export function getGlobConfig(
+  basePath: string = process.cwd()
+): GlobOptionsWithFileTypesUnset {
+  return {
+    cwd: basePath,
+    nodir: true,
+    absolute: true,
+    ignore: getIgnorePatterns(basePath),
+  };
+}
+
+/**
+ * Finds the label files of the provided formats. These are the files matching the
+ * `discovery.include` globs of `labeleer.json`, or otherwise the files named after
+ * `discovery.fileNames`, `labels` and `strings` by default, anywhere in the base path.
+ * With `localeSuffixes`, the names may end in a locale, e.g. `labels_de.ts`.
+ */
+export async function findLabelFiles(
+  formats: SupportedFormat[] = Object.values(SupportedFormat),
+  basePath: string = process.cwd(),
+  { localeSuffixes = false }: { localeSuffixes?: boolean } = {}
+): Promise<string[]> {
+  const discovery = readDiscoverySetup(basePath);
+  const fileNames = discovery.fileNames ?? defaultLabelFileNames;
+  // Braces around a single alternative are not expanded by glob.
+  const fileNamesPattern =
+    fileNames.length === 1 ? fileNames[0] : `{${fileNames.join(',')}}`;
+  const suffixPattern = localeSuffixes ? '{,[_.-]*}' : '';
+  const patterns = discovery.include ?? [
+    `**/${fileNamesPattern}${suffixPattern}.${getExtensionsGlobPattern(formats)}`,
+  ];
+  const paths = await glob(patterns, getGlobConfig(basePath));
+
+  return paths
+    .filter(path => {
+      const format = inferFileFormatFromFileName(path);
+      return !!format && formats.includes(format);
+    })
+    .filter(
+      path =>
+        !!discovery.include || hasLabelFileName(path, fileNames, localeSuffixes)
+    )
+    .sort();
+}
+
+/**
+ * Whether the name of the file, without extension, is one of the label file names,
+ * optionally followed by a locale such as `_de` or `-pt_BR`. Rules out files that
+ * merely start with a label file name, e.g. `labels-utils.ts`.
+ */
+function hasLabelFileName(
+  path: string,
+  fileNames: string[],
+  localeSuffixes: boolean
+): boolean {
+  const stem = basename(path).replace(/\.[^.]+$/, '');
+
+  return fileNames.some(
+    name =>
+      stem === name ||
+      (localeSuffixes &&
+        stem.startsWith(name) &&
+        localeSuffixPattern.test(stem.slice(name.length)))
+  );
+}
+
+/**
+ * Converts the `.gitignore` of the base path into glob patterns. Negations are
+ * not supported by glob, and are skipped.
+ */
+function readGitignorePatterns(basePath: string): string[] {
+  let content: string;
+
+  try {
+    content = readFileSync(join(basePath, '.gitignore'), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  return content.split(/\r?\n/).flatMap(line => {
+    const entry = line.trim();
+
+    if (!entry || entry.startsWith('#') || entry.startsWith('!')) return [];
+
+    const path = entry.replace(/\/+$/, '');
+    // Entries with a slash other than a trailing one are relative to the .gitignore.
+    const pattern = path.includes('/') ? path.replace(/^\//, '') : `**/${path}`;
+
+    return [pattern, `${pattern}/**`];
+  });
+}
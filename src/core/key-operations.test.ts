@@ -0,0 +1,104 @@
+import {
+  applyKeyOperations,
+  describeKeyOperation,
+  getMoveOperations,
+} from '@/core/key-operations';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+const labelFile: LabelFile = {
+  'settings.title': { translations: { en_US: 'Settings' } },
+  'settings.save': { translations: { en_US: 'Save' } },
+  settings: { translations: { en_US: 'Settings' } },
+  'home.title': { translations: { en_US: 'Home', de_DE: 'Start' } },
+};
+
+describe('applyKeyOperations', () => {
+  it('renames keys in place', () => {
+    const result = applyKeyOperations(labelFile, [
+      { type: 'rename', key: 'settings.save', newKey: 'settings.store' },
+    ]);
+
+    expect(result.success && Object.keys(result.value)).toEqual([
+      'settings.title',
+      'settings.store',
+      'settings',
+      'home.title',
+    ]);
+  });
+
+  it('sets a single translation and deletes labels', () => {
+    const result = applyKeyOperations(labelFile, [
+      { type: 'set', key: 'home.title', locale: 'de_DE', value: 'Startseite' },
+      { type: 'delete', key: 'settings' },
+    ]);
+
+    expect(result.success && result.value['home.title']).toEqual({
+      translations: { en_US: 'Home', de_DE: 'Startseite' },
+    });
+    expect(result.success && 'settings' in result.value).toBe(false);
+  });
+
+  it('leaves the label file untouched', () => {
+    applyKeyOperations(labelFile, [{ type: 'delete', key: 'settings' }]);
+
+    expect(labelFile.settings).toBeDefined();
+  });
+
+  it('rejects unknown keys and renames onto existing ones', () => {
+    expect(
+      applyKeyOperations(labelFile, [{ type: 'delete', key: 'missing' }])
+    ).toEqual({ success: false, error: "The label 'missing' does not exist." });
+    expect(
+      applyKeyOperations(labelFile, [
+        { type: 'rename', key: 'settings', newKey: 'home.title' },
+      ])
+    ).toEqual({
+      success: false,
+      error:
+        "Unable to rename 'settings', the label 'home.title' already exists.",
+    });
+  });
+});
+
+describe('getMoveOperations', () => {
+  it('moves every key of the namespace, including the namespace key', () => {
+    expect(getMoveOperations(labelFile, 'settings', 'preferences')).toEqual({
+      success: true,
+      value: [
+        {
+          type: 'rename',
+          key: 'settings.title',
+          newKey: 'preferences.title',
+        },
+        { type: 'rename', key: 'settings.save', newKey: 'preferences.save' },
+        { type: 'rename', key: 'settings', newKey: 'preferences' },
+      ],
+    });
+  });
+
+  it('rejects empty namespaces and conflicting keys', () => {
+    expect(getMoveOperations(labelFile, 'profile', 'account').success).toBe(
+      false
+    );
+    expect(
+      getMoveOperations(labelFile, 'settings.title', 'home.title')
+    ).toEqual({
+      success: false,
+      error:
+        "Unable to move 'settings.title', the label 'home.title' already exists.",
+    });
+  });
+});
+
+describe('describeKeyOperation', () => {
+  it('describes every operation', () => {
+    expect(
+      [
+        { type: 'rename', key: 'a', newKey: 'b' } as const,
+        { type: 'delete', key: 'a' } as const,
+        { type: 'set', key: 'a', locale: 'de_DE', value: 'Wert' } as const,
+      ].map(describeKeyOperation)
+    ).toEqual(['rename a → b', 'delete a', 'set a (de_DE) to "Wert"']);
+  });
+});
@@ -0,0 +1,102 @@
+import { Err, Ok, type Result } from '@/core/result';
+import type { LabelFile } from 'labeleer-cli';
+
+export type KeyOperation =
+  | { type: 'rename'; key: string; newKey: string }
+  | { type: 'delete'; key: string }
+  | { type: 'set'; key: string; locale: string; value: string };
+
+/**
+ * Applies the operations to a copy of the label file, in order.
+ * Renamed keys keep their position, so the label files do not get reordered.
+ * Fails when an operation refers to a key that does not exist,
+ * or when a key would be renamed onto an existing one.
+ */
+export function applyKeyOperations(
+  labelFile: LabelFile,
+  operations: KeyOperation[]
+): Result<LabelFile> {
+  let result: LabelFile = { ...labelFile };
+
+  for (const operation of operations) {
+    const entry = result[operation.key];
+
+    if (!entry) {
+      return Err(`The label '${operation.key}' does not exist.`);
+    }
+
+    switch (operation.type) {
+      case 'rename':
+        if (result[operation.newKey]) {
+          return Err(
+            `Unable to rename '${operation.key}', the label '${operation.newKey}' already exists.`
+          );
+        }
+        result = Object.fromEntries(
+          Object.entries(result).map(([key, value]) => [
+            key === operation.key ? operation.newKey : key,
+            value,
+          ])
+        );
+        break;
+      case 'delete':
+        delete result[operation.key];
+        break;
+      case 'set':
+        result[operation.key] = {
+          ...entry,
+          translations: {
+            ...entry.translations,
+            [operation.locale]: operation.value,
+          },
+        };
+        break;
+    }
+  }
+
+  return Ok(result);
+}
+
+/**
+ * Creates the renames that move every key in the `prefix` namespace to `newPrefix`,
+ * e.g. `settings.title` to `preferences.title` when moving `settings` to `preferences`.
+ * A key that equals the prefix is moved as well.
+ */
+export function getMoveOperations(
+  labelFile: LabelFile,
+  prefix: string,
+  newPrefix: string
+): Result<KeyOperation[]> {
+  const keys = Object.keys(labelFile).filter(
+    key => key === prefix || key.startsWith(`${prefix}.`)
+  );
+
+  if (!keys.length) {
+    return Err(`No labels found under '${prefix}'.`);
+  }
+
+  const operations: KeyOperation[] = [];
+  for (const key of keys) {
+    const newKey = newPrefix + key.slice(prefix.length);
+
+    if (labelFile[newKey]) {
+      return Err(
+        `Unable to move '${key}', the label '${newKey}' already exists.`
+      );
+    }
+    operations.push({ type: 'rename', key, newKey });
+  }
+
+  return Ok(operations);
+}
+
+export function describeKeyOperation(operation: KeyOperation): string {
+  switch (operation.type) {
+    case 'rename':
+      return `rename ${operation.key} → ${operation.newKey}`;
+    case 'delete':
+      return `delete ${operation.key}`;
+    case 'set':
+      return `set ${operation.key} (${operation.locale}) to ${JSON.stringify(operation.value)}`;
+  }
+}
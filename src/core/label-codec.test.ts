@@ -0,0 +1,112 @@
+import { mergeLabelFiles, parseLabelFile } from '@/core/label-codec';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import { describe, expect, it } from 'vitest';
+
+const options = { referenceLocale: 'en_US', targetLocale: 'de_DE' };
+
+describe('parseLabelFile', () => {
+  it('parses Apple .strings entries with comments, unquoted keys and several lines', async () => {
+    const content = [
+      '/* Settings */',
+      '"settings.title" = "Einstellungen"; // shown in the header',
+      'hello = "Hallo"; "bye" = "Tschüss";',
+      '"multi.line" = "Erste',
+      'Zweite";',
+      '"escaped" = "Sag \\"Hallo\\"";',
+    ].join('\n');
+
+    const result = await parseLabelFile(
+      content,
+      SupportedFormat.APPLE_STRINGS,
+      options
+    );
+
+    expect(result).toEqual({
+      success: true,
+      value: {
+        'settings.title': { translations: { de_DE: 'Einstellungen' } },
+        hello: { translations: { de_DE: 'Hallo' } },
+        bye: { translations: { de_DE: 'Tschüss' } },
+        'multi.line': { translations: { de_DE: 'Erste\\nZweite' } },
+        escaped: { translations: { de_DE: 'Sag \\"Hallo\\"' } },
+      },
+    });
+  });
+
+  it('reports the position of Apple .strings syntax errors', async () => {
+    const missingSemicolon = await parseLabelFile(
+      '"a.key" = "A";\n"b.key" = "B"\n"c.key" = "C";',
+      SupportedFormat.APPLE_STRINGS,
+      options
+    );
+    const unterminated = await parseLabelFile(
+      '"a.key" = "A;\n',
+      SupportedFormat.APPLE_STRINGS,
+      options
+    );
+
+    expect(missingSemicolon).toEqual({
+      success: false,
+      error: 'Expected ";" after the value (line 3, column 1)',
+    });
+    expect(unterminated).toEqual({
+      success: false,
+      error: 'Unterminated string (line 1, column 11)',
+    });
+  });
+
+  it('reports the position of JSON syntax errors', async () => {
+    const result = await parseLabelFile(
+      '{\n  "a.key": {\n    "translations": {,}\n  }\n}',
+      SupportedFormat.JSON,
+      options
+    );
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/line 3, column/);
+  });
+
+  it('keeps pseudo locales of JSON label files', async () => {
+    const result = await parseLabelFile(
+      JSON.stringify({
+        'a.key': { translations: { en_US: 'Key', en_XA: '[Ķéý]' } },
+      }),
+      SupportedFormat.JSON,
+      { referenceLocale: 'en_US' }
+    );
+
+    expect(result.success && result.value['a.key'].translations).toEqual({
+      en_US: 'Key',
+      en_XA: '[Ķéý]',
+    });
+  });
+
+  it('treats empty content as an empty label file', async () => {
+    expect(await parseLabelFile('  \n', SupportedFormat.YAML, options)).toEqual(
+      { success: true, value: {} }
+    );
+  });
+});
+
+describe('mergeLabelFiles', () => {
+  it('lets later files take precedence per locale', () => {
+    expect(
+      mergeLabelFiles(
+        { 'a.key': { translations: { en_US: 'A', de_DE: 'Alt' } } },
+        {
+          'a.key': {
+            translations: { de_DE: 'Neu' },
+            description: 'Shown on start',
+            plurals: { one: { de_DE: 'Eins' } },
+          },
+        }
+      )
+    ).toEqual({
+      'a.key': {
+        translations: { en_US: 'A', de_DE: 'Neu' },
+        description: 'Shown on start',
+        plurals: { one: { de_DE: 'Eins' } },
+      },
+    });
+  });
+});
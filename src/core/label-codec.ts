@@ -0,0 +1,537 @@
+import { isPseudoLocale } from '@/core/pseudo-localization';
+import { Err, Ok, type Result } from '@/core/result';
+import {
+  type Locale,
+  parseDataset,
+  serializeAndroidStrings,
+  serializeAppleStrings,
+  serializeJson,
+  serializePo,
+  serializeTs,
+  serializeXcstrings,
+  serializeXliff,
+  serializeYaml,
+  type SerializerFn,
+  SupportedFormat,
+  type TranslationDataset,
+} from '@labeleer/translation-dataset-transformers';
+import type { LabelEntry, LabelFile } from 'labeleer-cli';
+
+export interface LabelParsingOptions {
+  /**
+   * The reference locale of the project.
+   */
+  referenceLocale: string;
+  /**
+   * The locale of the file, for formats that hold a single locale per file,
+   * e.g. Apple Strings or Android Strings.
+   */
+  targetLocale?: string;
+}
+
+export interface LabelSerializationOptions {
+  /**
+   * The reference locale of the project.
+   */
+  referenceLocale: string;
+  /**
+   * All locales of the project.
+   */
+  locales: string[];
+  /**
+   * When provided, only this locale is serialized.
+   * Required for formats that hold a single locale per file.
+   */
+  targetLocale?: string;
+}
+
+interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Parses the content of a label file in any {@link SupportedFormat} into
+ * the canonical {@link LabelFile} shape.
+ * Parsing errors are reported with the line and column they occurred on,
+ * whenever the position can be determined.
+ */
+export async function parseLabelFile(
+  content: string,
+  format: SupportedFormat,
+  options: LabelParsingOptions
+): Promise<Result<LabelFile>> {
+  if (!content.trim()) return Ok({});
+
+  const syntaxError = findSyntaxError(content, format);
+  if (syntaxError) return Err(syntaxError);
+
+  const targetLocale = options.targetLocale ?? options.referenceLocale;
+  const prepared = prepareDatasetContent(content, format);
+  if (!prepared.success) return prepared;
+
+  const { datasetContent, separatedLabels } = prepared.value;
+
+  try {
+    const dataset = await parseDataset(datasetContent, format, {
+      // The Android Strings parser assigns the translations to the reference locale.
+      referenceLocale: (format === SupportedFormat.ANDROID_STRINGS
+        ? targetLocale
+        : options.referenceLocale) as Locale,
+      targetLocale: targetLocale as Locale,
+    });
+
+    return Ok(mergeLabelFiles(toLabelFile(dataset), separatedLabels));
+  } catch (error) {
+    return Err(describeParsingError(error, content));
+  }
+}
+
+/**
+ * Rewrites the content into a shape the transformers parse completely:
+ * pseudo locales are taken out of JSON, and Apple .strings entries are
+ * written one per line. What the transformers do not read, such as the
+ * comments of xcstrings, is separated to be merged back afterwards.
+ */
+function prepareDatasetContent(
+  content: string,
+  format: SupportedFormat
+): Result<{ datasetContent: string; separatedLabels: LabelFile }> {
+  switch (format) {
+    case SupportedFormat.JSON: {
+      const { datasetContent, pseudoLabels } =
+        separatePseudoTranslations(content);
+
+      return Ok({ datasetContent, separatedLabels: pseudoLabels });
+    }
+    case SupportedFormat.XCSTRINGS:
+      return Ok({
+        datasetContent: content,
+        separatedLabels: readXCStringsComments(content),
+      });
+    case SupportedFormat.APPLE_STRINGS: {
+      const entries = tokenizeAppleStrings(content);
+      if (!entries.success) return entries;
+
+      return Ok({
+        datasetContent: entries.value
+          .map(
+            ({ key, value }) =>
+              `"${key}" = "${value.replace(/\r?\n/g, '\\n')}";`
+          )
+          .join('\n'),
+        separatedLabels: {},
+      });
+    }
+    default:
+      return Ok({ datasetContent: content, separatedLabels: {} });
+  }
+}
+
+/**
+ * The comments of a string catalog are what descriptions are written as,
+ * but the transformers do not read them back.
+ */
+function readXCStringsComments(content: string): LabelFile {
+  const json: unknown = JSON.parse(content);
+  const strings = isRecord(json) && isRecord(json.strings) ? json.strings : {};
+
+  return Object.fromEntries(
+    Object.entries(strings).flatMap(([key, entry]) =>
+      isRecord(entry) && typeof entry.comment === 'string' && entry.comment
+        ? [[key, { translations: {}, description: entry.comment }]]
+        : []
+    )
+  );
+}
+
+/**
+ * The transformers only accept the locales they know. Translations of pseudo locales
+ * are taken out of JSON label files before parsing, to be merged back afterwards.
+ * The content is only rewritten when it holds pseudo locales, so parsing errors
+ * keep pointing at the original positions otherwise.
+ */
+function separatePseudoTranslations(content: string): {
+  datasetContent: string;
+  pseudoLabels: LabelFile;
+} {
+  const json: unknown = JSON.parse(content);
+  const pseudoLabels: LabelFile = {};
+  const takePseudoLocales = (entries: unknown) => {
+    if (!isRecord(entries)) return undefined;
+
+    const pseudoEntries = Object.fromEntries(
+      Object.entries(entries).filter(
+        (entry): entry is [string, string] =>
+          isPseudoLocale(entry[0]) && typeof entry[1] === 'string'
+      )
+    );
+    Object.keys(pseudoEntries).forEach(locale => delete entries[locale]);
+
+    return Object.keys(pseudoEntries).length ? pseudoEntries : undefined;
+  };
+
+  if (!isRecord(json)) return { datasetContent: content, pseudoLabels };
+
+  for (const [key, entry] of Object.entries(json)) {
+    if (!isRecord(entry)) continue;
+
+    const translations = takePseudoLocales(entry.translations);
+    const plurals = Object.entries(
+      isRecord(entry.plurals) ? entry.plurals : {}
+    ).flatMap(([quantity, plural]) => {
+      const pseudoPlural = takePseudoLocales(plural);
+      return pseudoPlural ? [[quantity, pseudoPlural] as const] : [];
+    });
+
+    if (translations || plurals.length) {
+      pseudoLabels[key] = {
+        translations: translations ?? {},
+        ...(plurals.length && { plurals: Object.fromEntries(plurals) }),
+      };
+    }
+  }
+
+  return Object.keys(pseudoLabels).length
+    ? { datasetContent: JSON.stringify(json), pseudoLabels }
+    : { datasetContent: content, pseudoLabels };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Serializes a {@link LabelFile} into the content of a single file
+ * in the provided {@link SupportedFormat}.
+ */
+export async function serializeLabelFile(
+  labelFile: LabelFile,
+  format: SupportedFormat,
+  options: LabelSerializationOptions
+): Promise<Result<string>> {
+  const { referenceLocale, targetLocale } = options;
+  const locales = targetLocale
+    ? getLocalesForTarget(format, referenceLocale, targetLocale)
+    : options.locales;
+
+  try {
+    const fragments = await serializerMap[format](labelFile, {
+      referenceLocale: referenceLocale as Locale,
+      locales: locales as Locale[],
+    });
+
+    if (fragments.length !== 1) {
+      return Err(
+        `The ${format} format holds a single locale per file. Configure a path per locale in labeleer.json.`
+      );
+    }
+
+    return Ok(fragments[0].data);
+  } catch (error) {
+    return Err(error instanceof Error ? error.message : String(error));
+  }
+}
+
+const serializerMap: Record<SupportedFormat, SerializerFn> = {
+  [SupportedFormat.JSON]: serializeJson,
+  [SupportedFormat.YAML]: serializeYaml,
+  [SupportedFormat.TS]: serializeTs,
+  [SupportedFormat.PO]: serializePo,
+  [SupportedFormat.ANDROID_STRINGS]: serializeAndroidStrings,
+  [SupportedFormat.APPLE_STRINGS]: serializeAppleStrings,
+  [SupportedFormat.XLIFF]: serializeXliff,
+  [SupportedFormat.XCSTRINGS]: serializeXcstrings,
+};
+
+/**
+ * Qt Linguist and XLIFF files store the source text next to the translation,
+ * so they need the reference locale alongside the target locale.
+ */
+function getLocalesForTarget(
+  format: SupportedFormat,
+  referenceLocale: string,
+  targetLocale: string
+): string[] {
+  switch (format) {
+    case SupportedFormat.TS:
+    case SupportedFormat.XLIFF:
+      return [...new Set([referenceLocale, targetLocale])];
+    default:
+      return [targetLocale];
+  }
+}
+
+/**
+ * Merges label files into a single one.
+ * Translations of later files take precedence over earlier ones.
+ */
+export function mergeLabelFiles(...labelFiles: LabelFile[]): LabelFile {
+  const merged: LabelFile = {};
+
+  for (const labelFile of labelFiles) {
+    for (const [key, entry] of Object.entries(labelFile)) {
+      const target = (merged[key] ??= { translations: {} });
+
+      Object.assign(target.translations, entry.translations);
+      target.description = entry.description ?? target.description;
+      target.tags = entry.tags ?? target.tags;
+
+      for (const [quantity, plural] of Object.entries(entry.plurals ?? {})) {
+        target.plurals ??= {};
+        target.plurals[quantity] = { ...target.plurals[quantity], ...plural };
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Normalizes a dataset produced by the transformers,
+ * making sure every entry has a `translations` record.
+ */
+export function toLabelFile(dataset: TranslationDataset): LabelFile {
+  return Object.fromEntries(
+    Object.entries(dataset).map(([key, entry]): [string, LabelEntry] => [
+      key,
+      { ...entry, translations: { ...entry.translations } },
+    ])
+  );
+}
+
+/**
+ * Checks the syntax of formats for which the transformers do not report
+ * where parsing failed.
+ */
+function findSyntaxError(
+  content: string,
+  format: SupportedFormat
+): string | undefined {
+  switch (format) {
+    case SupportedFormat.JSON:
+    case SupportedFormat.XCSTRINGS:
+      return findJsonSyntaxError(content);
+    default:
+      return undefined;
+  }
+}
+
+function findJsonSyntaxError(content: string): string | undefined {
+  try {
+    JSON.parse(content);
+    return undefined;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const offset = message.match(/at position (\d+)/)?.[1];
+    const position = offset
+      ? positionFromOffset(content, Number(offset))
+      : undefined;
+
+    return formatError(
+      `Invalid JSON: ${message.replace(/ in JSON at position.*$/, '')}`,
+      position
+    );
+  }
+}
+
+interface AppleStringsEntry {
+  /**
+   * The key and value as written between the quotes, escape sequences included.
+   */
+  key: string;
+  value: string;
+}
+
+/**
+ * Characters of keys and values that may be written without quotes.
+ */
+const unquotedAppleStringExpression = /[\w.$:/+-]+/y;
+
+/**
+ * Tokenizes the entries of an Apple .strings file. Entries may span several lines,
+ * share a line, be followed by comments and use unquoted keys, all of which the
+ * line-based parser of the transformers skips.
+ */
+function tokenizeAppleStrings(content: string): Result<AppleStringsEntry[]> {
+  const entries: AppleStringsEntry[] = [];
+  let offset = content.startsWith('\uFEFF') ? 1 : 0;
+
+  const fail = (message: string, at: number = offset) =>
+    Err(formatError(message, positionFromOffset(content, at)));
+  // Skips whitespace and comments, returns where an unterminated comment starts.
+  const skipTrivia = (): number | undefined => {
+    while (offset < content.length) {
+      if (/\s/.test(content[offset])) {
+        offset++;
+      } else if (content.startsWith('//', offset)) {
+        const end = content.indexOf('\n', offset);
+        offset = end === -1 ? content.length : end + 1;
+      } else if (content.startsWith('/*', offset)) {
+        const end = content.indexOf('*/', offset + 2);
+        if (end === -1) return offset;
+        offset = end + 2;
+      } else {
+        break;
+      }
+    }
+    return undefined;
+  };
+  const readString = (): string | undefined => {
+    if (content[offset] !== '"') {
+      unquotedAppleStringExpression.lastIndex = offset;
+      const match = unquotedAppleStringExpression.exec(content)?.[0];
+      offset += match?.length ?? 0;
+      return match;
+    }
+
+    for (let end = offset + 1; end < content.length; end++) {
+      if (content[end] === '\\') {
+        end++;
+      } else if (content[end] === '"') {
+        const value = content.slice(offset + 1, end);
+        offset = end + 1;
+        return value;
+      }
+    }
+    return undefined;
+  };
+  const readToken = (name: string): Result<string> => {
+    const comment = skipTrivia();
+    if (comment !== undefined) return fail('Unterminated comment', comment);
+
+    const start = offset;
+    const token = readString();
+    if (token !== undefined) return Ok(token);
+
+    return content[start] === '"'
+      ? fail('Unterminated string', start)
+      : fail(`Expected a ${name}`, start);
+  };
+  const expect = (char: string, after: string): Result<string> => {
+    const comment = skipTrivia();
+    if (comment !== undefined) return fail('Unterminated comment', comment);
+    if (content[offset] !== char) {
+      return fail(`Expected "${char}" after the ${after}`);
+    }
+
+    offset++;
+    return Ok(char);
+  };
+
+  while (skipTrivia() === undefined && offset < content.length) {
+    const key = readToken('key');
+    if (!key.success) return key;
+
+    const equals = expect('=', 'key');
+    if (!equals.success) return equals;
+
+    const value = readToken('value');
+    if (!value.success) return value;
+
+    const semicolon = expect(';', 'value');
+    if (!semicolon.success) return semicolon;
+
+    entries.push({ key: key.value, value: value.value });
+  }
+
+  const comment = skipTrivia();
+  if (comment !== undefined) return fail('Unterminated comment', comment);
+
+  return Ok(entries);
+}
+
+/**
+ * Builds a readable message from an error thrown by the transformers,
+ * looking through its causes for a position in the source.
+ */
+function describeParsingError(error: unknown, content: string): string {
+  const message = error instanceof Error ? error.message : String(error);
+  let cause: unknown = error;
+
+  while (cause instanceof Error) {
+    const issue = extractIssue(cause, content);
+    if (issue) {
+      return formatError(`${message} ${issue.message}`, issue.position);
+    }
+
+    const position = extractPosition(cause);
+    if (position) {
+      return formatError(message, position);
+    }
+    cause = cause.cause;
+  }
+
+  return message;
+}
+
+/**
+ * Extracts the position from errors that carry one,
+ * e.g. `YAMLParseError.linePos` or a "line X, column Y" message.
+ */
+function extractPosition(error: Error): SourcePosition | undefined {
+  const { linePos } = error as { linePos?: { line: number; col: number }[] };
+  if (linePos?.[0]) {
+    return { line: linePos[0].line, column: linePos[0].col };
+  }
+
+  const match = error.message.match(/line:?\s*(\d+).*?col(?:umn)?:?\s*(\d+)/i);
+  if (match) {
+    return { line: Number(match[1]), column: Number(match[2]) };
+  }
+
+  return undefined;
+}
+
+interface ValidationIssue {
+  message: string;
+  path: PropertyKey[];
+  issues?: ValidationIssue[];
+}
+
+/**
+ * Structural errors, e.g. a missing `translations` record, only carry the
+ * path of the offending key. The position of that key in the source is used instead.
+ */
+function extractIssue(
+  error: Error,
+  content: string
+): { message: string; position?: SourcePosition } | undefined {
+  const { issues } = error as { issues?: ValidationIssue[] };
+  const [issue] = issues ?? [];
+
+  if (!issue) return undefined;
+
+  const [key] = issue.path;
+  const detail = issue.issues?.[0]?.message ?? issue.message;
+
+  if (typeof key !== 'string') return { message: detail };
+
+  const match = new RegExp(
+    `(^|[\\s{,])["']?${escapeRegExp(key)}["']?\\s*:`,
+    'm'
+  ).exec(content);
+
+  return {
+    message: `${detail} at '${issue.path.map(String).join('.')}'`,
+    position: match
+      ? positionFromOffset(content, match.index + match[1].length)
+      : undefined,
+  };
+}
+
+function positionFromOffset(content: string, offset: number): SourcePosition {
+  const lines = content.slice(0, offset).split('\n');
+
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+function formatError(message: string, position?: SourcePosition): string {
+  if (!position) return message;
+
+  return `${message} (line ${position.line}, column ${position.column})`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,89 @@
+import { convertLabels } from '@/core/label-conversion';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+const json = JSON.stringify({
+  greeting: {
+    translations: { en_US: 'Hello', de_DE: 'Hallo', fr_FR: 'Bonjour' },
+    description: 'Shown on start',
+    tags: ['home'],
+  },
+});
+
+describe('convertLabels', () => {
+  it('writes a single locale and reports what is lost', async () => {
+    const result = await convertLabels(json, {
+      from: SupportedFormat.JSON,
+      to: SupportedFormat.APPLE_STRINGS,
+      referenceLocale: 'en_US',
+      targetLocale: 'de_DE',
+    });
+
+    expect(result.success && result.value.content).toContain(
+      '"greeting" = "Hallo";'
+    );
+    expect(result.success && result.value.locales).toEqual(['de_DE']);
+    expect(result.success && result.value.warnings).toEqual([
+      'Translations for en_US, fr_FR are not written, the apple_strings format holds a single locale.',
+      '1 description(s) are lost, apple_strings does not support them.',
+      'The tags of 1 label(s) are lost, apple_strings does not support them.',
+    ]);
+  });
+
+  it('asks for the locale when the output holds a single one', async () => {
+    const result = await convertLabels(json, {
+      from: SupportedFormat.JSON,
+      to: SupportedFormat.ANDROID_STRINGS,
+      referenceLocale: 'en_US',
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        'The android_strings format holds a single locale per file. Pass the locale to write with --locale (en_US, de_DE, fr_FR).',
+    });
+  });
+
+  it('reports comments of the input', async () => {
+    const result = await convertLabels(
+      '/* Start screen */\n"greeting" = "Hallo";\n',
+      {
+        from: SupportedFormat.APPLE_STRINGS,
+        to: SupportedFormat.JSON,
+        referenceLocale: 'en_US',
+        sourceLocale: 'de_DE',
+      }
+    );
+
+    expect(result.success && result.value.warnings).toEqual([
+      'Comments in the input are not carried over.',
+    ]);
+  });
+
+  it('carries xcstrings comments over as descriptions', async () => {
+    const xcstrings = await convertLabels(json, {
+      from: SupportedFormat.JSON,
+      to: SupportedFormat.XCSTRINGS,
+      referenceLocale: 'en_US',
+    });
+
+    expect(xcstrings.success && xcstrings.value.warnings).toEqual([
+      'The tags of 1 label(s) are lost, xcstrings does not support them.',
+    ]);
+
+    const result = await convertLabels(
+      xcstrings.success ? xcstrings.value.content : '',
+      {
+        from: SupportedFormat.XCSTRINGS,
+        to: SupportedFormat.JSON,
+        referenceLocale: 'en_US',
+      }
+    );
+
+    expect(result.success && result.value.warnings).toEqual([]);
+    expect(
+      result.success && (JSON.parse(result.value.content) as LabelFile)
+    ).toMatchObject({ greeting: { description: 'Shown on start' } });
+  });
+});
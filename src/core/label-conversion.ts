@@ -0,0 +1,247 @@
+import { parseLabelFile, serializeLabelFile } from '@/core/label-codec';
+import { Err, Ok, type Result } from '@/core/result';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import type { LabelFile } from 'labeleer-cli';
+
+interface FormatCapabilities {
+  descriptions: boolean;
+  tags: boolean;
+  plurals: boolean;
+  /**
+   * The locales a single file holds: one, a source and a target locale, or all of them.
+   */
+  locales: 'one' | 'pair' | 'all';
+}
+
+/**
+ * What the transformers write for every format. Anything else in the
+ * canonical {@link LabelFile} is lost when converting to the format.
+ */
+const formatCapabilities: Record<SupportedFormat, FormatCapabilities> = {
+  [SupportedFormat.JSON]: {
+    descriptions: true,
+    tags: true,
+    plurals: false,
+    locales: 'all',
+  },
+  [SupportedFormat.YAML]: {
+    descriptions: true,
+    tags: true,
+    plurals: false,
+    locales: 'all',
+  },
+  [SupportedFormat.TS]: {
+    descriptions: false,
+    tags: false,
+    plurals: false,
+    locales: 'pair',
+  },
+  [SupportedFormat.PO]: {
+    descriptions: true,
+    tags: false,
+    plurals: true,
+    locales: 'one',
+  },
+  [SupportedFormat.ANDROID_STRINGS]: {
+    descriptions: false,
+    tags: false,
+    plurals: true,
+    locales: 'one',
+  },
+  [SupportedFormat.APPLE_STRINGS]: {
+    descriptions: false,
+    tags: false,
+    plurals: false,
+    locales: 'one',
+  },
+  [SupportedFormat.XLIFF]: {
+    descriptions: false,
+    tags: false,
+    plurals: false,
+    locales: 'pair',
+  },
+  [SupportedFormat.XCSTRINGS]: {
+    descriptions: true,
+    tags: false,
+    plurals: false,
+    locales: 'all',
+  },
+};
+
+/**
+ * Comments are not part of the canonical model, so they never survive a conversion.
+ * The comments of xcstrings are read as descriptions instead.
+ */
+const commentExpressions: Partial<Record<SupportedFormat, RegExp>> = {
+  [SupportedFormat.YAML]: /^\s*#/m,
+  [SupportedFormat.TS]: /<!--|<(?:extra)?comment>/,
+  [SupportedFormat.PO]: /^#[\s.]/m,
+  [SupportedFormat.ANDROID_STRINGS]: /<!--/,
+  [SupportedFormat.APPLE_STRINGS]: /\/\*|^\s*\/\//m,
+  [SupportedFormat.XLIFF]: /<!--|<note/,
+};
+
+export interface ConversionOptions {
+  from: SupportedFormat;
+  to: SupportedFormat;
+  referenceLocale: string;
+  /**
+   * The locale of the input, for formats that hold a single locale per file.
+   */
+  sourceLocale?: string;
+  /**
+   * The locale to write, for formats that hold a single locale per file.
+   */
+  targetLocale?: string;
+}
+
+export interface ConversionResult {
+  content: string;
+  keys: number;
+  /**
+   * The locales that have been written.
+   */
+  locales: string[];
+  /**
+   * Describes everything of the input that is not part of the output.
+   */
+  warnings: string[];
+}
+
+/**
+ * Converts the content of a label file between formats,
+ * through the canonical {@link LabelFile} model.
+ */
+export async function convertLabels(
+  content: string,
+  options: ConversionOptions
+): Promise<Result<ConversionResult>> {
+  const labelFile = await parseLabelFile(content, options.from, {
+    referenceLocale: options.referenceLocale,
+    targetLocale: options.sourceLocale,
+  });
+
+  if (!labelFile.success) return labelFile;
+
+  const capabilities = formatCapabilities[options.to];
+  const locales = collectLocales(labelFile.value, options.referenceLocale);
+  const outputLocales = selectOutputLocales(locales, capabilities, options);
+
+  if (!outputLocales.success) return outputLocales;
+
+  const output = await serializeLabelFile(labelFile.value, options.to, {
+    referenceLocale: options.referenceLocale,
+    locales: outputLocales.value,
+    targetLocale:
+      capabilities.locales === 'all' ? undefined : outputLocales.value.at(-1),
+  });
+
+  if (!output.success) return output;
+
+  return Ok({
+    content: output.value,
+    keys: Object.keys(labelFile.value).length,
+    locales: outputLocales.value,
+    warnings: describeLosses(
+      content,
+      labelFile.value,
+      locales.filter(locale => !outputLocales.value.includes(locale)),
+      options
+    ),
+  });
+}
+
+/**
+ * The locales of the label file, with the reference locale first.
+ */
+function collectLocales(labelFile: LabelFile, referenceLocale: string) {
+  const locales = new Set<string>();
+
+  for (const entry of Object.values(labelFile)) {
+    Object.keys(entry.translations).forEach(locale => locales.add(locale));
+    Object.values(entry.plurals ?? {}).forEach(plural =>
+      Object.keys(plural ?? {}).forEach(locale => locales.add(locale))
+    );
+  }
+
+  return [...locales].sort((a, b) =>
+    a === referenceLocale ? -1 : b === referenceLocale ? 1 : a.localeCompare(b)
+  );
+}
+
+/**
+ * Formats that hold a single locale need to know which one to write. Without a target
+ * locale, the only locale of the input is used, or its only translated locale.
+ */
+function selectOutputLocales(
+  locales: string[],
+  capabilities: FormatCapabilities,
+  options: ConversionOptions
+): Result<string[]> {
+  if (capabilities.locales === 'all') return Ok(locales);
+
+  const translatedLocales = locales.filter(
+    locale => locale !== options.referenceLocale
+  );
+  const targetLocale =
+    options.targetLocale ??
+    (locales.length === 1 ? locales[0] : undefined) ??
+    (translatedLocales.length === 1 ? translatedLocales[0] : undefined);
+
+  if (!targetLocale) {
+    return Err(
+      `The ${options.to} format holds a single locale per file. Pass the locale to write with --locale (${locales.join(', ')}).`
+    );
+  }
+
+  return Ok(
+    capabilities.locales === 'pair'
+      ? [...new Set([options.referenceLocale, targetLocale])]
+      : [targetLocale]
+  );
+}
+
+function describeLosses(
+  content: string,
+  labelFile: LabelFile,
+  droppedLocales: string[],
+  options: ConversionOptions
+): string[] {
+  const capabilities = formatCapabilities[options.to];
+  const entries = Object.values(labelFile);
+  const count = (predicate: (entry: LabelFile[string]) => boolean) =>
+    entries.filter(predicate).length;
+  const warnings: string[] = [];
+
+  if (commentExpressions[options.from]?.test(content)) {
+    warnings.push('Comments in the input are not carried over.');
+  }
+  if (droppedLocales.length) {
+    warnings.push(
+      `Translations for ${droppedLocales.join(', ')} are not written, the ${options.to} format holds ${capabilities.locales === 'one' ? 'a single locale' : 'a source and a target locale'}.`
+    );
+  }
+
+  const descriptions = count(entry => !!entry.description);
+  if (descriptions && !capabilities.descriptions) {
+    warnings.push(
+      `${descriptions} description(s) are lost, ${options.to} does not support them.`
+    );
+  }
+
+  const tags = count(entry => !!entry.tags?.length);
+  if (tags && !capabilities.tags) {
+    warnings.push(
+      `The tags of ${tags} label(s) are lost, ${options.to} does not support them.`
+    );
+  }
+
+  const plurals = count(entry => !!Object.keys(entry.plurals ?? {}).length);
+  if (plurals && !capabilities.plurals) {
+    warnings.push(
+      `The plural forms of ${plurals} label(s) are lost, ${options.to} does not support them.`
+    );
+  }
+
+  return warnings;
+}
@@ -0,0 +1,93 @@
+import {
+  diffLabelFiles,
+  flattenTranslations,
+  unflattenTranslations,
+} from '@/core/label-diff';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+describe('diffLabelFiles', () => {
+  it('reports added, changed and removed translations per locale', () => {
+    const before: LabelFile = {
+      greeting: { translations: { en_US: 'Hello', de_DE: 'Hallo' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    };
+    const after: LabelFile = {
+      greeting: { translations: { en_US: 'Hi', de_DE: 'Hallo' } },
+      title: { translations: { de_DE: 'Titel' } },
+    };
+
+    expect(diffLabelFiles(before, after)).toEqual([
+      {
+        type: 'added',
+        locale: 'de_DE',
+        key: 'title',
+        before: undefined,
+        after: 'Titel',
+      },
+      {
+        type: 'removed',
+        locale: 'en_US',
+        key: 'farewell',
+        before: 'Bye',
+        after: undefined,
+      },
+      {
+        type: 'changed',
+        locale: 'en_US',
+        key: 'greeting',
+        before: 'Hello',
+        after: 'Hi',
+      },
+    ]);
+  });
+
+  it('treats empty translations as missing', () => {
+    expect(
+      diffLabelFiles(
+        { greeting: { translations: { en_US: '' } } },
+        { greeting: { translations: {} } }
+      )
+    ).toEqual([]);
+  });
+
+  it('suffixes plural forms with their quantity', () => {
+    const changes = diffLabelFiles(
+      { items: { translations: {}, plurals: { one: { en_US: '1 item' } } } },
+      { items: { translations: {}, plurals: { one: { en_US: 'One item' } } } }
+    );
+
+    expect(changes.map(change => change.key)).toEqual(['items[one]']);
+  });
+});
+
+describe('unflattenTranslations', () => {
+  it('restores translations, plurals and metadata', () => {
+    const labelFile: LabelFile = {
+      items: {
+        translations: { en_US: 'Items' },
+        plurals: { one: { en_US: '1 item' }, other: { en_US: '# items' } },
+        description: 'The item count',
+        tags: ['cart'],
+      },
+      greeting: { translations: { en_US: 'Hello' } },
+    };
+
+    expect(
+      unflattenTranslations(flattenTranslations(labelFile), labelFile)
+    ).toEqual(labelFile);
+  });
+
+  it('orders keys as they appear in the metadata sources', () => {
+    const translations = flattenTranslations({
+      b: { translations: { en_US: 'B' } },
+      a: { translations: { en_US: 'A' } },
+    });
+
+    expect(
+      Object.keys(
+        unflattenTranslations(translations, { a: { translations: {} } })
+      )
+    ).toEqual(['a', 'b']);
+  });
+});
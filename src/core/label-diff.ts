@@ -0,0 +1,151 @@
+import type { LabelFile } from 'labeleer-cli';
+
+export type LabelChangeType = 'added' | 'removed' | 'changed';
+
+export interface LabelChange {
+  type: LabelChangeType;
+  locale: string;
+  /**
+   * The label key. Plural forms are suffixed with their quantity, e.g. `items.count[one]`.
+   */
+  key: string;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * A flat view on the translations of a label file, keyed by locale and then by key.
+ */
+export type FlatTranslations = Map<string, Map<string, string>>;
+
+/**
+ * Computes the changes that turn the `before` label file into the `after` one,
+ * per locale and key. Empty translations are treated as missing.
+ */
+export function diffLabelFiles(
+  before: LabelFile,
+  after: LabelFile
+): LabelChange[] {
+  const beforeTranslations = flattenTranslations(before);
+  const afterTranslations = flattenTranslations(after);
+  const locales = new Set([
+    ...beforeTranslations.keys(),
+    ...afterTranslations.keys(),
+  ]);
+  const changes: LabelChange[] = [];
+
+  for (const locale of [...locales].sort()) {
+    const beforeEntries =
+      beforeTranslations.get(locale) ?? new Map<string, string>();
+    const afterEntries =
+      afterTranslations.get(locale) ?? new Map<string, string>();
+    const keys = new Set([...beforeEntries.keys(), ...afterEntries.keys()]);
+
+    for (const key of [...keys].sort()) {
+      const beforeValue = beforeEntries.get(key);
+      const afterValue = afterEntries.get(key);
+
+      if (beforeValue === afterValue) continue;
+
+      const type: LabelChangeType =
+        beforeValue === undefined
+          ? 'added'
+          : afterValue === undefined
+            ? 'removed'
+            : 'changed';
+
+      changes.push({
+        type,
+        locale,
+        key,
+        before: beforeValue,
+        after: afterValue,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Flattens the translations and plural forms of a label file per locale.
+ * Empty translations are omitted.
+ */
+export function flattenTranslations(labelFile: LabelFile): FlatTranslations {
+  const result: FlatTranslations = new Map();
+  const add = (locale: string, key: string, value: string | undefined) => {
+    if (!value) return;
+
+    let entries = result.get(locale);
+    if (!entries) {
+      entries = new Map();
+      result.set(locale, entries);
+    }
+    entries.set(key, value);
+  };
+
+  for (const [key, entry] of Object.entries(labelFile)) {
+    for (const [locale, value] of Object.entries(entry.translations)) {
+      add(locale, key, value);
+    }
+    for (const [quantity, plural] of Object.entries(entry.plurals ?? {})) {
+      for (const [locale, value] of Object.entries(plural ?? {})) {
+        add(locale, `${key}[${quantity}]`, value);
+      }
+    }
+  }
+
+  return result;
+}
+
+const pluralKeyExpression = /^(.*)\[(\w+)]$/;
+
+/**
+ * Reverses {@link flattenTranslations}. Descriptions and tags are taken from
+ * the provided metadata sources, the first source that has an entry for a key wins.
+ * Keys are ordered as they appear in the metadata sources.
+ */
+export function unflattenTranslations(
+  translations: FlatTranslations,
+  ...metadataSources: LabelFile[]
+): LabelFile {
+  const labelFile: LabelFile = {};
+  const getEntry = (key: string) => {
+    if (!labelFile[key]) {
+      const source = metadataSources.find(source => source[key])?.[key];
+      labelFile[key] = {
+        translations: {},
+        ...(source?.description ? { description: source.description } : {}),
+        ...(source?.tags ? { tags: source.tags } : {}),
+      };
+    }
+    return labelFile[key];
+  };
+
+  for (const [locale, entries] of translations) {
+    for (const [flatKey, value] of entries) {
+      const pluralMatch = flatKey.match(pluralKeyExpression);
+
+      if (!pluralMatch) {
+        getEntry(flatKey).translations[locale] = value;
+        continue;
+      }
+
+      const [, key, quantity] = pluralMatch;
+      const entry = getEntry(key);
+      entry.plurals ??= {};
+      entry.plurals[quantity] = { ...entry.plurals[quantity], [locale]: value };
+    }
+  }
+
+  const orderedKeys = new Set([
+    ...metadataSources.flatMap(source => Object.keys(source)),
+    ...Object.keys(labelFile),
+  ]);
+
+  return Object.fromEntries(
+    [...orderedKeys]
+      .filter(key => labelFile[key])
+      .map(key => [key, labelFile[key]])
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  listSnapshots,
+  readSnapshot,
+  recordSnapshot,
+} from '@/core/label-history';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import type { LabelFile } from 'labeleer-cli';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'labeleer-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(directory);
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  await rm(directory, { recursive: true, force: true });
+});
+
+const before: LabelFile = {
+  greeting: { translations: { en_US: 'Hello', de_DE: 'Hallo' } },
+};
+const after: LabelFile = {
+  greeting: { translations: { en_US: 'Hi' } },
+  title: { translations: { en_US: 'Title' } },
+};
+
+async function recordAt(time: string, command: string) {
+  vi.setSystemTime(new Date(time));
+  await recordSnapshot(command, before, after);
+}
+
+describe('label history', () => {
+  it('stores the labels before a change with a summary of it', async () => {
+    await recordAt('2024-01-31T15:45:02.123Z', 'pull');
+
+    expect(await listSnapshots()).toEqual([
+      {
+        id: '20240131-154502-123',
+        createdAt: '2024-01-31T15:45:02.123Z',
+        command: 'pull',
+        labels: 1,
+        changes: { added: 1, changed: 1, removed: 1 },
+      },
+    ]);
+    expect(await readSnapshot('20240131-154502-123')).toMatchObject({
+      success: true,
+      value: { labelFile: before },
+    });
+  });
+
+  it('skips commands that change nothing', async () => {
+    await recordSnapshot('pull', before, before);
+
+    expect(await listSnapshots()).toEqual([]);
+  });
+
+  it('keeps the most recent snapshots within the configured limit', async () => {
+    await writeFile(
+      join(directory, 'labeleer.json'),
+      JSON.stringify({
+        variant: 'json',
+        paths: [{ locale: '*', path: 'labels.json' }],
+        history: { limit: 2 },
+      })
+    );
+
+    await recordAt('2024-01-01T00:00:00.000Z', 'pull');
+    await recordAt('2024-01-02T00:00:00.000Z', 'set');
+    await recordAt('2024-01-03T00:00:00.000Z', 'translate');
+
+    expect((await listSnapshots()).map(summary => summary.command)).toEqual([
+      'translate',
+      'set',
+    ]);
+  });
+
+  it('rejects ids that are no snapshot', async () => {
+    expect(await readSnapshot('../labeleer')).toEqual({
+      success: false,
+      error: "Invalid snapshot id '../labeleer'.",
+    });
+    expect((await readSnapshot('20240131-154502-123')).success).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { diffLabelFiles } from '@/core/label-diff';
+import { getProjectSetup } from '@/core/project-setup';
+import { Err, Ok, type Result } from '@/core/result';
+import { getSnapshotDirectory } from '@/core/sync-snapshot';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import type { LabelFile } from 'labeleer-cli';
+import { join } from 'path';
+
+const HISTORY_DIRECTORY = 'history';
+const DEFAULT_HISTORY_LIMIT = 20;
+
+export interface HistorySummary {
+  id: string;
+  createdAt: string;
+  /**
+   * The command that was about to change the local labels, e.g. `pull`.
+   */
+  command: string;
+  labels: number;
+  /**
+   * Number of translations the command added, changed and removed.
+   */
+  changes: {
+    added: number;
+    changed: number;
+    removed: number;
+  };
+}
+
+/**
+ * The local labels as they were right before a command changed them.
+ */
+export interface HistorySnapshot extends HistorySummary {
+  labelFile: LabelFile;
+}
+
+export function getHistoryDirectory(): string {
+  return join(getSnapshotDirectory(), HISTORY_DIRECTORY);
+}
+
+/**
+ * Stores the local labels before they are overwritten, and removes the oldest
+ * snapshots beyond the `history.limit` of `labeleer.json`. Nothing is stored when
+ * the labels do not change, or when the limit is `0`.
+ */
+export async function recordSnapshot(
+  command: string,
+  before: LabelFile,
+  after: LabelFile
+): Promise<void> {
+  const limit = await getHistoryLimit();
+  const changes = diffLabelFiles(before, after);
+
+  if (!limit || !changes.length) return;
+
+  const createdAt = new Date();
+  const snapshot: HistorySnapshot = {
+    id: createSnapshotId(createdAt),
+    createdAt: createdAt.toISOString(),
+    command,
+    labels: Object.keys(before).length,
+    changes: {
+      added: changes.filter(change => change.type === 'added').length,
+      changed: changes.filter(change => change.type === 'changed').length,
+      removed: changes.filter(change => change.type === 'removed').length,
+    },
+    labelFile: before,
+  };
+
+  await mkdir(getHistoryDirectory(), { recursive: true });
+  await writeFile(
+    join(getHistoryDirectory(), `${snapshot.id}.json`),
+    JSON.stringify(snapshot, null, 2),
+    'utf-8'
+  );
+
+  const expired = (await getSnapshotIds()).slice(limit);
+  for (const id of expired) {
+    await rm(join(getHistoryDirectory(), `${id}.json`), { force: true });
+  }
+}
+
+/**
+ * Lists the stored snapshots, the most recent first.
+ */
+export async function listSnapshots(): Promise<HistorySummary[]> {
+  const summaries: HistorySummary[] = [];
+
+  for (const id of await getSnapshotIds()) {
+    const snapshot = await readSnapshot(id);
+
+    if (!snapshot.success) continue;
+
+    const { labelFile: _, ...summary } = snapshot.value;
+    summaries.push(summary);
+  }
+
+  return summaries;
+}
+
+export async function readSnapshot(
+  id: string
+): Promise<Result<HistorySnapshot>> {
+  if (!/^[\w-]+$/.test(id)) return Err(`Invalid snapshot id '${id}'.`);
+
+  try {
+    const content = await readFile(
+      join(getHistoryDirectory(), `${id}.json`),
+      'utf-8'
+    );
+    return Ok(JSON.parse(content) as HistorySnapshot);
+  } catch {
+    return Err(
+      `Snapshot '${id}' not found. Run history to list the snapshots.`
+    );
+  }
+}
+
+async function getHistoryLimit(): Promise<number> {
+  const setup = await getProjectSetup();
+
+  return (
+    (setup.success ? setup.value.history?.limit : undefined) ??
+    DEFAULT_HISTORY_LIMIT
+  );
+}
+
+/**
+ * The ids of the stored snapshots, the most recent first.
+ */
+async function getSnapshotIds(): Promise<string[]> {
+  const files = await readdir(getHistoryDirectory()).catch(() => []);
+
+  return files
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort()
+    .reverse();
+}
+
+/**
+ * Derives a sortable id from the time of the snapshot, e.g. `20240131-154502-123`.
+ */
+function createSnapshotId(date: Date): string {
+  const [day, time] = date.toISOString().replace('Z', '').split('T');
+
+  return `${day.replaceAll('-', '')}-${time.replaceAll(':', '').replace('.', '-')}`;
+}
@@ -0,0 +1,197 @@
+import {
+  type LayoutFile,
+  parseLayoutFile,
+  scaffoldLayoutFiles,
+  serializeLayoutFiles,
+} from '@/core/label-layout';
+import { toRelativePath } from '@/files';
+import type { LabelLayout } from 'labeleer-cli';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+
+const i18next: LabelLayout = {
+  pattern: 'locales/{locale}/{namespace}.json',
+  structure: 'nested',
+  separator: '.',
+  pluralSuffixes: true,
+};
+
+const commonGerman: LayoutFile = {
+  path: resolve('locales/de/common.json'),
+  locale: 'de_DE',
+  localeToken: 'de',
+  namespace: 'common',
+};
+
+describe('parseLayoutFile', () => {
+  it('prefixes nested keys with the namespace and reads plural suffixes', () => {
+    const content = JSON.stringify({
+      title: 'Titel',
+      cart: { item_one: '1 Artikel', item_other: '{{count}} Artikel' },
+    });
+
+    expect(parseLayoutFile(i18next, commonGerman, content)).toEqual({
+      success: true,
+      value: {
+        'common.title': { translations: { de_DE: 'Titel' } },
+        'common.cart.item': {
+          translations: { de_DE: '{{count}} Artikel' },
+          plurals: {
+            one: { de_DE: '1 Artikel' },
+            other: { de_DE: '{{count}} Artikel' },
+          },
+        },
+      },
+    });
+  });
+
+  it('reads the descriptions of extracted react-intl messages', () => {
+    const layout: LabelLayout = {
+      pattern: 'lang/{locale}.json',
+      structure: 'flat',
+      separator: '.',
+      pluralSuffixes: false,
+    };
+    const file = {
+      path: resolve('lang/de.json'),
+      locale: 'de_DE',
+      localeToken: 'de',
+    };
+    const content = JSON.stringify({
+      'home.title': { defaultMessage: 'Start', description: 'The heading' },
+    });
+
+    expect(parseLayoutFile(layout, file, content)).toEqual({
+      success: true,
+      value: {
+        'home.title': {
+          translations: { de_DE: 'Start' },
+          description: 'The heading',
+        },
+      },
+    });
+  });
+
+  it('rejects values that are no messages', () => {
+    expect(
+      parseLayoutFile(i18next, commonGerman, '{"title": ["Titel"]}')
+    ).toEqual({
+      success: false,
+      error: `Unable to parse ${toRelativePath(commonGerman.path)}: Expected 'title' to be a string, got an array.`,
+    });
+  });
+});
+
+describe('serializeLayoutFiles', () => {
+  it('writes a file per locale and namespace, following existing files', () => {
+    const result = serializeLayoutFiles(
+      i18next,
+      {
+        'common.title': { translations: { de_DE: 'Titel', fr_FR: 'Titre' } },
+        'common.cart.item': {
+          translations: {},
+          plurals: { one: { de_DE: '1 Artikel' } },
+        },
+      },
+      ['de_DE', 'fr_FR'],
+      [commonGerman]
+    );
+
+    expect(result).toEqual({
+      success: true,
+      value: [
+        {
+          ...commonGerman,
+          content: `${JSON.stringify({ title: 'Titel', cart: { item_one: '1 Artikel' } }, null, 2)}\n`,
+        },
+        {
+          path: resolve('locales/fr/common.json'),
+          locale: 'fr_FR',
+          localeToken: 'fr',
+          namespace: 'common',
+          content: `${JSON.stringify({ title: 'Titre' }, null, 2)}\n`,
+        },
+      ],
+    });
+  });
+
+  it('keeps the region of locales that share a language', () => {
+    const result = serializeLayoutFiles(
+      i18next,
+      {
+        'common.title': { translations: { pt_BR: 'Título', pt_PT: 'Título' } },
+      },
+      ['pt_BR', 'pt_PT'],
+      []
+    );
+
+    expect(result.success && result.value.map(file => file.path)).toEqual([
+      resolve('locales/pt-BR/common.json'),
+      resolve('locales/pt-PT/common.json'),
+    ]);
+  });
+
+  it('rejects keys without a namespace and conflicting nesting', () => {
+    expect(
+      serializeLayoutFiles(
+        i18next,
+        { title: { translations: { de_DE: 'Titel' } } },
+        ['de_DE'],
+        []
+      )
+    ).toEqual({
+      success: false,
+      error:
+        "The label 'title' has no namespace. Expected a key such as 'common.title'.",
+    });
+    expect(
+      serializeLayoutFiles(
+        i18next,
+        {
+          'common.cart': { translations: { de_DE: 'Warenkorb' } },
+          'common.cart.title': { translations: { de_DE: 'Titel' } },
+        },
+        ['de_DE'],
+        []
+      )
+    ).toEqual({
+      success: false,
+      error: "Unable to nest 'cart.title', the label 'cart' is in the way.",
+    });
+  });
+});
+
+describe('scaffoldLayoutFiles', () => {
+  it('creates an empty file for every namespace', () => {
+    const files = [
+      commonGerman,
+      {
+        ...commonGerman,
+        path: resolve('locales/de/home.json'),
+        namespace: 'home',
+      },
+    ];
+
+    const result = scaffoldLayoutFiles(
+      i18next,
+      'nl_NL',
+      ['de_DE', 'nl_NL'],
+      files
+    );
+
+    expect(result.success && result.value.map(file => file.path)).toEqual([
+      resolve('locales/nl/common.json'),
+      resolve('locales/nl/home.json'),
+    ]);
+    expect(result.success && result.value[0].content).toBe('{}\n');
+  });
+
+  it('rejects locales that already have files', () => {
+    expect(
+      scaffoldLayoutFiles(i18next, 'de_DE', ['de_DE'], [commonGerman])
+    ).toEqual({
+      success: false,
+      error: 'The label files of de_DE already exist.',
+    });
+  });
+});
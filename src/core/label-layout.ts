@@ -0,0 +1,451 @@
+import { getGlobConfig } from '@/core/file-discovery';
+import { LocaleDecoder } from '@/core/project-setup';
+import { isPseudoLocale } from '@/core/pseudo-localization';
+import { Err, Ok, type Result } from '@/core/result';
+import { toRelativePath } from '@/files';
+import {
+  type Locale,
+  toBCP47,
+  toISO639_1LanguageCode,
+} from '@labeleer/translation-dataset-transformers';
+import { glob } from 'glob';
+import type { LabelFile, LabelLayout, LocalizedEntries } from 'labeleer-cli';
+import { relative, resolve, sep } from 'path';
+
+/**
+ * The plural suffixes of i18next, e.g. `item_one` and `item_other`.
+ */
+const PLURAL_QUANTITIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * A label file of a layout, with the values its path holds for the placeholders.
+ */
+export interface LayoutFile {
+  path: string;
+  locale: string;
+  /**
+   * How the locale is written in the path, e.g. `de` or `de-DE` for `de_DE`.
+   */
+  localeToken: string;
+  namespace?: string;
+}
+
+export interface SerializedLayoutFile extends LayoutFile {
+  content: string;
+}
+
+type JsonObject = { [key: string]: unknown };
+
+/**
+ * Finds the existing label files of the layout, relative to the current working directory.
+ * Fails for files whose path does not hold a valid locale.
+ */
+export async function findLayoutFiles(
+  layout: LabelLayout
+): Promise<Result<LayoutFile[]>> {
+  const expression = getPatternExpression(layout.pattern);
+  const paths = await glob(
+    layout.pattern.replace(/\{(?:locale|namespace)\}/g, '*'),
+    getGlobConfig()
+  );
+  const files: LayoutFile[] = [];
+
+  for (const path of paths.sort()) {
+    const groups = relative(process.cwd(), path)
+      .split(sep)
+      .join('/')
+      .match(expression)?.groups;
+
+    if (!groups) continue;
+
+    const locale = LocaleDecoder.safeParse(groups.locale);
+
+    if (!locale.success || !locale.data) {
+      return Err(
+        `Unable to infer the locale of ${toRelativePath(path)} from '${groups.locale}'.`
+      );
+    }
+    files.push({
+      path,
+      locale: locale.data,
+      localeToken: groups.locale,
+      namespace: groups.namespace,
+    });
+  }
+
+  return Ok(files);
+}
+
+/**
+ * Parses a label file of the layout into the canonical {@link LabelFile}.
+ * Nested keys are joined with the separator and prefixed with the namespace,
+ * so `{"title": "..."}` in `common.json` becomes `common.title`.
+ */
+export function parseLayoutFile(
+  layout: LabelLayout,
+  file: LayoutFile,
+  content: string
+): Result<LabelFile> {
+  let json: unknown;
+
+  try {
+    json = content.trim() ? JSON.parse(content) : {};
+  } catch (error) {
+    return Err(
+      `Unable to parse ${toRelativePath(file.path)}: ${(error as Error).message}`
+    );
+  }
+
+  if (!isJsonObject(json)) {
+    return Err(`Expected ${toRelativePath(file.path)} to hold an object.`);
+  }
+
+  const messages = flattenMessages(layout, json);
+
+  if (!messages.success) {
+    return Err(
+      `Unable to parse ${toRelativePath(file.path)}: ${messages.error}`
+    );
+  }
+
+  const prefix = file.namespace ? file.namespace + layout.separator : '';
+  const labelFile: LabelFile = {};
+
+  for (const [messageKey, { text, description }] of messages.value) {
+    const plural = layout.pluralSuffixes
+      ? splitPluralSuffix(messageKey)
+      : undefined;
+    const key = prefix + (plural?.key ?? messageKey);
+    const entry = (labelFile[key] ??= { translations: {} });
+
+    if (description) entry.description = description;
+
+    if (plural) {
+      entry.plurals ??= {};
+      entry.plurals[plural.quantity] = {
+        ...entry.plurals[plural.quantity],
+        [file.locale]: text,
+      };
+      // The `other` form stands in for the label wherever plurals are not supported.
+      if (plural.quantity === 'other' || !entry.translations[file.locale]) {
+        entry.translations[file.locale] = text;
+      }
+    } else {
+      entry.translations[file.locale] = text;
+    }
+  }
+
+  return Ok(labelFile);
+}
+
+/**
+ * Serializes the labels into the files of the layout: one file per locale, and
+ * per namespace when the pattern has one. Existing files keep the way their locale
+ * is written; new files follow the existing ones, e.g. `fr` next to `de`.
+ * Files of a namespace without labels are emptied rather than removed.
+ */
+export function serializeLayoutFiles(
+  layout: LabelLayout,
+  labelFile: LabelFile,
+  locales: string[],
+  existingFiles: LayoutFile[]
+): Result<SerializedLayoutFile[]> {
+  const usesNamespaces = layout.pattern.includes('{namespace}');
+  const messagesPerFile = new Map<string, [string, string][]>();
+  const namespaces = new Set(
+    existingFiles.map(file => file.namespace).filter(namespace => !!namespace)
+  );
+
+  for (const [key, entry] of Object.entries(labelFile)) {
+    const split: { namespace?: string; key: string } | undefined =
+      usesNamespaces ? splitNamespace(key, layout) : { key };
+
+    if (!split) {
+      return Err(
+        `The label '${key}' has no namespace. Expected a key such as 'common${layout.separator}${key}'.`
+      );
+    }
+    if (split.namespace) namespaces.add(split.namespace);
+
+    for (const locale of locales) {
+      const fileKey = `${locale}\0${split.namespace ?? ''}`;
+      const messages = messagesPerFile.get(fileKey) ?? [];
+
+      messages.push(...getLocaleMessages(layout, split.key, entry, locale));
+      messagesPerFile.set(fileKey, messages);
+    }
+  }
+
+  const files: SerializedLayoutFile[] = [];
+
+  for (const locale of locales) {
+    const localeToken = getLocaleToken(locale, locales, existingFiles);
+
+    for (const namespace of usesNamespaces ? namespaces : [undefined]) {
+      const messages =
+        messagesPerFile.get(`${locale}\0${namespace ?? ''}`) ?? [];
+      const json = unflattenMessages(layout, messages);
+
+      if (!json.success) return json;
+
+      const existingFile = existingFiles.find(
+        file => file.locale === locale && file.namespace === namespace
+      );
+
+      // Namespaces that only exist for other locales are not created empty.
+      if (!messages.length && !existingFile) continue;
+
+      files.push({
+        path:
+          existingFile?.path ??
+          getLayoutFilePath(layout, localeToken, namespace),
+        locale,
+        localeToken: existingFile?.localeToken ?? localeToken,
+        namespace,
+        content: `${JSON.stringify(json.value, null, 2)}\n`,
+      });
+    }
+  }
+
+  return Ok(files);
+}
+
+/**
+ * Creates the empty label files of a new locale, one for every namespace
+ * the other locales have.
+ */
+export function scaffoldLayoutFiles(
+  layout: LabelLayout,
+  locale: string,
+  locales: string[],
+  existingFiles: LayoutFile[]
+): Result<SerializedLayoutFile[]> {
+  if (existingFiles.some(file => file.locale === locale)) {
+    return Err(`The label files of ${locale} already exist.`);
+  }
+
+  const localeToken = getLocaleToken(locale, locales, existingFiles);
+  const namespaces = layout.pattern.includes('{namespace}')
+    ? [...new Set(existingFiles.map(file => file.namespace))]
+    : [undefined];
+
+  if (!namespaces.length) {
+    return Err('There are no namespaces to create label files for yet.');
+  }
+
+  return Ok(
+    namespaces.map(namespace => ({
+      path: getLayoutFilePath(layout, localeToken, namespace),
+      locale,
+      localeToken,
+      namespace,
+      content: '{}\n',
+    }))
+  );
+}
+
+/**
+ * The static part of the pattern, e.g. `locales` for `locales/{locale}/{namespace}.json`.
+ */
+export function getLayoutBaseDirectory(layout: LabelLayout): string {
+  const segments = layout.pattern.split('/');
+  const dynamicIndex = segments.findIndex(segment => segment.includes('{'));
+
+  return resolve(segments.slice(0, dynamicIndex).join('/') || '.');
+}
+
+function getLayoutFilePath(
+  layout: LabelLayout,
+  localeToken: string,
+  namespace: string | undefined
+): string {
+  return resolve(
+    layout.pattern
+      .replace('{locale}', localeToken)
+      .replace('{namespace}', namespace ?? '')
+  );
+}
+
+function getPatternExpression(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/^\.\//, '')
+    .replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+
+  return new RegExp(
+    `^${escaped
+      .replace('{locale}', '(?<locale>[^/]+)')
+      .replace('{namespace}', '(?<namespace>[^/]+)')}$`
+  );
+}
+
+function flattenMessages(
+  layout: LabelLayout,
+  json: JsonObject,
+  prefix = ''
+): Result<[string, { text: string; description?: string }][]> {
+  const messages: [string, { text: string; description?: string }][] = [];
+
+  for (const [name, value] of Object.entries(json)) {
+    const key = prefix + name;
+
+    if (typeof value === 'string') {
+      messages.push([key, { text: value }]);
+    } else if (
+      layout.structure === 'flat' &&
+      isJsonObject(value) &&
+      typeof value.defaultMessage === 'string'
+    ) {
+      // Messages extracted by react-intl carry their description.
+      messages.push([
+        key,
+        {
+          text: value.defaultMessage,
+          description:
+            typeof value.description === 'string'
+              ? value.description
+              : undefined,
+        },
+      ]);
+    } else if (layout.structure === 'nested' && isJsonObject(value)) {
+      const nested = flattenMessages(layout, value, key + layout.separator);
+
+      if (!nested.success) return nested;
+      messages.push(...nested.value);
+    } else {
+      return Err(`Expected '${key}' to be a string, got ${describe(value)}.`);
+    }
+  }
+
+  return Ok(messages);
+}
+
+function unflattenMessages(
+  layout: LabelLayout,
+  messages: [string, string][]
+): Result<JsonObject> {
+  const json: JsonObject = {};
+
+  if (layout.structure === 'flat') {
+    return Ok(Object.fromEntries(messages));
+  }
+
+  for (const [key, text] of messages) {
+    const path = key.split(layout.separator);
+    let target = json;
+
+    for (const [index, segment] of path.slice(0, -1).entries()) {
+      const value = (target[segment] ??= {});
+
+      if (!isJsonObject(value)) {
+        return Err(
+          `Unable to nest '${key}', the label '${path.slice(0, index + 1).join(layout.separator)}' is in the way.`
+        );
+      }
+      target = value;
+    }
+
+    const name = path.at(-1) ?? key;
+
+    if (isJsonObject(target[name])) {
+      return Err(`Unable to write '${key}', other labels are nested below it.`);
+    }
+    target[name] = text;
+  }
+
+  return Ok(json);
+}
+
+function getLocaleMessages(
+  layout: LabelLayout,
+  key: string,
+  entry: LabelFile[string],
+  locale: string
+): [string, string][] {
+  const plurals = Object.entries(entry.plurals ?? {}).filter(
+    (plural): plural is [string, LocalizedEntries] => !!plural[1]?.[locale]
+  );
+
+  if (layout.pluralSuffixes && plurals.length) {
+    return plurals.map(([quantity, plural]) => [
+      `${key}_${quantity}`,
+      plural[locale],
+    ]);
+  }
+
+  const text = entry.translations[locale];
+
+  return text === undefined ? [] : [[key, text]];
+}
+
+function splitPluralSuffix(
+  key: string
+): { key: string; quantity: string } | undefined {
+  const match = key.match(/^(.+)_([a-z]+)$/);
+
+  if (!match || !PLURAL_QUANTITIES.includes(match[2])) return undefined;
+
+  return { key: match[1], quantity: match[2] };
+}
+
+function splitNamespace(
+  key: string,
+  layout: LabelLayout
+): { namespace: string; key: string } | undefined {
+  const index = key.indexOf(layout.separator);
+
+  if (index <= 0) return undefined;
+
+  return {
+    namespace: key.slice(0, index),
+    key: key.slice(index + layout.separator.length),
+  };
+}
+
+/**
+ * How the locale is written in the path of a new file. Existing files are followed:
+ * language codes such as `de` unless another locale shares the language
+ * or the locale is a pseudo locale,
+ * the locale itself such as `de_DE`, or otherwise BCP 47 tags such as `de-DE`.
+ */
+function getLocaleToken(
+  locale: string,
+  locales: string[],
+  existingFiles: LayoutFile[]
+): string {
+  const existingToken = existingFiles.find(
+    file => file.locale === locale
+  )?.localeToken;
+
+  if (existingToken) return existingToken;
+
+  const sample = existingFiles[0];
+  const language = toISO639_1LanguageCode(locale as Locale);
+  const isLanguageUnique = !locales.some(
+    other =>
+      other !== locale && toISO639_1LanguageCode(other as Locale) === language
+  );
+
+  if (
+    !isPseudoLocale(locale) &&
+    (!sample ||
+      sample.localeToken === toISO639_1LanguageCode(sample.locale as Locale)) &&
+    isLanguageUnique
+  ) {
+    return language;
+  }
+
+  return sample && sample.localeToken === sample.locale
+    ? locale
+    : toBCP47(locale as Locale);
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (value === null) return 'null';
+
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
@@ -0,0 +1,165 @@
+import {
+  applyConflictResolutions,
+  mergeThreeWay,
+  mergeUnattended,
+} from '@/core/label-merge';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+const base: LabelFile = {
+  greeting: { translations: { en_US: 'Hello', de_DE: 'Hallo' } },
+  farewell: { translations: { en_US: 'Bye' } },
+};
+
+describe('mergeThreeWay', () => {
+  it('applies changes made on one side', () => {
+    const local: LabelFile = {
+      greeting: { translations: { en_US: 'Hi', de_DE: 'Hallo' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    };
+    const remote: LabelFile = {
+      greeting: { translations: { en_US: 'Hello', de_DE: 'Servus' } },
+      farewell: { translations: { en_US: 'Bye' } },
+      title: { translations: { en_US: 'Title' } },
+    };
+
+    const result = mergeThreeWay(base, local, remote);
+
+    expect(result.conflicts).toEqual([]);
+    expect(applyConflictResolutions(result, new Map(), local, remote)).toEqual({
+      greeting: { translations: { en_US: 'Hi', de_DE: 'Servus' } },
+      farewell: { translations: { en_US: 'Bye' } },
+      title: { translations: { en_US: 'Title' } },
+    });
+  });
+
+  it('removes translations removed on one side', () => {
+    const local: LabelFile = {
+      greeting: { translations: { en_US: 'Hello', de_DE: 'Hallo' } },
+    };
+
+    const result = mergeThreeWay(base, local, base);
+
+    expect(result.merged.get('en_US')?.has('farewell')).toBe(false);
+  });
+
+  it('accepts the same change on both sides', () => {
+    const changed: LabelFile = {
+      ...base,
+      farewell: { translations: { en_US: 'Goodbye' } },
+    };
+
+    const result = mergeThreeWay(base, changed, changed);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.get('en_US')?.get('farewell')).toBe('Goodbye');
+  });
+
+  it('reports different changes on both sides as conflicts', () => {
+    const local: LabelFile = {
+      ...base,
+      farewell: { translations: { en_US: 'Goodbye' } },
+    };
+    const remote: LabelFile = {
+      ...base,
+      farewell: { translations: { en_US: 'See you' } },
+    };
+
+    const result = mergeThreeWay(base, local, remote);
+
+    expect(result.conflicts).toEqual([
+      {
+        locale: 'en_US',
+        key: 'farewell',
+        base: 'Bye',
+        local: 'Goodbye',
+        remote: 'See you',
+      },
+    ]);
+    expect(result.merged.get('en_US')?.has('farewell')).toBe(false);
+  });
+});
+
+describe('applyConflictResolutions', () => {
+  it('applies the resolved values and skips removals', () => {
+    const local: LabelFile = {
+      greeting: { translations: { en_US: 'Hi', de_DE: 'Moin' } },
+    };
+    const remote: LabelFile = {
+      greeting: { translations: { en_US: 'Hey', de_DE: 'Servus' } },
+    };
+    const result = mergeThreeWay(base, local, remote);
+    const [english, german] = result.conflicts;
+
+    const labelFile = applyConflictResolutions(
+      result,
+      new Map([
+        [english, 'Hi'],
+        [german, undefined],
+      ]),
+      local
+    );
+
+    expect(labelFile).toEqual({
+      greeting: { translations: { en_US: 'Hi' } },
+    });
+  });
+});
+
+describe('mergeUnattended', () => {
+  it('keeps conflicting translations local and conflicted', () => {
+    const local: LabelFile = {
+      greeting: { translations: { en_US: 'Hi', de_DE: 'Hallo' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    };
+    const remote: LabelFile = {
+      greeting: { translations: { en_US: 'Hey', de_DE: 'Servus' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    };
+
+    const result = mergeUnattended(base, local, remote);
+
+    expect(result.labels).toEqual({
+      greeting: { translations: { en_US: 'Hi', de_DE: 'Servus' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    });
+    expect(result.base).toEqual({
+      greeting: { translations: { en_US: 'Hello', de_DE: 'Servus' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    });
+    expect(mergeThreeWay(result.base, result.labels, remote).conflicts).toEqual(
+      result.conflicts
+    );
+  });
+
+  it('leaves differing translations conflicted without a base', () => {
+    const local: LabelFile = {
+      greeting: { translations: { en_US: 'Hi' } },
+      title: { translations: { en_US: 'Title' } },
+    };
+    const remote: LabelFile = {
+      greeting: { translations: { en_US: 'Hello' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    };
+
+    const result = mergeUnattended({}, local, remote);
+
+    expect(result.conflicts).toEqual([
+      {
+        locale: 'en_US',
+        key: 'greeting',
+        base: undefined,
+        local: 'Hi',
+        remote: 'Hello',
+      },
+    ]);
+    expect(result.labels).toEqual({
+      greeting: { translations: { en_US: 'Hi' } },
+      title: { translations: { en_US: 'Title' } },
+      farewell: { translations: { en_US: 'Bye' } },
+    });
+    expect(result.base).toEqual({
+      farewell: { translations: { en_US: 'Bye' } },
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  type FlatTranslations,
+  flattenTranslations,
+  unflattenTranslations,
+} from '@/core/label-diff';
+import type { LabelFile } from 'labeleer-cli';
+
+export interface LabelConflict {
+  locale: string;
+  key: string;
+  base?: string;
+  local?: string;
+  remote?: string;
+}
+
+export interface ThreeWayMergeResult {
+  /**
+   * The merged translations. Conflicting translations are left out,
+   * they are to be resolved through {@link applyConflictResolutions}.
+   */
+  merged: FlatTranslations;
+  conflicts: LabelConflict[];
+}
+
+/**
+ * Merges the local and remote labels per key and locale, using the labels of
+ * the last successful synchronization as common ancestor.
+ * Changes made on only one side are applied automatically,
+ * whereas different changes on both sides result in a conflict.
+ */
+export function mergeThreeWay(
+  base: LabelFile,
+  local: LabelFile,
+  remote: LabelFile
+): ThreeWayMergeResult {
+  const baseTranslations = flattenTranslations(base);
+  const localTranslations = flattenTranslations(local);
+  const remoteTranslations = flattenTranslations(remote);
+  const locales = new Set([
+    ...baseTranslations.keys(),
+    ...localTranslations.keys(),
+    ...remoteTranslations.keys(),
+  ]);
+
+  const merged: FlatTranslations = new Map();
+  const conflicts: LabelConflict[] = [];
+
+  for (const locale of locales) {
+    const baseEntries = baseTranslations.get(locale);
+    const localEntries = localTranslations.get(locale);
+    const remoteEntries = remoteTranslations.get(locale);
+    const mergedEntries = new Map<string, string>();
+    const keys = new Set([
+      ...(baseEntries?.keys() ?? []),
+      ...(localEntries?.keys() ?? []),
+      ...(remoteEntries?.keys() ?? []),
+    ]);
+
+    for (const key of keys) {
+      const baseValue = baseEntries?.get(key);
+      const localValue = localEntries?.get(key);
+      const remoteValue = remoteEntries?.get(key);
+
+      let value: string | undefined;
+
+      if (localValue === remoteValue || localValue === baseValue) {
+        value = remoteValue;
+      } else if (remoteValue === baseValue) {
+        value = localValue;
+      } else {
+        conflicts.push({
+          locale,
+          key,
+          base: baseValue,
+          local: localValue,
+          remote: remoteValue,
+        });
+        continue;
+      }
+
+      if (value !== undefined) {
+        mergedEntries.set(key, value);
+      }
+    }
+
+    merged.set(locale, mergedEntries);
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Applies the resolved values of conflicts to the merged translations
+ * and converts them back into a {@link LabelFile}.
+ * A resolution of `undefined` removes the translation.
+ */
+export function applyConflictResolutions(
+  result: ThreeWayMergeResult,
+  resolutions: Map<LabelConflict, string | undefined>,
+  ...metadataSources: LabelFile[]
+): LabelFile {
+  for (const [conflict, value] of resolutions) {
+    if (value === undefined) continue;
+
+    let entries = result.merged.get(conflict.locale);
+    if (!entries) {
+      entries = new Map();
+      result.merged.set(conflict.locale, entries);
+    }
+    entries.set(conflict.key, value);
+  }
+
+  return unflattenTranslations(result.merged, ...metadataSources);
+}
+
+export interface UnattendedMergeResult {
+  /**
+   * The merged labels, in which conflicting translations keep their local value.
+   */
+  labels: LabelFile;
+  /**
+   * The base for the next merge: the remote labels, except for the conflicting
+   * translations, which keep their previous base value. They therefore conflict
+   * again rather than count as local changes.
+   */
+  base: LabelFile;
+  conflicts: LabelConflict[];
+}
+
+/**
+ * Merges the remote labels into the local labels without asking the user.
+ * Conflicts are not resolved: the local files keep their value, and the remote
+ * value is kept as well, until the conflict is resolved through a retrieval.
+ */
+export function mergeUnattended(
+  base: LabelFile,
+  local: LabelFile,
+  remote: LabelFile
+): UnattendedMergeResult {
+  const result = mergeThreeWay(base, local, remote);
+  const labels = applyConflictResolutions(
+    result,
+    new Map(result.conflicts.map(conflict => [conflict, conflict.local])),
+    remote,
+    local
+  );
+
+  const nextBase = flattenTranslations(remote);
+  for (const conflict of result.conflicts) {
+    let entries = nextBase.get(conflict.locale);
+    if (!entries) {
+      entries = new Map();
+      nextBase.set(conflict.locale, entries);
+    }
+
+    if (conflict.base === undefined) {
+      entries.delete(conflict.key);
+    } else {
+      entries.set(conflict.key, conflict.base);
+    }
+  }
+
+  return {
+    labels,
+    base: unflattenTranslations(nextBase, remote, base),
+    conflicts: result.conflicts,
+  };
+}
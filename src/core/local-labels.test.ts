@@ -0,0 +1,168 @@
+import {
+  readLocalLabels,
+  scaffoldLocaleFiles,
+  writeLocalLabels,
+  type LocalLabelFiles,
+} from '@/core/local-labels';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import type { LabelFile } from 'labeleer-cli';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'labeleer-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+function androidFiles(...entries: [string, string][]): LocalLabelFiles {
+  return {
+    format: SupportedFormat.ANDROID_STRINGS,
+    entries: entries.map(([locale, path]) => ({
+      locale,
+      path: join(directory, path),
+    })),
+  };
+}
+
+describe('scaffoldLocaleFiles', () => {
+  it('derives the path from an existing file', async () => {
+    const files = androidFiles(['de_DE', 'res/values-de/strings.xml']);
+
+    const result = await scaffoldLocaleFiles(files, 'nl_NL', {
+      referenceLocale: 'de_DE',
+      locales: ['de_DE', 'nl_NL'],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      value: [
+        { locale: 'nl_NL', path: join(directory, 'res/values-nl/strings.xml') },
+      ],
+    });
+  });
+
+  it('keeps the region of locales that share a language', async () => {
+    const files = androidFiles(['de_DE', 'res/values-de/strings.xml']);
+    const options = {
+      referenceLocale: 'de_DE',
+      locales: ['de_DE', 'pt_BR', 'pt_PT'],
+    };
+
+    const brazilian = await scaffoldLocaleFiles(files, 'pt_BR', options);
+    const portuguese = await scaffoldLocaleFiles(files, 'pt_PT', options);
+
+    expect(brazilian.success && brazilian.value[0].path).toBe(
+      join(directory, 'res/values-pt-rBR/strings.xml')
+    );
+    expect(portuguese.success && portuguese.value[0].path).toBe(
+      join(directory, 'res/values-pt-rPT/strings.xml')
+    );
+  });
+
+  it('does not reuse the file of a locale with the same language', async () => {
+    const files = androidFiles(
+      ['de_DE', 'res/values-de/strings.xml'],
+      ['pt_BR', 'res/values-pt/strings.xml']
+    );
+
+    const result = await scaffoldLocaleFiles(files, 'pt_PT', {
+      referenceLocale: 'de_DE',
+      locales: ['de_DE', 'pt_PT'],
+    });
+
+    expect(result.success && result.value[0].path).toBe(
+      join(directory, 'res/values-pt-rPT/strings.xml')
+    );
+  });
+
+  it('derives the path from the Android default resources', async () => {
+    const files = androidFiles(['reference', 'res/values/strings.xml']);
+
+    const result = await scaffoldLocaleFiles(files, 'fr_FR', {
+      referenceLocale: 'en_US',
+      locales: ['en_US', 'fr_FR'],
+    });
+
+    expect(result.success && result.value[0].path).toBe(
+      join(directory, 'res/values-fr/strings.xml')
+    );
+  });
+
+  it('rejects the reference locale of the default resources', async () => {
+    const files = androidFiles(['reference', 'res/values/strings.xml']);
+
+    const result = await scaffoldLocaleFiles(files, 'en_US', {
+      referenceLocale: 'en_US',
+      locales: ['en_US'],
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'A label file for en_US is already configured.',
+    });
+  });
+});
+
+describe('writeLocalLabels', () => {
+  const labelFile: LabelFile = {
+    'app.title': {
+      translations: { en_US: 'Hello', fr_FR: 'Bonjour' },
+    },
+  };
+
+  it('writes the reference locale to the Android default resources', async () => {
+    const files = androidFiles(['reference', 'res/values/strings.xml']);
+    const options = { referenceLocale: 'en_US', locales: ['en_US', 'fr_FR'] };
+
+    const written = await writeLocalLabels(files, labelFile, options);
+    const read = await readLocalLabels(files, 'en_US');
+
+    expect(written).toEqual({
+      success: true,
+      value: [
+        { locale: 'en_US', path: join(directory, 'res/values/strings.xml') },
+        { locale: 'fr_FR', path: join(directory, 'res/values-fr/strings.xml') },
+      ],
+    });
+    expect(read.success && read.value['app.title'].translations).toEqual({
+      en_US: 'Hello',
+    });
+  });
+
+  it('keeps the style of an existing JSON file', async () => {
+    const path = join(directory, 'labels.json');
+    await writeFile(path, '{\r\n\t"old.key" : {}\r\n}', 'utf-8');
+
+    await writeLocalLabels(
+      { format: SupportedFormat.JSON, entries: [{ locale: '*', path }] },
+      labelFile,
+      { referenceLocale: 'en_US', locales: ['en_US', 'fr_FR'] }
+    );
+    const content = await readFile(path, 'utf-8');
+
+    expect(content).toMatch(/^{\r\n\t"app\.title" : {\r\n\t\t"/);
+    expect(content.endsWith('}')).toBe(true);
+  });
+
+  it('keeps the header comment of an existing YAML file', async () => {
+    const path = join(directory, 'labels.yaml');
+    await writeFile(path, '# Generated, do not edit.\n', 'utf-8');
+
+    await writeLocalLabels(
+      { format: SupportedFormat.YAML, entries: [{ locale: '*', path }] },
+      labelFile,
+      { referenceLocale: 'en_US', locales: ['en_US', 'fr_FR'] }
+    );
+
+    expect(await readFile(path, 'utf-8')).toMatch(
+      /^# Generated, do not edit\.\n[^#]/
+    );
+  });
+});
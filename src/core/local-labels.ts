@@ -0,0 +1,489 @@
+import {
+  mergeLabelFiles,
+  parseLabelFile,
+  serializeLabelFile,
+} from '@/core/label-codec';
+import {
+  findLayoutFiles,
+  parseLayoutFile,
+  scaffoldLayoutFiles,
+  serializeLayoutFiles,
+} from '@/core/label-layout';
+import {
+  inferLocaleFromPath,
+  REFERENCE_LOCALE_ENTRY,
+} from '@/core/project-setup';
+import { isPseudoLocale } from '@/core/pseudo-localization';
+import { Err, Ok, type Result } from '@/core/result';
+import { inferFileFormatFromFileName, toRelativePath } from '@/files';
+import {
+  type Locale,
+  SupportedFormat,
+  toBCP47,
+  toISO639_1LanguageCode,
+} from '@labeleer/translation-dataset-transformers';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import type {
+  LabelFile,
+  LabelLayout,
+  LocalFileEntry,
+  ProjectConfig,
+} from 'labeleer-cli';
+import { dirname, resolve } from 'path';
+
+/**
+ * The Android Strings serializer does not produce a file for a locale without translations.
+ */
+const EMPTY_ANDROID_STRINGS =
+  '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n</resources>\n';
+
+/**
+ * The local files that hold the labels of a project.
+ * A locale of `'*'` denotes a file that holds every locale.
+ */
+export interface LocalLabelFiles {
+  format: SupportedFormat;
+  entries: LocalFileEntry[];
+  /**
+   * When set, the files are found through the layout rather than the entries.
+   */
+  layout?: LabelLayout;
+}
+
+export interface LocaleOptions {
+  referenceLocale: string;
+  locales: string[];
+}
+
+export function getLocalLabelFiles(
+  config: ProjectConfig
+): Result<LocalLabelFiles> {
+  const format =
+    config.format ?? inferFileFormatFromFileName(config.localFilePath);
+
+  if (!format) {
+    return Err('Unable to infer file format from label file name.');
+  }
+
+  return Ok({
+    format,
+    entries: config.localFiles ?? [{ locale: '*', path: config.localFilePath }],
+    layout: config.layout,
+  });
+}
+
+/**
+ * Reads and parses every local label file, merging them into a single {@link LabelFile}.
+ * Files that do not exist yet are treated as empty.
+ */
+export async function readLocalLabels(
+  files: LocalLabelFiles,
+  referenceLocale: string
+): Promise<Result<LabelFile>> {
+  if (files.layout) return await readLayoutLabels(files.layout);
+
+  const labelFiles: LabelFile[] = [];
+
+  for (const entry of resolveReferenceEntries(files.entries, referenceLocale)) {
+    const content = await readFile(resolve(entry.path), 'utf-8').catch(
+      () => ''
+    );
+    const result = await parseLabelFile(content, files.format, {
+      referenceLocale,
+      targetLocale:
+        entry.locale === '*'
+          ? inferLocaleFromPath(entry.path, files.format, referenceLocale)
+          : entry.locale,
+    });
+
+    if (!result.success) {
+      return Err(
+        `Unable to parse ${toRelativePath(entry.path)}: ${result.error}`
+      );
+    }
+    labelFiles.push(result.value);
+  }
+
+  return Ok(mergeLabelFiles(...labelFiles));
+}
+
+/**
+ * Serializes the labels into the local label files, one file per locale
+ * for per-locale setups. Locales without a configured file are written next to
+ * the existing ones, following the same naming scheme.
+ *
+ * @returns The entries that have been written, including newly created ones.
+ */
+export async function writeLocalLabels(
+  files: LocalLabelFiles,
+  labelFile: LabelFile,
+  options: LocaleOptions
+): Promise<Result<LocalFileEntry[]>> {
+  if (files.layout) {
+    return await writeLayoutLabels(files.layout, labelFile, options.locales);
+  }
+
+  const entries = resolveEntriesForLocales(files, options);
+
+  for (const entry of entries) {
+    const content = await serializeLabelFile(labelFile, files.format, {
+      ...options,
+      targetLocale: entry.locale === '*' ? undefined : entry.locale,
+    });
+
+    if (!content.success) {
+      return Err(
+        `Unable to serialize ${toRelativePath(entry.path)}: ${content.error}`
+      );
+    }
+
+    await writeLabelFileContent(entry.path, content.value, files.format);
+  }
+
+  return Ok(entries);
+}
+
+async function readLayoutLabels(
+  layout: LabelLayout
+): Promise<Result<LabelFile>> {
+  const layoutFiles = await findLayoutFiles(layout);
+
+  if (!layoutFiles.success) return layoutFiles;
+
+  const labelFiles: LabelFile[] = [];
+
+  for (const file of layoutFiles.value) {
+    const result = parseLayoutFile(
+      layout,
+      file,
+      await readFile(file.path, 'utf-8')
+    );
+
+    if (!result.success) return result;
+    labelFiles.push(result.value);
+  }
+
+  return Ok(mergeLabelFiles(...labelFiles));
+}
+
+async function writeLayoutLabels(
+  layout: LabelLayout,
+  labelFile: LabelFile,
+  locales: string[]
+): Promise<Result<LocalFileEntry[]>> {
+  const layoutFiles = await findLayoutFiles(layout);
+
+  if (!layoutFiles.success) return layoutFiles;
+
+  const serializedFiles = serializeLayoutFiles(
+    layout,
+    labelFile,
+    locales,
+    layoutFiles.value
+  );
+
+  if (!serializedFiles.success) return serializedFiles;
+
+  for (const file of serializedFiles.value) {
+    await writeLabelFileContent(file.path, file.content, SupportedFormat.JSON);
+  }
+
+  return Ok(
+    serializedFiles.value.map(file => ({
+      locale: file.locale,
+      path: file.path,
+    }))
+  );
+}
+
+/**
+ * Writes the content of a label file, keeping the style of an existing file.
+ */
+async function writeLabelFileContent(
+  path: string,
+  content: string,
+  format: SupportedFormat
+): Promise<void> {
+  const previousContent = await readFile(resolve(path), 'utf-8').catch(
+    () => undefined
+  );
+
+  await mkdir(dirname(resolve(path)), { recursive: true });
+  await writeFile(
+    resolve(path),
+    previousContent === undefined
+      ? content
+      : preserveFileStyle(previousContent, content, format),
+    'utf-8'
+  );
+}
+
+/**
+ * The transformers serialize every file from scratch. To keep diffs small, the style
+ * of the existing file is carried over as far as the format allows: its indentation
+ * and `" : "` separators for JSON based formats, a leading comment block for formats
+ * with line comments, its line endings and whether it ends with a newline.
+ * Comments between entries cannot be preserved.
+ */
+function preserveFileStyle(
+  previousContent: string,
+  content: string,
+  format: SupportedFormat
+): string {
+  let result = content.replace(/\r\n/g, '\n');
+
+  if (format === SupportedFormat.JSON || format === SupportedFormat.XCSTRINGS) {
+    const indent = previousContent.match(/^([ \t]+)\S/m)?.[1];
+
+    if (indent) {
+      result = JSON.stringify(JSON.parse(result), null, indent);
+    }
+    if (/^\s*"(?:[^"\\]|\\.)*" : /m.test(previousContent)) {
+      result = result.replace(/^(\s*"(?:[^"\\]|\\.)*"): /gm, '$1 : ');
+    }
+  }
+
+  const headerExpression = getHeaderCommentExpression(format);
+  const header = headerExpression
+    ? previousContent.match(headerExpression)?.[0].replace(/\r\n/g, '\n')
+    : undefined;
+  if (header && !result.startsWith(header)) {
+    result = header + result;
+  }
+
+  result = result.replace(/\n*$/, previousContent.endsWith('\n') ? '\n' : '');
+
+  return previousContent.includes('\r\n')
+    ? result.replace(/\n/g, '\r\n')
+    : result;
+}
+
+/**
+ * Matches the comment lines at the top of a file, e.g. a license header.
+ */
+function getHeaderCommentExpression(
+  format: SupportedFormat
+): RegExp | undefined {
+  switch (format) {
+    case SupportedFormat.YAML:
+      return /^(?:#.*\r?\n)+/;
+    case SupportedFormat.APPLE_STRINGS:
+      return /^(?:(?:\/\/.*|\/\*[\s\S]*?\*\/)[ \t]*\r?\n)+/;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Creates an empty label file for a new locale in a per-locale setup,
+ * next to the existing files and following their naming scheme.
+ * Layouts with namespaces get one file per namespace.
+ *
+ * @returns The entries of the new files.
+ */
+export async function scaffoldLocaleFiles(
+  files: LocalLabelFiles,
+  locale: string,
+  options: LocaleOptions
+): Promise<Result<LocalFileEntry[]>> {
+  if (files.layout) {
+    return await scaffoldLayoutLocale(files.layout, locale, options.locales);
+  }
+  const entries = resolveReferenceEntries(
+    files.entries,
+    options.referenceLocale
+  );
+
+  if (entries.some(entry => entry.locale === '*')) {
+    return Err('The label file holds every locale, no file is needed.');
+  }
+  if (entries.some(entry => entry.locale === locale)) {
+    return Err(`A label file for ${locale} is already configured.`);
+  }
+
+  const path = deriveLocalePath(entries, locale, options.locales);
+
+  if (!path) {
+    return Err(`Unable to derive the path of the label file for ${locale}.`);
+  }
+  if (
+    await readFile(resolve(path)).then(
+      () => true,
+      () => false
+    )
+  ) {
+    return Err(`${toRelativePath(path)} already exists.`);
+  }
+
+  const content =
+    files.format === SupportedFormat.ANDROID_STRINGS
+      ? Ok(EMPTY_ANDROID_STRINGS)
+      : await serializeLabelFile({}, files.format, {
+          ...options,
+          targetLocale: locale,
+        });
+
+  if (!content.success) {
+    return Err(`Unable to serialize ${toRelativePath(path)}: ${content.error}`);
+  }
+
+  await mkdir(dirname(resolve(path)), { recursive: true });
+  await writeFile(resolve(path), content.value, 'utf-8');
+
+  return Ok([{ locale, path }]);
+}
+
+async function scaffoldLayoutLocale(
+  layout: LabelLayout,
+  locale: string,
+  locales: string[]
+): Promise<Result<LocalFileEntry[]>> {
+  const layoutFiles = await findLayoutFiles(layout);
+
+  if (!layoutFiles.success) return layoutFiles;
+
+  const scaffoldedFiles = scaffoldLayoutFiles(
+    layout,
+    locale,
+    locales,
+    layoutFiles.value
+  );
+
+  if (!scaffoldedFiles.success) return scaffoldedFiles;
+
+  for (const file of scaffoldedFiles.value) {
+    await mkdir(dirname(file.path), { recursive: true });
+    await writeFile(file.path, file.content, 'utf-8');
+  }
+
+  return Ok(
+    scaffoldedFiles.value.map(file => ({
+      locale: file.locale,
+      path: file.path,
+    }))
+  );
+}
+
+function resolveEntriesForLocales(
+  files: LocalLabelFiles,
+  options: LocaleOptions
+): LocalFileEntry[] {
+  const entries = resolveReferenceEntries(
+    files.entries,
+    options.referenceLocale
+  );
+
+  if (entries.some(entry => entry.locale === '*')) return entries;
+
+  for (const locale of options.locales) {
+    if (entries.some(entry => entry.locale === locale)) continue;
+
+    const path = deriveLocalePath(entries, locale, options.locales);
+    if (path) {
+      entries.push({ locale, path });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Replaces the locale of entries that hold the reference locale, see {@link REFERENCE_LOCALE_ENTRY}.
+ */
+function resolveReferenceEntries(
+  entries: LocalFileEntry[],
+  referenceLocale: string
+): LocalFileEntry[] {
+  return entries.map(entry =>
+    entry.locale === REFERENCE_LOCALE_ENTRY
+      ? { ...entry, locale: referenceLocale }
+      : entry
+  );
+}
+
+/**
+ * Derives the path of a new locale from an existing per-locale file,
+ * e.g. `values-nl/strings.xml` from `values-de/strings.xml`,
+ * or `nl.lproj/Localizable.strings` from `de.lproj/Localizable.strings`.
+ * The region is kept whenever another locale shares the language, so `pt_BR` and
+ * `pt_PT` do not end up in the same file. A path that is already taken is never derived.
+ *
+ * @param locales The locales of the project, used to find locales that share a language.
+ */
+function deriveLocalePath(
+  entries: LocalFileEntry[],
+  locale: string,
+  locales: string[]
+): string | undefined {
+  const language = toISO639_1LanguageCode(locale as Locale);
+  const hasSibling = [...locales, ...entries.map(entry => entry.locale)].some(
+    other =>
+      other !== locale &&
+      other !== '*' &&
+      !isPseudoLocale(other) &&
+      toISO639_1LanguageCode(other as Locale) === language
+  );
+  const targetTokens = getLocaleTokens(locale, hasSibling);
+  const isTaken = (path: string) =>
+    entries.some(entry => resolve(entry.path) === resolve(path));
+
+  for (const entry of entries) {
+    const sourceTokens = getLocaleTokens(entry.locale, false);
+
+    for (const [index, token] of sourceTokens.entries()) {
+      const pattern = new RegExp(`(?<![a-zA-Z])${token}(?![a-zA-Z])`, 'g');
+      const match = [...entry.path.matchAll(pattern)].at(-1);
+
+      if (match) {
+        // Only the last occurrence is replaced, as it is closest to the file itself.
+        const path = toAndroidQualifier(
+          entry.path.slice(0, match.index) +
+            targetTokens[index] +
+            entry.path.slice(match.index + token.length)
+        );
+
+        return isTaken(path) ? undefined : path;
+      }
+    }
+  }
+
+  // The default resources of Android, `values/strings.xml`, carry no locale to replace.
+  const defaultResources = entries.find(entry =>
+    /[\\/]values[\\/]strings\.xml$/.test(entry.path)
+  );
+  if (defaultResources) {
+    const path = toAndroidQualifier(
+      defaultResources.path.replace(
+        /([\\/])values([\\/]strings\.xml)$/,
+        `$1values-${targetTokens[2]}$2`
+      )
+    );
+
+    return isTaken(path) ? undefined : path;
+  }
+
+  return undefined;
+}
+
+/**
+ * Android resource qualifiers prefix the region with an `r`, e.g. `values-en-rXA`.
+ */
+function toAndroidQualifier(path: string): string {
+  return path.replace(/([\\/]values-[a-z]{2})-([A-Z]{2})(?=[\\/])/, '$1-r$2');
+}
+
+/**
+ * The representations a locale can take in a path,
+ * from most to least specific: `de_DE`, `de-DE` and `de`.
+ * Pseudo locales, and locales whose language is shared by another locale, are
+ * never reduced to their language, e.g. `en-XA` and `pt-BR` rather than `en` and `pt`.
+ */
+function getLocaleTokens(locale: string, keepRegion: boolean): string[] {
+  return [
+    locale,
+    toBCP47(locale as Locale),
+    isPseudoLocale(locale) || keepRegion
+      ? toBCP47(locale as Locale)
+      : toISO639_1LanguageCode(locale as Locale),
+  ];
+}
@@ -0,0 +1,123 @@
+import {
+  applyMachineTranslations,
+  createCommandProvider,
+  findUntranslatedEntries,
+  translateMissingEntries,
+  type TranslationProvider,
+} from '@/core/machine-translation';
+import { Err, Ok } from '@/core/result';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+const labelFile: LabelFile = {
+  greeting: { translations: { en_US: 'Hello {name}', de_DE: '' } },
+  farewell: { translations: { en_US: 'Bye', de_DE: 'Tschüss' } },
+  draft: { translations: { fr_FR: 'Brouillon' } },
+};
+
+describe('findUntranslatedEntries', () => {
+  it('collects the reference texts of missing and empty translations', () => {
+    expect(
+      findUntranslatedEntries(labelFile, 'en_US', ['en_US', 'de_DE', 'fr_FR'])
+    ).toEqual(
+      new Map([
+        ['de_DE', { greeting: 'Hello {name}' }],
+        ['fr_FR', { greeting: 'Hello {name}', farewell: 'Bye' }],
+      ])
+    );
+  });
+});
+
+describe('translateMissingEntries', () => {
+  it('keeps translations that match the placeholders of their reference', async () => {
+    const provider: TranslationProvider = {
+      name: 'test',
+      translate: request =>
+        Promise.resolve(
+          request.targetLocale === 'de_DE'
+            ? Ok({ greeting: 'Hallo {user}', unrequested: 'Text' })
+            : Err('Quota exceeded')
+        ),
+    };
+
+    const result = await translateMissingEntries(provider, labelFile, 'en_US', [
+      'de_DE',
+      'fr_FR',
+    ]);
+
+    expect(result).toEqual({
+      translations: [],
+      failures: [
+        'de_DE: greeting - Missing placeholder {name}',
+        'fr_FR: Quota exceeded',
+      ],
+    });
+  });
+
+  it('returns the translations of the provider', async () => {
+    const provider: TranslationProvider = {
+      name: 'test',
+      translate: () => Promise.resolve(Ok({ greeting: 'Hallo {name}' })),
+    };
+
+    const result = await translateMissingEntries(provider, labelFile, 'en_US', [
+      'de_DE',
+    ]);
+
+    expect(result.translations).toEqual([
+      { key: 'greeting', locale: 'de_DE', text: 'Hallo {name}' },
+    ]);
+  });
+});
+
+describe('applyMachineTranslations', () => {
+  it('adds the translations to a copy of the label file', () => {
+    const result = applyMachineTranslations(labelFile, [
+      { key: 'greeting', locale: 'de_DE', text: 'Hallo {name}' },
+    ]);
+
+    expect(result.greeting.translations).toEqual({
+      en_US: 'Hello {name}',
+      de_DE: 'Hallo {name}',
+    });
+    expect(labelFile.greeting.translations.de_DE).toBe('');
+  });
+});
+
+describe.runIf(process.platform !== 'win32')('createCommandProvider', () => {
+  const request = {
+    sourceLocale: 'en_US',
+    targetLocale: 'de_DE',
+    entries: { greeting: 'Hello' },
+  };
+
+  it('passes the request on stdin and reads the translations from stdout', async () => {
+    const provider = createCommandProvider(
+      `node -e "process.stdin.on('data', d => console.log(JSON.stringify({ translations: { greeting: JSON.parse(d).targetLocale } })))"`
+    );
+
+    expect(await provider.translate(request)).toEqual(
+      Ok({ greeting: 'de_DE' })
+    );
+  });
+
+  it('reports the exit code and the last line of stderr', async () => {
+    const provider = createCommandProvider(
+      'echo "first" >&2; echo "Invalid API key" >&2; exit 3'
+    );
+
+    expect(await provider.translate(request)).toEqual(
+      Err('The translation command exited with code 3: Invalid API key')
+    );
+  });
+
+  it('rejects unexpected output', async () => {
+    const provider = createCommandProvider('echo "{}"');
+
+    expect(await provider.translate(request)).toEqual(
+      Err(
+        'Unexpected output of the translation command. Expected {"translations": {"key": "text"}}.'
+      )
+    );
+  });
+});
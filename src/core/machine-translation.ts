@@ -0,0 +1,244 @@
+import { validatePlaceholders } from '@/core/placeholder-validation';
+import { getProjectSetup } from '@/core/project-setup';
+import { Err, Ok, type Result } from '@/core/result';
+import { spawn } from 'child_process';
+import type { LabelFile } from 'labeleer-cli';
+import { z } from 'zod';
+
+const DEFAULT_TIMEOUT = 60_000;
+
+/**
+ * The texts of one locale to translate into another, keyed by label key.
+ */
+export interface TranslationRequest {
+  sourceLocale: string;
+  targetLocale: string;
+  entries: Record<string, string>;
+}
+
+/**
+ * Translates texts between locales. Providers may return fewer translations than
+ * requested; keys without a translation are left empty.
+ */
+export interface TranslationProvider {
+  name: string;
+  translate(
+    request: TranslationRequest
+  ): Promise<Result<Record<string, string>>>;
+}
+
+export interface MachineTranslation {
+  key: string;
+  locale: string;
+  text: string;
+}
+
+export interface MachineTranslationResult {
+  translations: MachineTranslation[];
+  /**
+   * Describes every locale or translation that could not be filled.
+   */
+  failures: string[];
+}
+
+const TranslationResponseDecoder = z.object({
+  translations: z.record(z.string(), z.string()),
+});
+
+/**
+ * Resolves the provider configured in `labeleer.json`.
+ */
+export async function getTranslationProvider(): Promise<
+  Result<TranslationProvider>
+> {
+  const projectSetup = await getProjectSetup();
+  const setup = projectSetup.success ? projectSetup.value.translate : undefined;
+
+  if (!setup) {
+    return Err(
+      'No translation provider configured. Add "translate": { "command": "..." } to labeleer.json.'
+    );
+  }
+
+  return Ok(createCommandProvider(setup.command, setup.timeout));
+}
+
+/**
+ * A provider that runs an external command once per target locale. The command reads
+ * a {@link TranslationRequest} as JSON on stdin and writes `{"translations": {"key": "text"}}`
+ * as JSON on stdout. A non-zero exit code fails the locale; stderr is reported.
+ */
+export function createCommandProvider(
+  command: string,
+  timeout: number = DEFAULT_TIMEOUT
+): TranslationProvider {
+  return {
+    name: command,
+    translate: request =>
+      new Promise(resolve => {
+        const child = spawn(command, {
+          shell: true,
+          stdio: ['pipe', 'pipe', 'pipe'],
+        });
+        let stdout = '';
+        let stderr = '';
+        const timer = setTimeout(() => {
+          child.kill();
+          resolve(Err(`The translation command timed out after ${timeout}ms.`));
+        }, timeout);
+
+        child.stdout.on(
+          'data',
+          (chunk: Buffer) => (stdout += chunk.toString())
+        );
+        child.stderr.on(
+          'data',
+          (chunk: Buffer) => (stderr += chunk.toString())
+        );
+        // The command may exit without reading its input.
+        child.stdin.on('error', () => undefined);
+        child.on('error', error => {
+          clearTimeout(timer);
+          resolve(
+            Err(`Unable to run the translation command: ${error.message}`)
+          );
+        });
+        child.on('close', code => {
+          clearTimeout(timer);
+
+          if (code !== 0) {
+            const message = stderr.trim().split('\n').at(-1);
+            resolve(
+              Err(
+                `The translation command exited with code ${code}${message ? `: ${message}` : '.'}`
+              )
+            );
+            return;
+          }
+
+          resolve(parseTranslationResponse(stdout));
+        });
+
+        child.stdin.end(JSON.stringify(request));
+      }),
+  };
+}
+
+function parseTranslationResponse(
+  output: string
+): Result<Record<string, string>> {
+  try {
+    const response = TranslationResponseDecoder.safeParse(JSON.parse(output));
+
+    return response.success
+      ? Ok(response.data.translations)
+      : Err(
+          'Unexpected output of the translation command. Expected {"translations": {"key": "text"}}.'
+        );
+  } catch {
+    return Err('The translation command did not write valid JSON.');
+  }
+}
+
+/**
+ * Collects the reference texts of the keys that are missing or empty in each target locale.
+ * Keys without a reference translation are skipped, as there is nothing to translate.
+ */
+export function findUntranslatedEntries(
+  labelFile: LabelFile,
+  referenceLocale: string,
+  targetLocales: string[]
+): Map<string, Record<string, string>> {
+  const untranslated = new Map<string, Record<string, string>>();
+
+  for (const locale of targetLocales) {
+    if (locale === referenceLocale) continue;
+
+    const entries: Record<string, string> = {};
+    for (const [key, entry] of Object.entries(labelFile)) {
+      const translations = entry.translations;
+      const reference = translations[referenceLocale];
+
+      if (reference && !translations[locale]) {
+        entries[key] = reference;
+      }
+    }
+
+    if (Object.keys(entries).length) untranslated.set(locale, entries);
+  }
+
+  return untranslated;
+}
+
+/**
+ * Translates the missing translations of the target locales through the provider.
+ * Translations that break the placeholders of their reference are discarded,
+ * as are keys the provider has not been asked for.
+ */
+export async function translateMissingEntries(
+  provider: TranslationProvider,
+  labelFile: LabelFile,
+  referenceLocale: string,
+  targetLocales: string[]
+): Promise<MachineTranslationResult> {
+  const result: MachineTranslationResult = { translations: [], failures: [] };
+  const untranslated = findUntranslatedEntries(
+    labelFile,
+    referenceLocale,
+    targetLocales
+  );
+
+  for (const [locale, entries] of untranslated) {
+    const response = await provider.translate({
+      sourceLocale: referenceLocale,
+      targetLocale: locale,
+      entries,
+    });
+
+    if (!response.success) {
+      result.failures.push(`${locale}: ${response.error}`);
+      continue;
+    }
+
+    for (const [key, text] of Object.entries(response.value)) {
+      if (!(key in entries) || !text) continue;
+
+      const issues = validatePlaceholders(
+        {
+          [key]: {
+            translations: { [referenceLocale]: entries[key], [locale]: text },
+          },
+        },
+        referenceLocale
+      );
+
+      if (issues.length) {
+        result.failures.push(`${locale}: ${key} - ${issues[0].message}`);
+        continue;
+      }
+      result.translations.push({ key, locale, text });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Adds the machine translations to a copy of the label file.
+ */
+export function applyMachineTranslations(
+  labelFile: LabelFile,
+  translations: MachineTranslation[]
+): LabelFile {
+  const result: LabelFile = { ...labelFile };
+
+  for (const { key, locale, text } of translations) {
+    const entry = result[key] ?? { translations: {} };
+    result[key] = {
+      ...entry,
+      translations: { ...entry.translations, [locale]: text },
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,125 @@
+import {
+  extractPlaceholders,
+  validatePlaceholders,
+} from '@/core/placeholder-validation';
+import { describe, expect, it } from 'vitest';
+
+describe('extractPlaceholders', () => {
+  it('extracts ICU, printf and double brace placeholders', () => {
+    expect(
+      extractPlaceholders('{{user}} has %1$s and %d of {total, number} {name}')
+    ).toEqual({
+      success: true,
+      value: ['%1$s', '%d', '{name}', '{total, number}', '{{user}}'],
+    });
+  });
+
+  it('lists unnumbered printf placeholders once per occurrence', () => {
+    expect(extractPlaceholders('%s of %s, 100%%')).toEqual({
+      success: true,
+      value: ['%s', '%s'],
+    });
+  });
+
+  it('collects the arguments of nested plural and select messages', () => {
+    const message =
+      '{gender, select, female {{count, plural, one {# item for {name}} other {# items}}} other {none}}';
+
+    expect(extractPlaceholders(message)).toEqual({
+      success: true,
+      value: ['{count, plural}', '{gender, select}', '{name}'],
+    });
+  });
+
+  it('accepts offsets, exact selectors and argument styles', () => {
+    expect(
+      extractPlaceholders(
+        '{count, plural, offset:1 =0 {none} other {{price, number, ::currency/EUR}}}'
+      ).success
+    ).toBe(true);
+  });
+
+  it('reports errors of messages with double braces as such', () => {
+    expect(extractPlaceholders('{{user}} has {count')).toEqual({
+      success: false,
+      error: "Invalid ICU message: Unclosed argument 'count'",
+    });
+  });
+
+  it('ignores quoted literals', () => {
+    expect(extractPlaceholders("'{name}' isn''t {user}")).toEqual({
+      success: true,
+      value: ['{user}'],
+    });
+  });
+
+  it.each([
+    ['Hello {name', "Invalid ICU message: Unclosed argument 'name'"],
+    ['Hello }', "Invalid ICU message: Unexpected '}' at position 7"],
+    ['{}', 'Invalid ICU message: Empty argument at position 1'],
+    [
+      '{count, plural, one {# item}}',
+      "Invalid ICU message: Argument 'count' is missing the 'other' selector",
+    ],
+    [
+      '{count, money}',
+      "Invalid ICU message: Unknown argument type 'money' at position 1",
+    ],
+  ])('rejects %s', (message, error) => {
+    expect(extractPlaceholders(message)).toEqual({ success: false, error });
+  });
+});
+
+describe('validatePlaceholders', () => {
+  it('reports placeholders that differ from the reference translation', () => {
+    const issues = validatePlaceholders(
+      {
+        greeting: {
+          translations: { en_US: 'Hello {name}', de_DE: 'Hallo {user}' },
+        },
+      },
+      'en_US'
+    );
+
+    expect(issues).toEqual([
+      {
+        type: 'missing',
+        key: 'greeting',
+        locale: 'de_DE',
+        message: 'Missing placeholder {name}',
+      },
+      {
+        type: 'unexpected',
+        key: 'greeting',
+        locale: 'de_DE',
+        message: 'Unexpected placeholder {user}',
+      },
+    ]);
+  });
+
+  it('compares plural forms missing in the reference with its other form', () => {
+    const issues = validatePlaceholders(
+      {
+        items: {
+          translations: {},
+          plurals: {
+            other: { en_US: '{count} items' },
+            few: { pl_PL: '{count} elementy' },
+          },
+        },
+      },
+      'en_US'
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it('reports syntax errors of every locale', () => {
+    const issues = validatePlaceholders(
+      { greeting: { translations: { en_US: 'Hello {name' } } },
+      'en_US'
+    );
+
+    expect(issues.map(issue => issue.type)).toEqual(['syntax']);
+  });
+});
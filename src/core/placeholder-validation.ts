@@ -0,0 +1,376 @@
+import { flattenTranslations } from '@/core/label-diff';
+import { Err, Ok, type Result } from '@/core/result';
+import type { LabelFile } from 'labeleer-cli';
+
+export type PlaceholderIssueType = 'syntax' | 'missing' | 'unexpected';
+
+export interface PlaceholderIssue {
+  type: PlaceholderIssueType;
+  /**
+   * The label key. Plural forms are suffixed with their quantity, e.g. `items.count[one]`.
+   */
+  key: string;
+  locale: string;
+  message: string;
+}
+
+/**
+ * Checks that every translation uses the same placeholders as its reference translation,
+ * e.g. `{name}`, `%s`, `%1$@` and ICU arguments like `{count, plural, ...}`.
+ * Translations that are not valid ICU messages are reported as syntax errors.
+ * Plural forms that are missing in the reference locale are compared with its `other` form.
+ */
+export function validatePlaceholders(
+  labelFile: LabelFile,
+  referenceLocale: string
+): PlaceholderIssue[] {
+  const translations = flattenTranslations(labelFile);
+  const referenceTranslations =
+    translations.get(referenceLocale) ?? new Map<string, string>();
+  const locales = [
+    referenceLocale,
+    ...[...translations.keys()].filter(locale => locale !== referenceLocale),
+  ];
+  const issues: PlaceholderIssue[] = [];
+
+  for (const locale of locales) {
+    for (const [key, value] of translations.get(locale) ?? []) {
+      const placeholders = extractPlaceholders(value);
+
+      if (!placeholders.success) {
+        issues.push({
+          type: 'syntax',
+          key,
+          locale,
+          message: placeholders.error,
+        });
+        continue;
+      }
+      if (locale === referenceLocale) continue;
+
+      const reference = findReferenceTranslation(referenceTranslations, key);
+      const referencePlaceholders =
+        reference === undefined ? undefined : extractPlaceholders(reference);
+
+      if (!referencePlaceholders?.success) continue;
+
+      issues.push(
+        ...comparePlaceholders(
+          referencePlaceholders.value,
+          placeholders.value
+        ).map(issue => ({ ...issue, key, locale }))
+      );
+    }
+  }
+
+  return issues;
+}
+
+const printfExpression =
+  /%%|%(?:(\d+)\$)?[-+0#]*(?:\d+|\*)?(?:\.(?:\d+|\*))?(?:hh|h|ll|l|L|q|j|z|t)?[@sdifFeEgGxXoucpaA]/g;
+const doubleBraceExpression = /\{\{\s*([^{}]+?)\s*}}/g;
+
+/**
+ * Extracts the placeholders of a translation, e.g. `['{name}', '{count, plural}', '%1$s']`.
+ * Positional and named placeholders are listed once, unnumbered printf placeholders
+ * once per occurrence as their order matters.
+ *
+ * @returns An error if the translation is not a valid ICU message.
+ */
+export function extractPlaceholders(text: string): Result<string[]> {
+  const result = extractPlaceholdersOf(text, true);
+
+  if (result.success) return result;
+
+  // Double braces also open and close nested ICU arguments, e.g. `other {{count, number}}`.
+  const icuResult = extractPlaceholdersOf(text, false);
+
+  return icuResult.success ? icuResult : result;
+}
+
+function extractPlaceholdersOf(
+  text: string,
+  withDoubleBraces: boolean
+): Result<string[]> {
+  const namedPlaceholders = new Set<string>();
+  const unnumberedPlaceholders: string[] = [];
+  let message = withDoubleBraces
+    ? text.replace(doubleBraceExpression, (_, name: string) => {
+        namedPlaceholders.add(`{{${name}}}`);
+        return '';
+      })
+    : text;
+
+  message = message.replace(printfExpression, (match, position?: string) => {
+    if (match === '%%') return '';
+
+    if (position) {
+      namedPlaceholders.add(match);
+    } else {
+      unnumberedPlaceholders.push(match);
+    }
+    return '';
+  });
+
+  const icuArguments = parseIcuMessage(message);
+
+  if (!icuArguments.success) return icuArguments;
+
+  icuArguments.value.forEach(argument => namedPlaceholders.add(argument));
+
+  return Ok([...namedPlaceholders, ...unnumberedPlaceholders].sort());
+}
+
+function findReferenceTranslation(
+  referenceTranslations: Map<string, string>,
+  key: string
+): string | undefined {
+  const reference = referenceTranslations.get(key);
+  if (reference !== undefined) return reference;
+
+  const pluralMatch = key.match(/^(.*)\[\w+]$/);
+  return pluralMatch
+    ? referenceTranslations.get(`${pluralMatch[1]}[other]`)
+    : undefined;
+}
+
+function comparePlaceholders(
+  expected: string[],
+  actual: string[]
+): Omit<PlaceholderIssue, 'key' | 'locale'>[] {
+  const remaining = [...actual];
+  const missing: string[] = [];
+
+  for (const placeholder of expected) {
+    const index = remaining.indexOf(placeholder);
+
+    if (index === -1) {
+      missing.push(placeholder);
+    } else {
+      remaining.splice(index, 1);
+    }
+  }
+
+  return [
+    ...missing.map(placeholder => ({
+      type: 'missing' as const,
+      message: `Missing placeholder ${placeholder}`,
+    })),
+    ...remaining.map(placeholder => ({
+      type: 'unexpected' as const,
+      message: `Unexpected placeholder ${placeholder}`,
+    })),
+  ];
+}
+
+const pluralTypes = ['plural', 'selectordinal'];
+const simpleArgumentTypes = [
+  'number',
+  'date',
+  'time',
+  'spellout',
+  'ordinal',
+  'duration',
+];
+
+/**
+ * A minimal ICU MessageFormat parser, only collecting the arguments of a message.
+ */
+class IcuParser {
+  private position = 0;
+  readonly arguments: string[] = [];
+
+  constructor(private readonly text: string) {}
+
+  parseMessage(depth: number, inPlural: boolean) {
+    while (this.position < this.text.length) {
+      const char = this.text[this.position];
+
+      if (char === "'") {
+        this.skipQuoted(inPlural);
+      } else if (char === '{') {
+        this.parseArgument(depth);
+      } else if (char === '}') {
+        if (depth === 0) {
+          this.fail(`Unexpected '}' at position ${this.position + 1}`);
+        }
+        return;
+      } else {
+        this.position++;
+      }
+    }
+
+    if (depth > 0) {
+      this.fail(`Unclosed '{' in message`);
+    }
+  }
+
+  private parseArgument(depth: number) {
+    const start = this.position;
+    this.position++;
+    const name = this.readToken(/[^\s,{}]/);
+
+    if (!name) {
+      this.fail(`Empty argument at position ${start + 1}`);
+    }
+    if (this.position >= this.text.length) {
+      this.fail(`Unclosed argument '${name}'`);
+    }
+    if (this.consume('}')) {
+      this.arguments.push(`{${name}}`);
+      return;
+    }
+    if (!this.consume(',')) {
+      this.fail(`Invalid argument '${name}' at position ${start + 1}`);
+    }
+
+    const type = this.readToken(/\w/);
+
+    if (this.consume('}')) {
+      this.assertArgumentType(type, start);
+      this.arguments.push(`{${name}, ${type}}`);
+      return;
+    }
+    if (!this.consume(',')) {
+      this.fail(`Invalid argument '${name}' at position ${start + 1}`);
+    }
+
+    if (pluralTypes.includes(type) || type === 'select') {
+      this.arguments.push(`{${name}, ${type}}`);
+      this.parseOptions(name, pluralTypes.includes(type), depth);
+      return;
+    }
+
+    this.assertArgumentType(type, start);
+    this.arguments.push(`{${name}, ${type}}`);
+    // The style of simple arguments, e.g. `::currency/EUR`, is not validated.
+    while (
+      this.position < this.text.length &&
+      this.text[this.position] !== '}'
+    ) {
+      if (this.text[this.position] === '{') {
+        this.fail(`Unexpected '{' at position ${this.position + 1}`);
+      }
+      this.position++;
+    }
+    if (!this.consume('}')) {
+      this.fail(`Unclosed argument '${name}'`);
+    }
+  }
+
+  private parseOptions(name: string, isPlural: boolean, depth: number) {
+    const selectors: string[] = [];
+
+    if (isPlural && this.text.startsWith('offset:', this.skipWhitespace())) {
+      this.position += 'offset:'.length;
+      this.skipWhitespace();
+      if (!this.readToken(/\d/)) {
+        this.fail(`Invalid offset in argument '${name}'`);
+      }
+    }
+
+    while (this.position < this.text.length) {
+      this.skipWhitespace();
+      if (this.consume('}')) break;
+
+      const selector = this.readToken(isPlural ? /[=\w]/ : /[\w-]/);
+
+      if (!selector) {
+        this.fail(
+          `Invalid selector in argument '${name}' at position ${this.position + 1}`
+        );
+      }
+      this.skipWhitespace();
+      if (!this.consume('{')) {
+        this.fail(`Missing message for selector '${selector}' of '${name}'`);
+      }
+      this.parseMessage(depth + 1, isPlural);
+      if (!this.consume('}')) {
+        this.fail(`Unclosed '{' in selector '${selector}' of '${name}'`);
+      }
+      selectors.push(selector);
+
+      if (this.position >= this.text.length) {
+        this.fail(`Unclosed argument '${name}'`);
+      }
+    }
+
+    if (!selectors.includes('other')) {
+      this.fail(`Argument '${name}' is missing the 'other' selector`);
+    }
+  }
+
+  /**
+   * Apostrophes only start a quoted literal when followed by a special character,
+   * a double apostrophe is an escaped apostrophe.
+   */
+  private skipQuoted(inPlural: boolean) {
+    const next = this.text[this.position + 1];
+
+    if (next === "'") {
+      this.position += 2;
+    } else if (next === '{' || next === '}' || (inPlural && next === '#')) {
+      const end = this.text.indexOf("'", this.position + 1);
+      this.position = end === -1 ? this.text.length : end + 1;
+    } else {
+      this.position++;
+    }
+  }
+
+  private assertArgumentType(type: string, start: number) {
+    if (!simpleArgumentTypes.includes(type)) {
+      this.fail(`Unknown argument type '${type}' at position ${start + 1}`);
+    }
+  }
+
+  private readToken(expression: RegExp): string {
+    this.skipWhitespace();
+    const start = this.position;
+
+    while (
+      this.position < this.text.length &&
+      expression.test(this.text[this.position])
+    ) {
+      this.position++;
+    }
+    const token = this.text.slice(start, this.position);
+    this.skipWhitespace();
+
+    return token;
+  }
+
+  private consume(char: string): boolean {
+    if (this.text[this.position] !== char) return false;
+
+    this.position++;
+    return true;
+  }
+
+  private skipWhitespace(): number {
+    while (/\s/.test(this.text[this.position] ?? '')) {
+      this.position++;
+    }
+    return this.position;
+  }
+
+  private fail(message: string): never {
+    throw new IcuSyntaxError(message);
+  }
+}
+
+class IcuSyntaxError extends Error {}
+
+function parseIcuMessage(text: string): Result<string[]> {
+  const parser = new IcuParser(text);
+
+  try {
+    parser.parseMessage(0, false);
+  } catch (error) {
+    if (error instanceof IcuSyntaxError) {
+      return Err(`Invalid ICU message: ${error.message}`);
+    }
+    throw error;
+  }
+
+  return Ok(parser.arguments);
+}
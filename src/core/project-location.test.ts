@@ -0,0 +1,159 @@
+import {
+  extractProjectConfigFromEnv,
+  extractProjectIdentity,
+  getLocalFileEntries,
+} from '@/core/project-location';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'labeleer-'));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(root, { recursive: true, force: true });
+});
+
+async function addFiles(...paths: string[]) {
+  for (const path of paths) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), '');
+  }
+}
+
+describe('extractProjectIdentity', () => {
+  it.each([
+    ['abc123::json@./src', 'abc123', SupportedFormat.JSON, './src'],
+    [
+      'my-project_2::yaml@config',
+      'my-project_2',
+      SupportedFormat.YAML,
+      'config',
+    ],
+    ['p::android_strings@', 'p', SupportedFormat.ANDROID_STRINGS, '.'],
+  ])('reads %s', (input, projectId, type, basePath) => {
+    expect(extractProjectIdentity(input)).toEqual({
+      success: true,
+      value: { projectId, type, basePath },
+    });
+  });
+
+  it.each(Object.values(SupportedFormat))('accepts the %s format', format => {
+    expect(extractProjectIdentity(`abc::${format}@.`)).toMatchObject({
+      success: true,
+      value: { type: format },
+    });
+  });
+
+  it.each([
+    undefined,
+    '',
+    'abc123',
+    'abc123::json',
+    'abc123::docx@.',
+    'abc 123::json@.',
+    'abc123:json@.',
+  ])('rejects %s', input => {
+    expect(extractProjectIdentity(input)).toEqual({
+      success: false,
+      error:
+        'Invalid project identity. Expected format is "<projectId>::<projectType>@<label file base path>"',
+    });
+  });
+});
+
+describe('extractProjectConfigFromEnv', () => {
+  it.each([
+    [SupportedFormat.JSON, ['src/labels.json']],
+    [SupportedFormat.YAML, ['config/strings.yml']],
+    [SupportedFormat.XCSTRINGS, ['App/Localizable.xcstrings']],
+    [SupportedFormat.PO, ['locales/de/messages.po', 'locales/fr/messages.po']],
+    [SupportedFormat.TS, ['i18n/labels_de.ts', 'i18n/labels_fr.ts']],
+    [SupportedFormat.XLIFF, ['i18n/de.xlf', 'i18n/fr.xliff']],
+    [
+      SupportedFormat.APPLE_STRINGS,
+      ['de.lproj/Localizable.strings', 'fr.lproj/Localizable.strings'],
+    ],
+    [
+      SupportedFormat.ANDROID_STRINGS,
+      ['res/values-de/strings.xml', 'res/values/strings.xml'],
+    ],
+  ])(
+    'discovers the %s label files under the base path',
+    async (format, paths) => {
+      await addFiles(...paths);
+      vi.stubEnv('LABELEER_PROJECT', `abc::${format}@${root}`);
+
+      expect(await extractProjectConfigFromEnv()).toEqual({
+        success: true,
+        value: {
+          type: format,
+          projectId: 'abc',
+          basePath: root,
+          labelFiles: paths.map(path => join(root, path)),
+        },
+      });
+    }
+  );
+
+  it('rejects missing and ambiguous label files', async () => {
+    vi.stubEnv('LABELEER_PROJECT', `abc::json@${root}`);
+    expect(await extractProjectConfigFromEnv()).toEqual({
+      success: false,
+      error: `Unable to locate any label files under '${root}'.`,
+    });
+
+    await addFiles('a/labels.json', 'b/labels.json');
+    expect((await extractProjectConfigFromEnv()).success).toBe(false);
+  });
+});
+
+describe('getLocalFileEntries', () => {
+  it('maps single file formats onto a single entry', () => {
+    expect(
+      getLocalFileEntries({
+        type: SupportedFormat.JSON,
+        projectId: 'abc',
+        basePath: '.',
+        labelFiles: ['labels.json'],
+      })
+    ).toEqual([{ locale: '*', path: 'labels.json' }]);
+  });
+
+  it('infers the locale of every per-locale file', () => {
+    expect(
+      getLocalFileEntries({
+        type: SupportedFormat.ANDROID_STRINGS,
+        projectId: 'abc',
+        basePath: '.',
+        labelFiles: [
+          'res/values-de/strings.xml',
+          'res/values-pt-rBR/strings.xml',
+          'res/values/strings.xml',
+          'res/values-night/strings.xml',
+        ],
+      })
+    ).toEqual([
+      { locale: 'de_DE', path: 'res/values-de/strings.xml' },
+      { locale: 'pt_BR', path: 'res/values-pt-rBR/strings.xml' },
+      { locale: 'reference', path: 'res/values/strings.xml' },
+    ]);
+    expect(
+      getLocalFileEntries({
+        type: SupportedFormat.TS,
+        projectId: 'abc',
+        basePath: '.',
+        labelFiles: ['i18n/labels_fr.ts', 'i18n/labels_nl_NL.ts'],
+      })
+    ).toEqual([
+      { locale: 'fr_FR', path: 'i18n/labels_fr.ts' },
+      { locale: 'nl_NL', path: 'i18n/labels_nl_NL.ts' },
+    ]);
+  });
+});
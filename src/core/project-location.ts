@@ -1,8 +1,19 @@
+import { findLabelFiles, getGlobConfig } from '@/core/file-discovery';
+import {
+  inferLocaleFromPath,
+  isDefaultResourcePath,
+  REFERENCE_LOCALE_ENTRY,
+} from '@/core/project-setup';
 import { Err, Ok, type Result } from '@/core/result';
+import { getExtensionsGlobPattern } from '@/files';
 import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import { glob } from 'glob';
+import type { LocalFileEntry } from 'labeleer-cli';
+import { resolve } from 'path';
 
 type ProjectConfigBase<T extends SupportedFormat> = {
   type: T;
+  projectId: string;
   basePath: string;
   labelFiles: [string, ...string[]];
 };
@@ -37,7 +48,7 @@ export interface ProjectIdentity {
 }
 
 const projectIdentityPattern = new RegExp(
-  `^(\w+)::(${Object.values(SupportedFormat).join('|')})@(.*)$`
+  `^([\\w-]+)::(${Object.values(SupportedFormat).join('|')})@(.*)$`
 );
 
 export function extractProjectIdentity(
@@ -55,39 +66,229 @@ export function extractProjectIdentity(
   return Ok({
     type: fmt as SupportedFormat,
     projectId,
-    basePath,
+    basePath: basePath || '.',
   });
 }
 
-export function extractProjectConfigFromEnv(): Result<ProjectConfig> {
+/**
+ * Resolves the project configuration from the `LABELEER_PROJECT` environment variable,
+ * e.g. `LABELEER_PROJECT=abc123::android_strings@./app/src/main/res`.
+ * The label files are discovered under the base path of the identity, where JSON, YAML
+ * and TS files follow the `discovery` settings, e.g. `labels.json` or `labels_de.ts`.
+ */
+export async function extractProjectConfigFromEnv(): Promise<
+  Result<ProjectConfig>
+> {
   const identity = extractProjectIdentity(process.env.LABELEER_PROJECT);
 
   if (!identity.success) return identity;
   const config = identity.value;
 
-  return configLookupMap[config.type]?.(config) ?? Err('Not supported');
+  return await configLookupMap[config.type](config);
+}
+
+/**
+ * Whether the `LABELEER_PROJECT` environment variable is set.
+ */
+export function hasProjectIdentityInEnv(): boolean {
+  return !!process.env.LABELEER_PROJECT;
 }
 
-type LookupFn = (identity: ProjectIdentity) => Result<ProjectConfig>;
+/**
+ * Converts the discovered label files into entries per locale.
+ * Formats that keep every locale in a single file map onto a single `'*'` entry.
+ */
+export function getLocalFileEntries(config: ProjectConfig): LocalFileEntry[] {
+  if (!perLocaleFormats.includes(config.type)) {
+    return [{ locale: '*', path: config.labelFiles[0] }];
+  }
+
+  return config.labelFiles
+    .map((path): LocalFileEntry | undefined => {
+      const locale = isDefaultResourcePath(path, config.type)
+        ? REFERENCE_LOCALE_ENTRY
+        : inferLocaleFromPath(path, config.type);
+
+      return locale ? { locale, path } : undefined;
+    })
+    .filter(entry => !!entry);
+}
 
-const configLookupMap: Partial<Record<SupportedFormat, LookupFn>> = {
+type LookupFn = (identity: ProjectIdentity) => Promise<Result<ProjectConfig>>;
+
+const configLookupMap: Record<SupportedFormat, LookupFn> = {
   [SupportedFormat.JSON]: resolveJsonProjectConfig,
   [SupportedFormat.XCSTRINGS]: resolveXCStringsProjectConfig,
   [SupportedFormat.YAML]: resolveYamlProjectConfig,
+  [SupportedFormat.PO]: resolvePOProjectConfig,
+  [SupportedFormat.TS]: resolveTsProjectConfig,
+  [SupportedFormat.XLIFF]: resolveXLIFFProjectConfig,
+  [SupportedFormat.APPLE_STRINGS]: resolveAppleStringsProjectConfig,
+  [SupportedFormat.ANDROID_STRINGS]: resolveAndroidStringsProjectConfig,
 };
 
-function resolveJsonProjectConfig(
+/**
+ * Formats that keep a single locale per file.
+ */
+const perLocaleFormats: SupportedFormat[] = [
+  SupportedFormat.PO,
+  SupportedFormat.TS,
+  SupportedFormat.XLIFF,
+  SupportedFormat.APPLE_STRINGS,
+  SupportedFormat.ANDROID_STRINGS,
+];
+
+async function resolveJsonProjectConfig(
+  identity: ProjectIdentity
+): Promise<Result<JsonProjectConfig>> {
+  return resolveSingleFileProjectConfig(
+    identity,
+    SupportedFormat.JSON,
+    await findLabelFiles([SupportedFormat.JSON], resolve(identity.basePath))
+  );
+}
+
+async function resolveXCStringsProjectConfig(
   identity: ProjectIdentity
-): Result<JsonProjectConfig>;
+): Promise<Result<XCStringsProjectConfig>> {
+  return resolveSingleFileProjectConfig(
+    identity,
+    SupportedFormat.XCSTRINGS,
+    await findFiles(identity.basePath, '**/*.xcstrings')
+  );
+}
+
+async function resolveYamlProjectConfig(
+  identity: ProjectIdentity
+): Promise<Result<YamlProjectConfig>> {
+  return resolveSingleFileProjectConfig(
+    identity,
+    SupportedFormat.YAML,
+    await findLabelFiles([SupportedFormat.YAML], resolve(identity.basePath))
+  );
+}
+
+async function resolvePOProjectConfig(
+  identity: ProjectIdentity
+): Promise<Result<PoProjectConfig>> {
+  return resolvePerLocaleProjectConfig(
+    identity,
+    SupportedFormat.PO,
+    await findFiles(
+      identity.basePath,
+      `**/*.${getExtensionsGlobPattern([SupportedFormat.PO])}`
+    )
+  );
+}
+
+async function resolveTsProjectConfig(
+  identity: ProjectIdentity
+): Promise<Result<TsProjectConfig>> {
+  return resolvePerLocaleProjectConfig(
+    identity,
+    SupportedFormat.TS,
+    await findLabelFiles([SupportedFormat.TS], resolve(identity.basePath), {
+      localeSuffixes: true,
+    })
+  );
+}
+
+async function resolveXLIFFProjectConfig(
+  identity: ProjectIdentity
+): Promise<Result<XLIFFProjectConfig>> {
+  return resolvePerLocaleProjectConfig(
+    identity,
+    SupportedFormat.XLIFF,
+    await findFiles(
+      identity.basePath,
+      `**/*.${getExtensionsGlobPattern([SupportedFormat.XLIFF])}`
+    )
+  );
+}
 
-function resolveXCStringsProjectConfig(
+async function resolveAppleStringsProjectConfig(
   identity: ProjectIdentity
-): Result<XCStringsProjectConfig>;
+): Promise<Result<AppleStringsProjectConfig>> {
+  return resolvePerLocaleProjectConfig(
+    identity,
+    SupportedFormat.APPLE_STRINGS,
+    await findFiles(identity.basePath, '**/*.lproj/Localizable.strings')
+  );
+}
 
-function resolveYamlProjectConfig(
+async function resolveAndroidStringsProjectConfig(
   identity: ProjectIdentity
-): Result<YamlProjectConfig>;
+): Promise<Result<AndroidStringsProjectConfig>> {
+  return resolvePerLocaleProjectConfig(
+    identity,
+    SupportedFormat.ANDROID_STRINGS,
+    await findFiles(identity.basePath, '**/values*/strings.xml')
+  );
+}
+
+/**
+ * Resolves a format that keeps every locale in a single file.
+ * Fails if the base path holds more than one candidate, as the choice would be arbitrary.
+ */
+function resolveSingleFileProjectConfig<T extends SupportedFormat>(
+  identity: ProjectIdentity,
+  type: T,
+  paths: string[]
+): Result<ProjectConfigBase<T>> {
+  const labelFiles = requireLabelFiles(identity.basePath, paths);
+
+  if (!labelFiles.success) return labelFiles;
+
+  if (labelFiles.value.length > 1) {
+    return Err(
+      `Found multiple label files under '${identity.basePath}': ${labelFiles.value.join(', ')}. Narrow down the base path in LABELEER_PROJECT.`
+    );
+  }
+
+  return Ok({
+    type,
+    projectId: identity.projectId,
+    basePath: identity.basePath,
+    labelFiles: labelFiles.value,
+  });
+}
+
+function resolvePerLocaleProjectConfig<T extends SupportedFormat>(
+  identity: ProjectIdentity,
+  type: T,
+  paths: string[]
+): Result<ProjectConfigBase<T>> {
+  const labelFiles = requireLabelFiles(identity.basePath, paths);
 
-const resolvePOProjectConfig: LookupFn = (
-  identity
-): Result<PoProjectConfig> => {};
+  if (!labelFiles.success) return labelFiles;
+
+  return Ok({
+    type,
+    projectId: identity.projectId,
+    basePath: identity.basePath,
+    labelFiles: labelFiles.value,
+  });
+}
+
+/**
+ * Finds the files of formats with a fixed structure, such as `*.lproj/Localizable.strings`,
+ * rather than a file name.
+ */
+async function findFiles(basePath: string, pattern: string): Promise<string[]> {
+  const paths = await glob(pattern, getGlobConfig(resolve(basePath)));
+
+  return paths.sort();
+}
+
+function requireLabelFiles(
+  basePath: string,
+  paths: string[]
+): Result<[string, ...string[]]> {
+  const [first, ...rest] = paths;
+
+  if (!first) {
+    return Err(`Unable to locate any label files under '${basePath}'.`);
+  }
+
+  return Ok([first, ...rest]);
+}
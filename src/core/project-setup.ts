@@ -1,69 +1,248 @@
+import { findLabelFiles, getGlobConfig } from '@/core/file-discovery';
+import { isPseudoLocale, pseudoLocales } from '@/core/pseudo-localization';
 import { Err, Ok, type Result } from '@/core/result';
 import { getFileNameForFormat } from '@/formatting';
 import { theme } from '@/utils';
 import { select } from '@inquirer/prompts';
 import {
-  getFileExtensionsFromFormat,
   SupportedFormat,
   Locales,
+  type Locale,
   isBCP47Locale,
   isISO639_1LanguageCode,
   isLocale,
   iso639_1ToLocale,
   toPOSIX,
 } from '@labeleer/translation-dataset-transformers';
+import { readFileSync } from 'fs';
 import { readFile, stat, writeFile } from 'fs/promises';
-import { glob, type GlobOptionsWithFileTypesUnset } from 'glob';
-import { join } from 'path';
+import { glob } from 'glob';
+import type { LabelLayout, PartialConfig, ProjectConfig } from 'labeleer-cli';
+import { join, relative, resolve } from 'path';
 import { z } from 'zod';
 
 const PROJECT_FILE_NAME = 'labeleer.json';
-const GLOB_IGNORE_PATTERNS = [
-  'node_modules',
-  'dist',
-  'build',
-  'out',
-  'coverage',
-  '.tmp',
-  '.gradle',
-  'DerivedData',
-  'Pods',
-  'xcuserdata',
-  '.git',
-  '.idea',
-  'reports',
-  '__tests__',
-];
+/**
+ * The locale of a path entry that holds the reference locale of the project,
+ * whichever locale that is, e.g. the default `values/strings.xml` of Android.
+ */
+export const REFERENCE_LOCALE_ENTRY = 'reference';
 
+/**
+ * Normalizes language codes, BCP 47 tags and POSIX locales to POSIX locales.
+ * Pseudo locales such as `en-XA` are accepted as well, although they are not
+ * part of the locales the transformers know.
+ */
 export const LocaleDecoder = z
   .string()
   .transform(val =>
-    isISO639_1LanguageCode(val)
-      ? iso639_1ToLocale(val)
-      : isLocale(val)
-        ? val
-        : isBCP47Locale(val)
-          ? toPOSIX(val)
-          : undefined
+    isPseudoLocale(val.replace('-', '_'))
+      ? (val.replace('-', '_') as Locale)
+      : isISO639_1LanguageCode(val)
+        ? iso639_1ToLocale(val)
+        : isLocale(val)
+          ? val
+          : isBCP47Locale(val)
+            ? toPOSIX(val)
+            : undefined
   )
   .refine(val => !!val, {
     message: 'Invalid locale format',
   });
 
-const ProjectSetupDecoder = z.object({
-  variant: z.enum(SupportedFormat),
-  paths: z
-    .array(
-      z.object({
-        locale: z.enum([...Locales, '*']),
-        path: z.string(),
-      })
-    )
-    .min(1),
+/**
+ * The layouts the i18n frameworks use by default. A configured pattern
+ * or structure takes precedence over the preset.
+ */
+const layoutPresets = {
+  i18next: {
+    pattern: 'locales/{locale}/{namespace}.json',
+    structure: 'nested',
+    pluralSuffixes: true,
+  },
+  'vue-i18n': {
+    pattern: 'src/locales/{locale}.json',
+    structure: 'nested',
+    pluralSuffixes: false,
+  },
+  'react-intl': {
+    pattern: 'lang/{locale}.json',
+    structure: 'flat',
+    pluralSuffixes: false,
+  },
+} as const satisfies Record<string, Omit<LabelLayout, 'separator'>>;
+
+const LabelLayoutDecoder = z
+  .object({
+    preset: z
+      .enum(Object.keys(layoutPresets) as (keyof typeof layoutPresets)[])
+      .optional(),
+    pattern: z.string().optional(),
+    structure: z.enum(['nested', 'flat']).optional(),
+    separator: z.string().min(1).optional(),
+    pluralSuffixes: z.boolean().optional(),
+  })
+  .refine(layout => layout.preset || layout.pattern, {
+    message: 'Expected a preset or a pattern',
+  })
+  .refine(layout => !layout.pattern || layout.pattern.includes('{locale}'), {
+    message: 'Expected the pattern to contain {locale}',
+  });
+
+/**
+ * Where label files are looked for when they are not configured through `paths` or a `layout`.
+ */
+const DiscoverySetupDecoder = z.object({
+  /**
+   * Globs of the label files, replacing the search by file name.
+   */
+  include: z.array(z.string().min(1)).min(1).optional(),
+  /**
+   * Globs of files and directories to skip, in addition to `.gitignore`.
+   */
+  exclude: z.array(z.string().min(1)).optional(),
+  /**
+   * Names of the label files without extension, `labels` and `strings` by default.
+   */
+  fileNames: z.array(z.string().min(1)).min(1).optional(),
 });
 
+const ProjectSetupDecoder = z
+  .object({
+    $schema: z.string().optional(),
+    variant: z.enum(SupportedFormat),
+    paths: z
+      .array(
+        z.object({
+          locale: z.enum([
+            ...Locales,
+            ...Object.keys(pseudoLocales),
+            '*',
+            REFERENCE_LOCALE_ENTRY,
+          ]),
+          path: z.string(),
+        })
+      )
+      .min(1)
+      .optional(),
+    /**
+     * A framework-native layout of JSON label files, used instead of `paths`.
+     */
+    layout: LabelLayoutDecoder.optional(),
+    discovery: DiscoverySetupDecoder.optional(),
+    /**
+     * The credential profile to use, see `labeleer-cli login --profile`.
+     */
+    profile: z.string().optional(),
+    /**
+     * Where the `scan` command looks for key references in the source code.
+     */
+    scan: z
+      .object({
+        include: z.array(z.string()).optional(),
+        exclude: z.array(z.string()).optional(),
+        patterns: z.array(z.string()).optional(),
+      })
+      .optional(),
+    /**
+     * Where the `codegen` command writes the label types,
+     * and whether they are regenerated after every pull.
+     */
+    codegen: z
+      .object({
+        output: z.string().regex(/\.ts$/, 'Expected a .ts or .d.ts file'),
+        afterPull: z.boolean().optional(),
+      })
+      .optional(),
+    /**
+     * The command that fills missing translations, see `translate --missing`.
+     */
+    translate: z
+      .object({
+        command: z.string().min(1),
+        timeout: z.number().int().positive().optional(),
+      })
+      .optional(),
+    /**
+     * How many snapshots of the local labels are kept in `.labeleer/history`, see `history`.
+     * `0` disables the snapshots.
+     */
+    history: z
+      .object({
+        limit: z.number().int().nonnegative(),
+      })
+      .optional(),
+  })
+  .refine(setup => setup.paths || setup.layout, {
+    message: 'Expected paths or a layout',
+  });
+
 export type ProjectSetup = z.infer<typeof ProjectSetupDecoder> & {};
-export type ProjectPathEntry = ProjectSetup['paths'][number] & {};
+export type ProjectPathEntry = NonNullable<ProjectSetup['paths']>[number] & {};
+export type LabelLayoutSetup = NonNullable<ProjectSetup['layout']>;
+export type DiscoverySetup = z.infer<typeof DiscoverySetupDecoder> & {};
+
+/**
+ * Describes `labeleer.json` as JSON Schema, so editors can validate and complete it.
+ * Values that the decoder normalizes, such as locales, are described as they are written.
+ */
+export function getProjectSetupJsonSchema(): Record<string, unknown> {
+  return {
+    ...z.toJSONSchema(ProjectSetupDecoder, {
+      io: 'input',
+      unrepresentable: 'any',
+    }),
+    title: 'Labeleer project setup',
+    description: `The ${PROJECT_FILE_NAME} of a project synchronized with labeleer-cli.`,
+  };
+}
+
+/**
+ * Applies the preset of a configured layout, see {@link layoutPresets}.
+ */
+export function resolveLabelLayout(setup: LabelLayoutSetup): LabelLayout {
+  const preset = setup.preset ? layoutPresets[setup.preset] : undefined;
+
+  return {
+    pattern: setup.pattern ?? preset?.pattern ?? '',
+    structure: setup.structure ?? preset?.structure ?? 'nested',
+    separator: setup.separator ?? '.',
+    pluralSuffixes: setup.pluralSuffixes ?? preset?.pluralSuffixes ?? false,
+  };
+}
+
+/**
+ * Creates the project configuration from the project setup. The paths are resolved
+ * against the current working directory. With a layout, the pattern takes the place
+ * of the label file path, as the files are found through it.
+ */
+export function createConfigFromSetup(
+  partialConfig: PartialConfig,
+  setup: ProjectSetup
+): ProjectConfig {
+  if (setup.layout) {
+    const layout = resolveLabelLayout(setup.layout);
+
+    return {
+      ...partialConfig,
+      localFilePath: resolve(layout.pattern),
+      format: SupportedFormat.JSON,
+      layout,
+    };
+  }
+
+  const localFiles = (setup.paths ?? []).map(entry => ({
+    locale: entry.locale,
+    path: resolve(entry.path),
+  }));
+
+  return {
+    ...partialConfig,
+    localFilePath: localFiles[0].path,
+    localFiles,
+    format: setup.variant,
+  };
+}
 
 export async function getProjectSetup(): Promise<Result<ProjectSetup>> {
   if (!(await hasProjectSetupFile())) {
@@ -84,8 +263,16 @@ export async function createProjectSetup(
   variant: SupportedFormat,
   paths: ProjectPathEntry[]
 ): Promise<Result<ProjectSetup>> {
-  if (await hasProjectSetupFile()) {
-    return getProjectSetup();
+  const existingSetup = await getProjectSetup();
+  const discovery = readDiscoverySetup();
+  // A labeleer.json with only discovery settings is completed rather than kept.
+  const hasDiscoverySetup = Object.keys(discovery).length > 0;
+
+  if (
+    existingSetup.success ||
+    ((await hasProjectSetupFile()) && !hasDiscoverySetup)
+  ) {
+    return existingSetup;
   }
   if (paths.length === 0) {
     return Err('Project configuration file not found');
@@ -93,14 +280,49 @@ export async function createProjectSetup(
 
   const setup: ProjectSetup = {
     variant,
-    paths,
+    paths: paths.map(entry => ({
+      ...entry,
+      path: relative(process.cwd(), entry.path),
+    })),
+    ...(hasDiscoverySetup && { discovery }),
   };
 
-  await writeFile(getProjectConfigFilePath(), JSON.stringify(setup));
+  await writeProjectSetup(setup);
 
   return Ok(setup);
 }
 
+/**
+ * Replaces the paths of the project setup, e.g. after label files
+ * for new locales have been created.
+ */
+export async function updateProjectSetupPaths(
+  paths: { locale: string; path: string }[]
+): Promise<Result<ProjectSetup>> {
+  const setup = await getProjectSetup();
+
+  if (!setup.success) return setup;
+
+  const updatedSetup: ProjectSetup = {
+    ...setup.value,
+    paths: paths.map(entry => ({
+      locale: entry.locale,
+      path: relative(process.cwd(), entry.path),
+    })),
+  };
+
+  await writeProjectSetup(updatedSetup);
+
+  return Ok(updatedSetup);
+}
+
+async function writeProjectSetup(setup: ProjectSetup): Promise<void> {
+  await writeFile(
+    getProjectConfigFilePath(),
+    `${JSON.stringify(setup, null, 2)}\n`
+  );
+}
+
 export async function tryInquireProjectSetup(): Promise<
   Result<ProjectSetup | undefined>
 > {
@@ -146,7 +368,7 @@ async function tryLocaleFilePathsForVariant(
     case SupportedFormat.JSON:
     case SupportedFormat.YAML:
     case SupportedFormat.XCSTRINGS:
-      return [await tryFindSingularPath(format)];
+      return await tryFindSingularPath(format);
     case SupportedFormat.TS:
       return await tryResolveTs();
     case SupportedFormat.XLIFF:
@@ -164,16 +386,11 @@ async function tryResolveAppleStrings(): Promise<ProjectPathEntry[]> {
 
   return paths
     .map((path): ProjectPathEntry | undefined => {
-      const segment = path.split('/').find(seg => seg.endsWith('.lproj'));
-
-      if (!segment) return;
+      const locale = inferLocaleFromPath(path, SupportedFormat.APPLE_STRINGS);
 
-      const localeString = segment.replace('.lproj', '');
-      const result = LocaleDecoder.safeParse(localeString);
+      if (!locale) return;
 
-      if (!result.success || !result.data) return;
-
-      return { locale: result.data, path };
+      return { locale, path };
     })
     .filter(entry => !!entry);
 }
@@ -183,24 +400,99 @@ async function tryResolveAndroidStrings(): Promise<ProjectPathEntry[]> {
 
   return results
     .map((path: string): ProjectPathEntry | undefined => {
-      const segment = path.split('/').at(-2);
-
-      const result = LocaleDecoder.safeParse(segment);
+      const locale = isDefaultResourcePath(
+        path,
+        SupportedFormat.ANDROID_STRINGS
+      )
+        ? REFERENCE_LOCALE_ENTRY
+        : inferLocaleFromPath(path, SupportedFormat.ANDROID_STRINGS);
 
-      if (!result.success || !result.data) return;
+      if (!locale) return;
 
-      return { locale: result.data, path };
+      return { locale, path };
     })
     .filter(entry => !!entry);
 }
 
-// TODO: Implement
+/**
+ * Whether the file holds the default resources of an Android project, `values/strings.xml`.
+ * These are in the reference locale, as they are what the app falls back to.
+ */
+export function isDefaultResourcePath(
+  path: string,
+  format: SupportedFormat
+): boolean {
+  return (
+    format === SupportedFormat.ANDROID_STRINGS &&
+    path.split(/[\\/]/).at(-2) === 'values'
+  );
+}
+
+/**
+ * Infers the locale of a per-locale label file from its path,
+ * e.g. `de.lproj/Localizable.strings`, `values-de/strings.xml`,
+ * `locales/de/messages.po` or `labels_de.ts`.
+ * The default `values/strings.xml` of Android holds the reference locale, when provided.
+ */
+export function inferLocaleFromPath(
+  path: string,
+  format: SupportedFormat,
+  referenceLocale?: string
+): Locale | undefined {
+  if (isDefaultResourcePath(path, format)) {
+    return referenceLocale as Locale | undefined;
+  }
+
+  const segments = path.split(/[\\/]/);
+  const candidates: (string | undefined)[] = [];
+
+  switch (format) {
+    case SupportedFormat.APPLE_STRINGS:
+      candidates.push(
+        segments.find(seg => seg.endsWith('.lproj'))?.replace('.lproj', '')
+      );
+      break;
+    case SupportedFormat.ANDROID_STRINGS:
+      candidates.push(
+        segments
+          .at(-2)
+          ?.replace(/^values-/, '')
+          .replace(/-r([A-Z]{2})$/, '-$1')
+      );
+      break;
+    default: {
+      const stem = segments.at(-1)?.replace(/\.[^.]+$/, '');
+      candidates.push(
+        stem,
+        stem?.match(/(?:^|[_.-])([a-z]{2}(?:[_-][A-Z]{2})?)$/)?.[1],
+        ...segments.slice(0, -1).reverse()
+      );
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+
+    const result = LocaleDecoder.safeParse(candidate);
+
+    if (result.success && result.data) return result.data;
+  }
+
+  return undefined;
+}
+
 async function tryResolveTs(): Promise<ProjectPathEntry[]> {
-  const results = await glob('**/labels.ts', getGlobConfig());
+  const results = await findLabelFiles([SupportedFormat.TS], undefined, {
+    localeSuffixes: true,
+  });
 
   return results
     .map((path: string): ProjectPathEntry | undefined => {
-      return { locale: '*', path };
+      const locale = inferLocaleFromPath(path, SupportedFormat.TS);
+
+      if (!locale) return;
+
+      return { locale, path };
     })
     .filter(entry => !!entry);
 }
@@ -210,18 +502,15 @@ async function tryResolveTs(): Promise<ProjectPathEntry[]> {
  */
 async function tryFindSingularPath(
   format: SupportedFormat
-): Promise<ProjectPathEntry> {
-  const extensionsPattern = `{${getFileExtensionsFromFormat(format).join(',')}}`;
-
-  const pattern: string = `**/labels.${extensionsPattern}`;
-  const [firstResult] = await glob(pattern, getGlobConfig());
+): Promise<ProjectPathEntry[]> {
+  const [firstResult] = await findLabelFiles([format]);
 
-  return { locale: '*', path: firstResult };
+  return firstResult ? [{ locale: '*', path: firstResult }] : [];
 }
 
-export function getProjectConfigFilePath(): string {
-  const basePath = process.cwd();
-
+export function getProjectConfigFilePath(
+  basePath: string = process.cwd()
+): string {
   return join(basePath, PROJECT_FILE_NAME);
 }
 
@@ -233,6 +522,26 @@ export async function hasProjectSetupFile(): Promise<boolean> {
   return await fsExists(getProjectConfigFilePath());
 }
 
+/**
+ * Reads the `discovery` settings of `labeleer.json`. These apply before the project
+ * has been set up, so the rest of the file is not validated, and an invalid
+ * or missing file results in the default settings.
+ */
+export function readDiscoverySetup(
+  basePath: string = process.cwd()
+): DiscoverySetup {
+  try {
+    const content = JSON.parse(
+      readFileSync(getProjectConfigFilePath(basePath), 'utf-8')
+    ) as { discovery?: unknown };
+    const discovery = DiscoverySetupDecoder.safeParse(content.discovery ?? {});
+
+    return discovery.success ? discovery.data : {};
+  } catch {
+    return {};
+  }
+}
+
 async function fsExists(path: string): Promise<boolean> {
   try {
     await stat(path);
@@ -241,12 +550,3 @@ async function fsExists(path: string): Promise<boolean> {
     return false;
   }
 }
-
-function getGlobConfig(): GlobOptionsWithFileTypesUnset {
-  return {
-    cwd: process.cwd(),
-    nodir: true,
-    absolute: true,
-    ignore: GLOB_IGNORE_PATTERNS,
-  };
-}
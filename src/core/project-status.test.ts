@@ -0,0 +1,58 @@
+import { getProjectStatus } from '@/core/project-status';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+describe('getProjectStatus', () => {
+  const localLabels: LabelFile = {
+    greeting: { translations: { en_US: 'Hello there', de_DE: 'Hallo' } },
+    farewell: { translations: { en_US: 'See you soon' } },
+  };
+  const remoteLabels: LabelFile = {
+    greeting: { translations: { en_US: 'Hello there' } },
+    title: { translations: { de_DE: 'Titel' } },
+  };
+
+  it('combines the coverage, counts and differences per locale', () => {
+    expect(
+      getProjectStatus(localLabels, remoteLabels, ['en_US', 'de_DE'], 'en_US')
+    ).toEqual({
+      referenceLocale: 'en_US',
+      keys: { local: 2, remote: 2 },
+      locales: [
+        {
+          locale: 'en_US',
+          isReference: true,
+          translated: 2,
+          total: 2,
+          percentage: 100,
+          words: 5,
+          characters: 23,
+          localOnly: ['farewell'],
+          remoteOnly: [],
+        },
+        {
+          locale: 'de_DE',
+          isReference: false,
+          translated: 1,
+          total: 2,
+          percentage: 50,
+          words: 1,
+          characters: 5,
+          localOnly: ['greeting'],
+          remoteOnly: ['title'],
+        },
+      ],
+    });
+  });
+
+  it('counts the words of languages without spaces', () => {
+    const status = getProjectStatus(
+      { greeting: { translations: { ja_JP: '東京に行きます' } } },
+      {},
+      ['ja_JP'],
+      'ja_JP'
+    );
+
+    expect(status.locales[0].words).toBeGreaterThan(1);
+  });
+});
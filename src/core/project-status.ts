@@ -0,0 +1,93 @@
+import { flattenTranslations } from '@/core/label-diff';
+import { checkTranslations, getCoverage } from '@/core/translation-check';
+import type { LabelFile } from 'labeleer-cli';
+
+export interface LocaleStatus {
+  locale: string;
+  isReference: boolean;
+  /**
+   * Translated and total keys of the local labels, including plural forms.
+   */
+  translated: number;
+  total: number;
+  percentage: number;
+  /**
+   * Counted over the local translations of the locale.
+   */
+  words: number;
+  characters: number;
+  /**
+   * Keys that are translated locally but not in the project, and the other way around.
+   * Plural forms are suffixed with their quantity, e.g. `items.count[one]`.
+   */
+  localOnly: string[];
+  remoteOnly: string[];
+}
+
+export interface ProjectStatus {
+  referenceLocale: string;
+  keys: {
+    local: number;
+    remote: number;
+  };
+  locales: LocaleStatus[];
+}
+
+/**
+ * Combines the local labels, the labels of the project and its locales into the
+ * status of every locale. Coverage and counts describe the local labels, as those
+ * are what the next push publishes.
+ */
+export function getProjectStatus(
+  localLabels: LabelFile,
+  remoteLabels: LabelFile,
+  locales: string[],
+  referenceLocale: string
+): ProjectStatus {
+  const report = checkTranslations(localLabels, locales, referenceLocale);
+  const localTranslations = flattenTranslations(localLabels);
+  const remoteTranslations = flattenTranslations(remoteLabels);
+
+  return {
+    referenceLocale,
+    keys: {
+      local: Object.keys(localLabels).length,
+      remote: Object.keys(remoteLabels).length,
+    },
+    locales: report.locales.map(coverage => {
+      const local =
+        localTranslations.get(coverage.locale) ?? new Map<string, string>();
+      const remote =
+        remoteTranslations.get(coverage.locale) ?? new Map<string, string>();
+      const texts = [...local.values()];
+
+      return {
+        locale: coverage.locale,
+        isReference: coverage.isReference,
+        translated: coverage.translated,
+        total: coverage.total,
+        percentage: getCoverage(coverage),
+        words: texts.reduce(
+          (total, text) => total + countWords(text, coverage.locale),
+          0
+        ),
+        characters: texts.reduce((total, text) => total + [...text].length, 0),
+        localOnly: [...local.keys()].filter(key => !remote.has(key)),
+        remoteOnly: [...remote.keys()].filter(key => !local.has(key)),
+      };
+    }),
+  };
+}
+
+/**
+ * Counts words the way the locale separates them, so languages
+ * without spaces, e.g. Japanese, are counted as well.
+ */
+function countWords(text: string, locale: string): number {
+  const segmenter = new Intl.Segmenter(locale.replace('_', '-'), {
+    granularity: 'word',
+  });
+
+  return [...segmenter.segment(text)].filter(segment => segment.isWordLike)
+    .length;
+}
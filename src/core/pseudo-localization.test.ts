@@ -0,0 +1,98 @@
+import {
+  createPseudoTranslations,
+  pseudoLocales,
+  pseudoLocalizeText,
+  withoutPseudoLocales,
+} from '@/core/pseudo-localization';
+import { extractPlaceholders } from '@/core/placeholder-validation';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+const accentsOnly = {
+  accents: true,
+  expansion: 0,
+  brackets: false,
+  mirror: false,
+};
+
+describe('pseudoLocalizeText', () => {
+  it('accents, expands and brackets the text', () => {
+    expect(pseudoLocalizeText('Settings', accentsOnly)).toBe('Šéţţîñĝš');
+    expect(pseudoLocalizeText('Hello', pseudoLocales.en_XA)).toBe('[Ĥéļļö o]');
+  });
+
+  it('mirrors the text with directional formatting', () => {
+    expect(pseudoLocalizeText('Hi {name}', pseudoLocales.ar_XB)).toBe(
+      '\u202EHi \u202C{name}'
+    );
+  });
+
+  it('keeps placeholders, tags and entities', () => {
+    expect(
+      pseudoLocalizeText(
+        'Hi {name}, {{user}} has %1$s <b>new</b> &amp; %d',
+        accentsOnly
+      )
+    ).toBe('Ĥî {name}, {{user}} ĥáš %1$s <b>ñéŵ</b> &amp; %d');
+  });
+
+  it('only transforms the messages of ICU options', () => {
+    const message =
+      "{count, plural, one {# item} other {# items for {name}}} '{literal}'";
+    const result = pseudoLocalizeText(message, accentsOnly);
+
+    expect(result).toBe(
+      "{count, plural, one {# îţéɱ} other {# îţéɱš ƒöŕ {name}}} '{literal}'"
+    );
+    expect(extractPlaceholders(result)).toEqual(extractPlaceholders(message));
+  });
+
+  it('keeps the rest of invalid messages', () => {
+    expect(pseudoLocalizeText('Hi {name', accentsOnly)).toBe('Ĥî {name');
+  });
+});
+
+describe('createPseudoTranslations', () => {
+  it('derives the pseudo locale from the reference, including plurals', () => {
+    const labelFile: LabelFile = {
+      items: {
+        translations: { en_US: 'Items' },
+        plurals: { one: { en_US: 'Item' }, other: { de_DE: 'Artikel' } },
+      },
+      draft: { translations: { de_DE: 'Entwurf' } },
+    };
+
+    expect(
+      createPseudoTranslations(labelFile, 'en_US', 'en_XA', accentsOnly)
+    ).toEqual({
+      items: {
+        translations: { en_US: 'Items', en_XA: 'Îţéɱš' },
+        plurals: {
+          one: { en_US: 'Item', en_XA: 'Îţéɱ' },
+          other: { de_DE: 'Artikel' },
+        },
+      },
+      draft: { translations: { de_DE: 'Entwurf' } },
+    });
+  });
+});
+
+describe('withoutPseudoLocales', () => {
+  it('removes the translations of pseudo locales', () => {
+    expect(
+      withoutPseudoLocales({
+        items: {
+          translations: { en_US: 'Items', en_XA: '[Îţéɱš]' },
+          plurals: { one: { ar_XB: 'Item', en_US: 'Item' } },
+          description: 'A list',
+        },
+      })
+    ).toEqual({
+      items: {
+        translations: { en_US: 'Items' },
+        plurals: { one: { en_US: 'Item' } },
+        description: 'A list',
+      },
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import type { LabelFile, LocalizedEntries } from 'labeleer-cli';
+
+export interface PseudoOptions {
+  /**
+   * Replaces letters with accented look-alikes, e.g. `Settings` with `Šéţţîñĝš`.
+   */
+  accents: boolean;
+  /**
+   * How much longer the text becomes, in percent of its length.
+   */
+  expansion: number;
+  /**
+   * Wraps every message in brackets, so truncated and concatenated strings stand out.
+   */
+  brackets: boolean;
+  /**
+   * Forces right-to-left display of the text, to test mirrored layouts.
+   */
+  mirror: boolean;
+}
+
+/**
+ * The pseudo locales Android and Chrome use, with their default options.
+ */
+export const pseudoLocales = {
+  en_XA: { accents: true, expansion: 30, brackets: true, mirror: false },
+  ar_XB: { accents: false, expansion: 0, brackets: false, mirror: true },
+} as const satisfies Record<string, PseudoOptions>;
+
+export type PseudoLocale = keyof typeof pseudoLocales;
+
+/**
+ * Accented look-alikes of `a-z` and `A-Z`, in that order.
+ */
+const accentedLetters = [
+  ...'áƀçðéƒĝĥîĵķļɱñöþǫŕšţûṽŵẋýž',
+  ...'ÅƁÇÐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽ',
+];
+
+const EXPANSION_TEXT = ' one two three four five six seven eight nine ten';
+const RIGHT_TO_LEFT_OVERRIDE = '\u202E';
+const POP_DIRECTIONAL_FORMATTING = '\u202C';
+
+/**
+ * Placeholders that are not ICU arguments: printf style `%s` and `%1$@`,
+ * HTML tags and entities.
+ */
+const protectedExpression =
+  /(%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[a-zA-Z@%]|<[^<>]+>|&#?\w+;)/;
+
+export function isPseudoLocale(locale: string): locale is PseudoLocale {
+  return locale in pseudoLocales;
+}
+
+/**
+ * Derives the translations of the pseudo locale from the reference locale,
+ * including plural forms. Keys without a reference translation are skipped.
+ */
+export function createPseudoTranslations(
+  labelFile: LabelFile,
+  referenceLocale: string,
+  locale: string,
+  options: PseudoOptions
+): LabelFile {
+  const pseudoLocalize = (entries: LocalizedEntries) => {
+    const reference = entries[referenceLocale];
+
+    return reference
+      ? { ...entries, [locale]: pseudoLocalizeText(reference, options) }
+      : entries;
+  };
+
+  return Object.fromEntries(
+    Object.entries(labelFile).map(([key, entry]) => [
+      key,
+      {
+        ...entry,
+        translations: pseudoLocalize(entry.translations),
+        ...(entry.plurals && {
+          plurals: Object.fromEntries(
+            Object.entries(entry.plurals).map(([quantity, plural]) => [
+              quantity,
+              plural && pseudoLocalize(plural),
+            ])
+          ),
+        }),
+      },
+    ])
+  );
+}
+
+/**
+ * Removes the translations of pseudo locales, as they are generated locally
+ * and not part of the project.
+ */
+export function withoutPseudoLocales(labelFile: LabelFile): LabelFile {
+  const withoutPseudo = (entries: LocalizedEntries) =>
+    Object.fromEntries(
+      Object.entries(entries).filter(([locale]) => !isPseudoLocale(locale))
+    );
+
+  return Object.fromEntries(
+    Object.entries(labelFile).map(([key, entry]) => [
+      key,
+      {
+        ...entry,
+        translations: withoutPseudo(entry.translations),
+        ...(entry.plurals && {
+          plurals: Object.fromEntries(
+            Object.entries(entry.plurals).map(([quantity, plural]) => [
+              quantity,
+              plural && withoutPseudo(plural),
+            ])
+          ),
+        }),
+      },
+    ])
+  );
+}
+
+/**
+ * Pseudo-localizes the text of a message. Placeholders such as `{name}`, `{{name}}`
+ * and `%s` are kept as they are, as are the names, types and selectors of ICU
+ * arguments; only the messages of their options are pseudo-localized.
+ */
+export function pseudoLocalizeText(
+  text: string,
+  options: PseudoOptions
+): string {
+  let length = 0;
+  const message = transformMessage(
+    text,
+    literal => {
+      length += literal.length;
+      return transformLiteral(literal, options);
+    },
+    false
+  );
+  const expansion = getExpansion(Math.ceil((length * options.expansion) / 100));
+
+  return options.brackets
+    ? `[${message}${expansion}]`
+    : `${message}${expansion}`;
+}
+
+function transformLiteral(literal: string, options: PseudoOptions): string {
+  return literal
+    .split(protectedExpression)
+    .map((part, index) => {
+      // The split expression captures the protected parts at odd indices.
+      if (index % 2 === 1 || !part.trim()) return part;
+
+      const text = options.accents
+        ? part.replace(/[a-zA-Z]/g, char => {
+            const code = char.charCodeAt(0);
+            return accentedLetters[code >= 97 ? code - 97 : code - 65 + 26];
+          })
+        : part;
+
+      return options.mirror
+        ? RIGHT_TO_LEFT_OVERRIDE + text + POP_DIRECTIONAL_FORMATTING
+        : text;
+    })
+    .join('');
+}
+
+function getExpansion(length: number): string {
+  if (length <= 0) return '';
+
+  return EXPANSION_TEXT.repeat(Math.ceil(length / EXPANSION_TEXT.length)).slice(
+    0,
+    length
+  );
+}
+
+/**
+ * Walks an ICU message, passing its literal text to `transform` and copying
+ * everything else. Messages that are not valid ICU are transformed as far as
+ * they can be parsed; unbalanced braces and everything after them are kept.
+ */
+function transformMessage(
+  text: string,
+  transform: (literal: string) => string,
+  inPlural: boolean
+): string {
+  let result = '';
+  let literal = '';
+  let position = 0;
+  const flush = () => {
+    result += literal && transform(literal);
+    literal = '';
+  };
+
+  while (position < text.length) {
+    const char = text[position];
+    const next = text[position + 1];
+
+    if (text.startsWith('{{', position) && text.includes('}}', position)) {
+      const end = text.indexOf('}}', position) + 2;
+      flush();
+      result += text.slice(position, end);
+      position = end;
+    } else if (char === '{') {
+      const end = findClosingBrace(text, position);
+
+      flush();
+      if (end === -1) {
+        result += text.slice(position);
+        break;
+      }
+      result += transformArgument(text.slice(position, end + 1), transform);
+      position = end + 1;
+    } else if (
+      char === "'" &&
+      (next === '{' || next === '}' || (inPlural && next === '#'))
+    ) {
+      const end = text.indexOf("'", position + 1);
+      const quoteEnd = end === -1 ? text.length : end + 1;
+      flush();
+      result += text.slice(position, quoteEnd);
+      position = quoteEnd;
+    } else if (char === "'" && next === "'") {
+      literal += "''";
+      position += 2;
+    } else if (inPlural && char === '#') {
+      flush();
+      result += char;
+      position++;
+    } else {
+      literal += char;
+      position++;
+    }
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * Transforms the option messages of `{count, plural, one {...} other {...}}`
+ * and `{gender, select, ...}`. Simple arguments are kept as they are.
+ */
+function transformArgument(
+  argument: string,
+  transform: (literal: string) => string
+): string {
+  const header = argument.match(
+    /^\{\s*[^\s,{}]+\s*,\s*(plural|selectordinal|select)\s*,/
+  );
+
+  if (!header) return argument;
+
+  const inPlural = header[1] !== 'select';
+  let result = header[0];
+  let position = header[0].length;
+
+  while (position < argument.length - 1) {
+    const start = argument.indexOf('{', position);
+
+    if (start === -1) break;
+
+    const end = findClosingBrace(argument, start);
+
+    if (end === -1) break;
+
+    result += `${
+      argument.slice(position, start + 1) +
+      transformMessage(argument.slice(start + 1, end), transform, inPlural)
+    }}`;
+    position = end + 1;
+  }
+
+  return result + argument.slice(position);
+}
+
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+
+  for (let position = start; position < text.length; position++) {
+    if (text[position] === '{') depth++;
+    if (text[position] === '}' && --depth === 0) return position;
+  }
+
+  return -1;
+}
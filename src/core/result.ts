@@ -3,17 +3,18 @@ export interface SuccessResult<TOutput> {
   value: TOutput;
 }
 
-export interface ErrorResult {
+export interface ErrorResult<TError = string> {
   success: false;
-  error: string;
+  error: TError;
 }
 
-export type Result<TOutput> = SuccessResult<TOutput> | ErrorResult;
+export type Result<TOutput, TError = string> =
+  SuccessResult<TOutput> | ErrorResult<TError>;
 
 export function Ok<T>(value: T): SuccessResult<T> {
   return { success: true, value };
 }
 
-export function Err(error: string): ErrorResult {
+export function Err<E = string>(error: E): ErrorResult<E> {
   return { success: false, error };
 }
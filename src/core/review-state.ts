@@ -0,0 +1,81 @@
+import { getSnapshotDirectory } from '@/core/sync-snapshot';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+const REVIEW_FILE_NAME = 'review.json';
+
+/**
+ * The locales per label key whose translation has been filled by machine translation
+ * and still needs to be reviewed by a person.
+ */
+export type ReviewState = Record<string, string[]>;
+
+export interface ReviewEntry {
+  key: string;
+  locale: string;
+}
+
+export async function readReviewState(): Promise<ReviewState> {
+  try {
+    const content = await readFile(
+      join(getSnapshotDirectory(), REVIEW_FILE_NAME),
+      'utf-8'
+    );
+    return JSON.parse(content) as ReviewState;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Marks the translations as needing review.
+ */
+export async function markForReview(entries: ReviewEntry[]): Promise<void> {
+  const state = await readReviewState();
+
+  for (const { key, locale } of entries) {
+    state[key] = [...new Set([...(state[key] ?? []), locale])];
+  }
+
+  await writeReviewState(state);
+}
+
+/**
+ * Removes the review mark of the translations, e.g. once a person has changed them.
+ */
+export async function clearReview(entries: ReviewEntry[]): Promise<void> {
+  const state = await readReviewState();
+
+  for (const { key, locale } of entries) {
+    const locales = state[key]?.filter(other => other !== locale);
+
+    if (locales?.length) {
+      state[key] = locales;
+    } else {
+      delete state[key];
+    }
+  }
+
+  await writeReviewState(state);
+}
+
+/**
+ * Lists the marked translations of the keys that still exist.
+ */
+export function getPendingReviews(
+  state: ReviewState,
+  keys: string[]
+): ReviewEntry[] {
+  return keys.flatMap(key =>
+    (state[key] ?? []).map(locale => ({ key, locale }))
+  );
+}
+
+async function writeReviewState(state: ReviewState): Promise<void> {
+  await mkdir(getSnapshotDirectory(), { recursive: true });
+  await writeFile(
+    join(getSnapshotDirectory(), REVIEW_FILE_NAME),
+    JSON.stringify(state, null, 2),
+    'utf-8'
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  defaultKeyPatterns,
+  parseKeyPattern,
+  scanSourceFiles,
+} from '@/core/source-scan';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'labeleer-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function scan(files: Record<string, string>, keys: string[]) {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(join(directory, path, '..'), { recursive: true });
+    await writeFile(join(directory, path), content, 'utf-8');
+  }
+
+  return await scanSourceFiles(directory, keys, {
+    include: ['**/*.{ts,swift,kt}'],
+    ignore: ['**/ignored/**'],
+    patterns: defaultKeyPatterns,
+  });
+}
+
+describe('scanSourceFiles', () => {
+  it('reports undefined and unused keys', async () => {
+    const result = await scan(
+      {
+        'src/app.ts': 'const title = t(\'home.title\');\n\nt("home.missing");',
+        'ignored/old.ts': "t('home.unused');",
+      },
+      ['home.title', 'home.unused']
+    );
+
+    expect(result.undefinedKeys).toEqual([
+      { key: 'home.missing', file: join('src', 'app.ts'), line: 3 },
+    ]);
+    expect(result.unusedKeys).toEqual(['home.unused']);
+  });
+
+  it('recognizes iOS and Android references', async () => {
+    const result = await scan(
+      {
+        'App.swift':
+          'NSLocalizedString("ios.title", comment: "")\nString(localized: "ios.subtitle")',
+        'Main.kt': 'getString(R.string.android_title)',
+      },
+      ['ios.title', 'ios.subtitle', 'android.title']
+    );
+
+    expect(result.undefinedKeys).toEqual([]);
+    expect(result.unusedKeys).toEqual([]);
+  });
+
+  it('marks keys with the prefix of a dynamic key as used', async () => {
+    const result = await scan({ 'errors.ts': 't(`errors.${code}`)' }, [
+      'errors.notFound',
+      'home.title',
+    ]);
+
+    expect(result.undefinedKeys).toEqual([]);
+    expect(result.unusedKeys).toEqual(['home.title']);
+  });
+});
+
+describe('parseKeyPattern', () => {
+  it('requires a capture group', () => {
+    expect(parseKeyPattern('i18n\\.get')).toEqual({
+      success: false,
+      error:
+        "Pattern 'i18n\\.get' has no capture group. Wrap the key in parentheses.",
+    });
+  });
+
+  it('compiles a global expression', () => {
+    const pattern = parseKeyPattern("i18n\\.get\\('([^']+)'");
+
+    expect(pattern.success && pattern.value.flags).toBe('g');
+  });
+});
@@ -0,0 +1,178 @@
+import { Err, Ok, type Result } from '@/core/result';
+import { readFile } from 'fs/promises';
+import { glob } from 'glob';
+import { resolve } from 'path';
+
+export interface KeyReference {
+  key: string;
+  /**
+   * The path of the source file, relative to the scanned directory.
+   */
+  file: string;
+  line: number;
+}
+
+export interface ScanOptions {
+  /**
+   * Glob patterns of the source files to scan.
+   */
+  include: string[];
+  /**
+   * Glob patterns of the paths to skip.
+   */
+  ignore: string[];
+  /**
+   * Global regular expressions, the first capture group that matched holds the key.
+   */
+  patterns: RegExp[];
+}
+
+export interface ScanResult {
+  references: KeyReference[];
+  /**
+   * Keys that are referenced in the source code, but missing from the label file.
+   */
+  undefinedKeys: KeyReference[];
+  /**
+   * Keys of the label file that are not referenced anywhere.
+   */
+  unusedKeys: string[];
+}
+
+/**
+ * The file types that commonly reference labels, across web, iOS and Android projects.
+ */
+export const defaultSourcePatterns = [
+  '**/*.{js,jsx,mjs,cjs,ts,tsx,vue,svelte}',
+  '**/*.{swift,m,mm}',
+  '**/*.{kt,java}',
+  '**/res/layout*/*.xml',
+];
+
+/**
+ * The expressions that extract keys from the source code by default:
+ * `t('...')`, `NSLocalizedString("...")`, `String(localized: "...")`,
+ * `R.string.*` and `@string/*`.
+ */
+export const defaultKeyPatterns = [
+  /\bt\(\s*(?:'([^']+)'|"([^"]+)"|`([^`]+)`)/g,
+  /\bNSLocalizedString\(\s*@?"((?:[^"\\]|\\.)+)"/g,
+  /\bString\(\s*localized:\s*"((?:[^"\\]|\\.)+)"/g,
+  /\bR\.string\.(\w+)/g,
+  /@string\/(\w+)/g,
+];
+
+/**
+ * Compiles a user-provided extraction pattern.
+ * The first capture group that matched is used as the key.
+ */
+export function parseKeyPattern(pattern: string): Result<RegExp> {
+  try {
+    const expression = new RegExp(pattern, 'g');
+    const groups = new RegExp(`${pattern}|`).exec('')?.length ?? 1;
+
+    if (groups < 2) {
+      return Err(
+        `Pattern '${pattern}' has no capture group. Wrap the key in parentheses.`
+      );
+    }
+
+    return Ok(expression);
+  } catch (error) {
+    return Err(
+      `Invalid pattern '${pattern}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Scans the source files for key references and compares them with the keys of the label file.
+ * Keys that are built dynamically, e.g. t(`errors.${code}`), mark every key with
+ * the same prefix as used.
+ */
+export async function scanSourceFiles(
+  cwd: string,
+  keys: string[],
+  options: ScanOptions
+): Promise<ScanResult> {
+  const files = await glob(options.include, {
+    cwd,
+    nodir: true,
+    ignore: options.ignore,
+  });
+  const references: KeyReference[] = [];
+
+  for (const file of files.sort()) {
+    const content = await readFile(resolve(cwd, file), 'utf-8');
+    references.push(...extractKeyReferences(content, file, options.patterns));
+  }
+
+  const staticReferences = references.filter(
+    reference => !isDynamicKey(reference.key)
+  );
+  const dynamicPrefixes = references
+    .filter(reference => isDynamicKey(reference.key))
+    .map(reference => reference.key.slice(0, reference.key.indexOf('${')));
+  const definedKeys = new Set(keys);
+  const resourceNames = new Map(keys.map(key => [toResourceName(key), key]));
+  const usedKeys = new Set<string>();
+  const undefinedKeys: KeyReference[] = [];
+
+  for (const reference of staticReferences) {
+    const key = definedKeys.has(reference.key)
+      ? reference.key
+      : resourceNames.get(reference.key);
+
+    if (key === undefined) {
+      undefinedKeys.push(reference);
+    } else {
+      usedKeys.add(key);
+    }
+  }
+
+  return {
+    references,
+    undefinedKeys,
+    unusedKeys: keys.filter(
+      key =>
+        !usedKeys.has(key) &&
+        !dynamicPrefixes.some(prefix => prefix && key.startsWith(prefix))
+    ),
+  };
+}
+
+function extractKeyReferences(
+  content: string,
+  file: string,
+  patterns: RegExp[]
+): KeyReference[] {
+  const lineOffsets = [0];
+  for (let index = content.indexOf('\n'); index !== -1;) {
+    lineOffsets.push(index + 1);
+    index = content.indexOf('\n', index + 1);
+  }
+  const getLine = (offset: number) =>
+    lineOffsets.filter(lineOffset => lineOffset <= offset).length;
+
+  return patterns.flatMap(pattern =>
+    [...content.matchAll(pattern)]
+      .map(match => ({
+        key: match.slice(1).find(group => group !== undefined),
+        file,
+        line: getLine(match.index),
+      }))
+      .filter((reference): reference is KeyReference => !!reference.key)
+  );
+}
+
+function isDynamicKey(key: string): boolean {
+  return key.includes('${');
+}
+
+/**
+ * Android resource names cannot contain dots or dashes,
+ * so `R.string.home_title` refers to the `home.title` key.
+ */
+function toResourceName(key: string): string {
+  return key.replace(/\W/g, '_');
+}
@@ -0,0 +1,39 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import type { LabelFile } from 'labeleer-cli';
+import { join } from 'path';
+
+const SNAPSHOT_DIRECTORY = '.labeleer';
+const BASE_SNAPSHOT_FILE_NAME = 'base.json';
+
+export function getSnapshotDirectory(): string {
+  return join(process.cwd(), SNAPSHOT_DIRECTORY);
+}
+
+/**
+ * Reads the labels as they were after the last successful synchronization,
+ * or an empty label file if the project has never been synchronized.
+ */
+export async function readBaseSnapshot(): Promise<LabelFile> {
+  try {
+    const content = await readFile(
+      join(getSnapshotDirectory(), BASE_SNAPSHOT_FILE_NAME),
+      'utf-8'
+    );
+    return JSON.parse(content) as LabelFile;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Stores the labels that local and remote agree on after a successful synchronization.
+ * These serve as common ancestor for the next three-way merge.
+ */
+export async function writeBaseSnapshot(labelFile: LabelFile): Promise<void> {
+  await mkdir(getSnapshotDirectory(), { recursive: true });
+  await writeFile(
+    join(getSnapshotDirectory(), BASE_SNAPSHOT_FILE_NAME),
+    JSON.stringify(labelFile, null, 2),
+    'utf-8'
+  );
+}
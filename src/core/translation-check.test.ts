@@ -0,0 +1,80 @@
+import { checkTranslations, getCoverage } from '@/core/translation-check';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+describe('checkTranslations', () => {
+  it('reports missing and empty translations per locale', () => {
+    const labelFile: LabelFile = {
+      greeting: { translations: { en_US: 'Hello', de_DE: 'Hallo' } },
+      farewell: { translations: { en_US: 'Bye', de_DE: '' } },
+      title: { translations: { en_US: 'Title' } },
+    };
+
+    const report = checkTranslations(labelFile, ['de_DE', 'en_US'], 'en_US');
+
+    expect(report.locales.map(locale => locale.locale)).toEqual([
+      'en_US',
+      'de_DE',
+    ]);
+    expect(report.locales[1]).toEqual({
+      locale: 'de_DE',
+      isReference: false,
+      translated: 1,
+      total: 3,
+      missing: [
+        { key: 'farewell', locale: 'de_DE', reason: 'empty' },
+        { key: 'title', locale: 'de_DE', reason: 'missing' },
+      ],
+    });
+  });
+
+  it('only expects keys with a reference translation in other locales', () => {
+    const labelFile: LabelFile = {
+      draft: { translations: { de_DE: 'Entwurf' } },
+    };
+
+    const [reference, german] = checkTranslations(
+      labelFile,
+      ['en_US', 'de_DE'],
+      'en_US'
+    ).locales;
+
+    expect(reference.missing).toEqual([
+      { key: 'draft', locale: 'en_US', reason: 'missing' },
+    ]);
+    expect(german.total).toBe(0);
+  });
+
+  it('checks plural forms instead of the translation of plural labels', () => {
+    const labelFile: LabelFile = {
+      items: {
+        translations: {},
+        plurals: {
+          one: { en_US: '1 item', de_DE: '1 Artikel' },
+          other: { en_US: '# items' },
+        },
+      },
+    };
+
+    const report = checkTranslations(labelFile, ['en_US', 'de_DE'], 'en_US');
+
+    expect(report.keys).toEqual(['items[one]', 'items[other]']);
+    expect(report.locales[1].missing).toEqual([
+      { key: 'items[other]', locale: 'de_DE', reason: 'missing' },
+    ]);
+  });
+});
+
+describe('getCoverage', () => {
+  it('counts locales without keys as fully translated', () => {
+    expect(
+      getCoverage({
+        locale: 'de_DE',
+        isReference: false,
+        translated: 0,
+        total: 0,
+        missing: [],
+      })
+    ).toBe(100);
+  });
+});
@@ -0,0 +1,113 @@
+import type { LabelFile } from 'labeleer-cli';
+
+export type MissingReason = 'missing' | 'empty';
+
+export interface MissingTranslation {
+  /**
+   * The label key. Plural forms are suffixed with their quantity, e.g. `items.count[one]`.
+   */
+  key: string;
+  locale: string;
+  reason: MissingReason;
+}
+
+export interface LocaleCoverage {
+  locale: string;
+  isReference: boolean;
+  translated: number;
+  total: number;
+  missing: MissingTranslation[];
+}
+
+export interface TranslationReport {
+  referenceLocale: string;
+  /**
+   * Every key of the label file, including plural forms.
+   */
+  keys: string[];
+  locales: LocaleCoverage[];
+}
+
+/**
+ * Checks which translations are missing or empty per locale.
+ * The keys of the label file are the source of truth: every key (and plural form)
+ * has to be translated in the reference locale, and every key that has a reference
+ * translation has to be translated in the other locales as well.
+ */
+export function checkTranslations(
+  labelFile: LabelFile,
+  locales: string[],
+  referenceLocale: string
+): TranslationReport {
+  const translations = collectTranslations(labelFile);
+  const referenceKeys = [...translations.keys()].filter(key =>
+    translations.get(key)?.get(referenceLocale)
+  );
+  const orderedLocales = [
+    referenceLocale,
+    ...locales.filter(locale => locale !== referenceLocale),
+  ];
+
+  return {
+    referenceLocale,
+    keys: [...translations.keys()],
+    locales: orderedLocales.map(locale => {
+      const isReference = locale === referenceLocale;
+      const keys = isReference ? [...translations.keys()] : referenceKeys;
+      const missing = keys
+        .map((key): MissingTranslation | undefined => {
+          const value = translations.get(key)?.get(locale);
+
+          if (value) return undefined;
+          return {
+            key,
+            locale,
+            reason: value === undefined ? 'missing' : 'empty',
+          };
+        })
+        .filter(entry => !!entry);
+
+      return {
+        locale,
+        isReference,
+        translated: keys.length - missing.length,
+        total: keys.length,
+        missing,
+      };
+    }),
+  };
+}
+
+/**
+ * The share of translated keys of a locale as a percentage.
+ * A locale without keys counts as fully translated.
+ */
+export function getCoverage(coverage: LocaleCoverage): number {
+  return coverage.total === 0
+    ? 100
+    : (coverage.translated / coverage.total) * 100;
+}
+
+/**
+ * Collects every translation per key and locale, keeping empty values
+ * so they can be told apart from absent ones.
+ */
+function collectTranslations(
+  labelFile: LabelFile
+): Map<string, Map<string, string>> {
+  const result = new Map<string, Map<string, string>>();
+
+  for (const [key, entry] of Object.entries(labelFile)) {
+    const plurals = Object.entries(entry.plurals ?? {});
+
+    // Plural labels do not need a translation besides their plural forms.
+    if (plurals.length === 0 || Object.keys(entry.translations).length > 0) {
+      result.set(key, new Map(Object.entries(entry.translations)));
+    }
+    for (const [quantity, plural] of plurals) {
+      result.set(`${key}[${quantity}]`, new Map(Object.entries(plural ?? {})));
+    }
+  }
+
+  return result;
+}
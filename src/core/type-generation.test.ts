@@ -0,0 +1,110 @@
+import { generateLabelTypes } from '@/core/type-generation';
+import type { LabelFile } from 'labeleer-cli';
+import { describe, expect, it } from 'vitest';
+
+const labelFile: LabelFile = {
+  'home.title': { translations: { en_US: 'Welcome' } },
+  'cart.items': {
+    translations: {},
+    plurals: {
+      one: { en_US: '{count} item for {name}' },
+      other: { en_US: '{count} items for {name}' },
+    },
+  },
+  'order.placed': {
+    translations: {
+      en_US: '{{user-name}} ordered on {date, date} for %s',
+      de_DE: '{unrelated}',
+    },
+  },
+};
+
+describe('generateLabelTypes', () => {
+  it('exports the keys, their parameters and a typed translation function', () => {
+    const result = generateLabelTypes(labelFile, 'en_US', 'src/labels.ts');
+
+    expect(result.success && result.value).toBe(
+      [
+        '// Generated by labeleer-cli from the label file. Do not edit.',
+        '',
+        'export const labelKeys = [',
+        '  "cart.items",',
+        '  "home.title",',
+        '  "order.placed",',
+        '] as const;',
+        '',
+        'export type LabelKey = (typeof labelKeys)[number];',
+        '',
+        'export interface LabelParams {',
+        '  "cart.items": { count: number; name: string | number };',
+        '  "home.title": Record<never, never>;',
+        '  "order.placed": { date: Date | number; "user-name": string | number };',
+        '}',
+        '',
+        '/**',
+        ' * The arguments that follow the key, e.g. `t<K extends LabelKey>(key: K, ...args: LabelArgs<K>)`.',
+        ' */',
+        'export type LabelArgs<K extends LabelKey> =',
+        '  keyof LabelParams[K] extends never ? [] : [params: LabelParams[K]];',
+        '',
+        '/**',
+        ' * A translation function that rejects unknown keys and missing parameters at compile time.',
+        ' */',
+        'export type TranslateFunction = <K extends LabelKey>(',
+        '  key: K,',
+        '  ...args: LabelArgs<K>',
+        ') => string;',
+        '',
+        '/**',
+        ' * Types an existing translation function, e.g. `export const t = typeLabels(i18n.t);`.',
+        ' */',
+        'export function typeLabels(',
+        '  translate: (key: string, params?: Record<string, unknown>) => string',
+        '): TranslateFunction {',
+        '  return (key, ...args) =>',
+        '    translate(key, ...(args as [Record<string, unknown>?]));',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('only declares types in declaration files', () => {
+    const result = generateLabelTypes(
+      { 'home.title': { translations: { en_US: 'Welcome' } } },
+      'en_US',
+      'src/labels.d.ts'
+    );
+
+    expect(result.success && result.value).toContain(
+      'export type LabelKey =\n  | "home.title";\n'
+    );
+    expect(result.success && result.value).toContain(
+      'export type TranslateFunction = <K extends LabelKey>('
+    );
+    expect(result.success && result.value).not.toContain('labelKeys');
+    expect(result.success && result.value).not.toContain('typeLabels');
+  });
+
+  it('declares no keys for an empty label file', () => {
+    const result = generateLabelTypes({}, 'en_US', 'src/labels.d.ts');
+
+    expect(result.success && result.value).toContain(
+      'export type LabelKey =\n  never;\n'
+    );
+  });
+
+  it('fails on invalid reference translations', () => {
+    const result = generateLabelTypes(
+      { broken: { translations: { en_US: 'Hello {name' } } },
+      'en_US',
+      'src/labels.ts'
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        "Unable to derive the parameters of 'broken': Invalid ICU message: Unclosed argument 'name'",
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { extractPlaceholders } from '@/core/placeholder-validation';
+import { Err, Ok, type Result } from '@/core/result';
+import { mkdir, writeFile } from 'fs/promises';
+import type { LabelEntry, LabelFile } from 'labeleer-cli';
+import { dirname, resolve } from 'path';
+
+const identifierExpression = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Generates a TypeScript module with a union of all label keys and the parameters
+ * of every key, derived from the named placeholders of its reference translation,
+ * and a `TranslateFunction` type that only accepts these. A `.d.ts` output only holds
+ * types, a `.ts` output also exports the keys and `typeLabels` to type a translation function.
+ */
+export function generateLabelTypes(
+  labelFile: LabelFile,
+  referenceLocale: string,
+  outputPath: string
+): Result<string> {
+  const keys = Object.keys(labelFile).sort();
+  const lines = [
+    '// Generated by labeleer-cli from the label file. Do not edit.',
+    '',
+  ];
+
+  if (outputPath.endsWith('.d.ts')) {
+    lines.push(
+      'export type LabelKey =',
+      `${keys.length ? keys.map(key => `  | ${JSON.stringify(key)}`).join('\n') : '  never'};`,
+      ''
+    );
+  } else {
+    lines.push(
+      'export const labelKeys = [',
+      ...keys.map(key => `  ${JSON.stringify(key)},`),
+      '] as const;',
+      '',
+      'export type LabelKey = (typeof labelKeys)[number];',
+      ''
+    );
+  }
+
+  lines.push('export interface LabelParams {');
+  for (const key of keys) {
+    const params = getLabelParams(labelFile[key], referenceLocale);
+
+    if (!params.success) {
+      return Err(
+        `Unable to derive the parameters of '${key}': ${params.error}`
+      );
+    }
+
+    const properties = [...params.value]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(
+        ([name, type]) =>
+          `${identifierExpression.test(name) ? name : JSON.stringify(name)}: ${type}`
+      );
+
+    lines.push(
+      `  ${JSON.stringify(key)}: ${properties.length ? `{ ${properties.join('; ')} }` : 'Record<never, never>'};`
+    );
+  }
+  lines.push(
+    '}',
+    '',
+    '/**',
+    ' * The arguments that follow the key, e.g. `t<K extends LabelKey>(key: K, ...args: LabelArgs<K>)`.',
+    ' */',
+    'export type LabelArgs<K extends LabelKey> =',
+    '  keyof LabelParams[K] extends never ? [] : [params: LabelParams[K]];',
+    '',
+    '/**',
+    ' * A translation function that rejects unknown keys and missing parameters at compile time.',
+    ' */',
+    'export type TranslateFunction = <K extends LabelKey>(',
+    '  key: K,',
+    '  ...args: LabelArgs<K>',
+    ') => string;',
+    ''
+  );
+
+  if (!outputPath.endsWith('.d.ts')) {
+    lines.push(
+      '/**',
+      ' * Types an existing translation function, e.g. `export const t = typeLabels(i18n.t);`.',
+      ' */',
+      'export function typeLabels(',
+      '  translate: (key: string, params?: Record<string, unknown>) => string',
+      '): TranslateFunction {',
+      '  return (key, ...args) =>',
+      '    translate(key, ...(args as [Record<string, unknown>?]));',
+      '}',
+      ''
+    );
+  }
+
+  return Ok(lines.join('\n'));
+}
+
+/**
+ * Generates the label types and writes them to the output path.
+ */
+export async function writeLabelTypes(
+  labelFile: LabelFile,
+  referenceLocale: string,
+  outputPath: string
+): Promise<Result<string>> {
+  const content = generateLabelTypes(labelFile, referenceLocale, outputPath);
+
+  if (!content.success) return content;
+
+  await mkdir(dirname(resolve(outputPath)), { recursive: true });
+  await writeFile(resolve(outputPath), content.value, 'utf-8');
+
+  return Ok(outputPath);
+}
+
+/**
+ * Collects the named placeholders of the reference translation and its plural forms.
+ * Plural labels always take a `count`.
+ */
+function getLabelParams(
+  entry: LabelEntry,
+  referenceLocale: string
+): Result<Map<string, string>> {
+  const params = new Map<string, string>();
+  const plurals = Object.values(entry.plurals ?? {});
+  const translations = [
+    entry.translations[referenceLocale],
+    ...plurals.map(plural => plural?.[referenceLocale]),
+  ].filter((translation): translation is string => !!translation);
+
+  if (plurals.length) {
+    params.set('count', 'number');
+  }
+
+  for (const translation of translations) {
+    const placeholders = extractPlaceholders(translation);
+
+    if (!placeholders.success) return placeholders;
+
+    for (const placeholder of placeholders.value) {
+      const param = toParam(placeholder);
+
+      if (param && !params.has(param[0])) {
+        params.set(...param);
+      }
+    }
+  }
+
+  return Ok(params);
+}
+
+/**
+ * Maps a placeholder onto a parameter name and type.
+ * Printf placeholders are positional and have no name, so they are skipped.
+ */
+function toParam(placeholder: string): [string, string] | undefined {
+  const doubleBraceMatch = placeholder.match(/^\{\{(.+)}}$/);
+  if (doubleBraceMatch) return [doubleBraceMatch[1], 'string | number'];
+
+  const icuMatch = placeholder.match(/^\{([^,]+)(?:, (\w+))?}$/);
+  if (!icuMatch) return undefined;
+
+  const [, name, type] = icuMatch;
+  switch (type) {
+    case undefined:
+      return [name, 'string | number'];
+    case 'select':
+      return [name, 'string'];
+    case 'date':
+    case 'time':
+      return [name, 'Date | number'];
+    default:
+      return [name, 'number'];
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  filterWorkspacePackages,
+  findWorkspacePackages,
+} from '@/core/workspace';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+let root: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'labeleer-'));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+async function addPackage(directory: string, name?: string) {
+  await mkdir(join(root, directory), { recursive: true });
+  await writeFile(join(root, directory, 'labeleer.json'), '{}');
+  if (name) {
+    await writeFile(
+      join(root, directory, 'package.json'),
+      JSON.stringify({ name })
+    );
+  }
+}
+
+describe('findWorkspacePackages', () => {
+  it('finds the packages of a pnpm workspace that have a labeleer.json', async () => {
+    await writeFile(
+      join(root, 'pnpm-workspace.yaml'),
+      "packages:\n  - 'apps/*' # apps\n  - packages/*\n  - '!packages/legacy'\nonlyBuiltDependencies: []\n"
+    );
+    await addPackage('apps/web', '@acme/web');
+    await addPackage('packages/ui');
+    await addPackage('packages/legacy');
+    await mkdir(join(root, 'packages/utils'), { recursive: true });
+
+    expect(await findWorkspacePackages(root)).toEqual({
+      success: true,
+      value: [
+        { name: '@acme/web', directory: join('apps', 'web') },
+        { name: join('packages', 'ui'), directory: join('packages', 'ui') },
+      ],
+    });
+  });
+
+  it('prefers the packages listed in the root labeleer.json', async () => {
+    await writeFile(
+      join(root, 'labeleer.json'),
+      JSON.stringify({ workspace: { packages: ['mobile'] } })
+    );
+    await writeFile(
+      join(root, 'package.json'),
+      JSON.stringify({ workspaces: ['apps/*'] })
+    );
+    await addPackage('mobile');
+    await addPackage('apps/web');
+
+    const packages = await findWorkspacePackages(root);
+
+    expect(packages.success && packages.value).toEqual([
+      { name: 'mobile', directory: 'mobile' },
+    ]);
+  });
+
+  it('reads the workspaces of package.json', async () => {
+    await writeFile(
+      join(root, 'package.json'),
+      JSON.stringify({ workspaces: { packages: ['apps/*'] } })
+    );
+    await addPackage('apps/web', 'web');
+
+    const packages = await findWorkspacePackages(root);
+
+    expect(packages.success && packages.value).toEqual([
+      { name: 'web', directory: join('apps', 'web') },
+    ]);
+  });
+
+  it('fails outside of a workspace', async () => {
+    expect((await findWorkspacePackages(root)).success).toBe(false);
+  });
+});
+
+describe('filterWorkspacePackages', () => {
+  const packages = [
+    { name: '@acme/web', directory: 'apps/web' },
+    { name: '@acme/ui', directory: 'packages/ui' },
+    { name: 'docs', directory: 'docs' },
+  ];
+
+  it('matches names and directories with wildcards', () => {
+    expect(
+      filterWorkspacePackages(packages, ['@acme/w*', './packages/*/']).map(
+        workspacePackage => workspacePackage.name
+      )
+    ).toEqual(['@acme/web', '@acme/ui']);
+  });
+
+  it('selects every package without filters', () => {
+    expect(filterWorkspacePackages(packages, [])).toBe(packages);
+  });
+});
@@ -0,0 +1,205 @@
+import { getIgnorePatterns } from '@/core/file-discovery';
+import { getProjectConfigFilePath } from '@/core/project-setup';
+import { Err, Ok, type Result } from '@/core/result';
+import { readFile } from 'fs/promises';
+import { glob } from 'glob';
+import { dirname, join, relative } from 'path';
+import { z } from 'zod';
+
+export interface WorkspacePackage {
+  /**
+   * The name in the `package.json` of the package, or otherwise its directory.
+   */
+  name: string;
+  /**
+   * The directory of the package, relative to the workspace root.
+   */
+  directory: string;
+}
+
+/**
+ * A root `labeleer.json` that lists the packages of a workspace,
+ * which does not need to be a project itself.
+ */
+const WorkspaceSetupDecoder = z.object({
+  workspace: z.object({
+    packages: z.array(z.string()).min(1),
+  }),
+});
+
+const PackageJsonDecoder = z.object({
+  name: z.string().optional(),
+  workspaces: z
+    .union([
+      z.array(z.string()),
+      z.object({ packages: z.array(z.string()).optional() }),
+    ])
+    .optional(),
+});
+
+/**
+ * Finds the packages of the workspace that have their own `labeleer.json`.
+ * The package directories are taken from the `workspace.packages` field of the root
+ * `labeleer.json`, or otherwise from `pnpm-workspace.yaml` or the `workspaces`
+ * field of the root `package.json`.
+ */
+export async function findWorkspacePackages(
+  root: string = process.cwd()
+): Promise<Result<WorkspacePackage[]>> {
+  const patterns = await readWorkspacePatterns(root);
+
+  if (!patterns.success) return patterns;
+
+  const include = patterns.value.filter(pattern => !pattern.startsWith('!'));
+  const exclude = patterns.value
+    .filter(pattern => pattern.startsWith('!'))
+    .map(pattern => pattern.slice(1));
+  const configPaths = await glob(
+    include.map(pattern =>
+      relative(root, getProjectConfigFilePath(join(root, pattern)))
+    ),
+    {
+      cwd: root,
+      nodir: true,
+      ignore: [
+        ...getIgnorePatterns(root),
+        ...exclude.map(pattern =>
+          relative(root, getProjectConfigFilePath(join(root, pattern)))
+        ),
+      ],
+    }
+  );
+
+  if (!configPaths.length) {
+    return Err(
+      `None of the workspace packages has a labeleer.json (${include.join(', ')}).`
+    );
+  }
+
+  const packages = await Promise.all(
+    configPaths.map(path => readWorkspacePackage(root, dirname(path)))
+  );
+
+  return Ok(packages.sort((a, b) => a.directory.localeCompare(b.directory)));
+}
+
+/**
+ * Selects the packages whose name or directory matches any of the filters,
+ * e.g. `web`, `@acme/*` or `apps/*`. Without filters, all packages are selected.
+ */
+export function filterWorkspacePackages(
+  packages: WorkspacePackage[],
+  filters: string[]
+): WorkspacePackage[] {
+  if (!filters.length) return packages;
+
+  const expressions = filters.map(toFilterExpression);
+
+  return packages.filter(workspacePackage =>
+    expressions.some(
+      expression =>
+        expression.test(workspacePackage.name) ||
+        expression.test(workspacePackage.directory)
+    )
+  );
+}
+
+async function readWorkspacePatterns(root: string): Promise<Result<string[]>> {
+  const setup = WorkspaceSetupDecoder.safeParse(
+    await readJsonFile(getProjectConfigFilePath(root))
+  );
+  if (setup.success) return Ok(setup.data.workspace.packages);
+
+  const pnpmPatterns = await readPnpmWorkspacePatterns(root);
+  if (pnpmPatterns.length) return Ok(pnpmPatterns);
+
+  const packageJson = PackageJsonDecoder.safeParse(
+    await readJsonFile(join(root, 'package.json'))
+  );
+  const workspaces = packageJson.success
+    ? packageJson.data.workspaces
+    : undefined;
+  const npmPatterns = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces?.packages ?? []);
+  if (npmPatterns.length) return Ok(npmPatterns);
+
+  return Err(
+    'No workspace found. List the packages under "workspace.packages" in labeleer.json, or run from the root of a pnpm or npm workspace.'
+  );
+}
+
+/**
+ * Reads the `packages` list of `pnpm-workspace.yaml`. Only the block and flow
+ * sequences that pnpm documents are supported, other fields are ignored.
+ */
+async function readPnpmWorkspacePatterns(root: string): Promise<string[]> {
+  let content: string;
+
+  try {
+    content = await readFile(join(root, 'pnpm-workspace.yaml'), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const lines = content.split(/\r?\n/);
+  const start = lines.findIndex(line => /^packages\s*:/.test(line));
+
+  if (start === -1) return [];
+
+  const unquote = (value: string) =>
+    value
+      .replace(/\s+#.*$/, '')
+      .trim()
+      .replace(/^(['"])(.*)\1$/, '$2');
+  const flowSequence = lines[start].match(/^packages\s*:\s*\[(.*)]/);
+
+  if (flowSequence) {
+    return flowSequence[1].split(',').map(unquote).filter(Boolean);
+  }
+
+  const patterns: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\S/.test(line)) break;
+
+    const item = line.match(/^\s+-\s*(.+)$/);
+    if (item) patterns.push(unquote(item[1]));
+  }
+
+  return patterns.filter(Boolean);
+}
+
+async function readWorkspacePackage(
+  root: string,
+  directory: string
+): Promise<WorkspacePackage> {
+  const packageJson = PackageJsonDecoder.safeParse(
+    await readJsonFile(join(root, directory, 'package.json'))
+  );
+  const name = packageJson.success ? packageJson.data.name : undefined;
+
+  return { name: name ?? directory, directory };
+}
+
+async function readJsonFile(path: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turns a filter into an expression where `*` matches any characters.
+ * A leading `./` is ignored, so directories can be passed as paths.
+ */
+function toFilterExpression(filter: string): RegExp {
+  const pattern = filter
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${pattern}$`);
+}
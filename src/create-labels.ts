@@ -1,23 +1,34 @@
-import makeRequest from '@/fetch';
+import { recordSnapshot } from '@/core/label-history';
+import {
+  getLocalLabelFiles,
+  readLocalLabels,
+  writeLocalLabels,
+} from '@/core/local-labels';
+import {
+  getTranslationProvider,
+  type MachineTranslation,
+} from '@/core/machine-translation';
+import {
+  type PlaceholderIssue,
+  validatePlaceholders,
+} from '@/core/placeholder-validation';
+import { markForReview } from '@/core/review-state';
+import makeRequest, { LocaleResponseDecoder } from '@/fetch';
+import { inquireConfirmation } from '@/inquire/confirmation';
+import { printPlaceholderIssues } from '@/placeholder-report';
+import { tryTranslateNewLabel } from '@/translate-labels';
 import { exitMessage, log, theme } from '@/utils';
 import { input, select } from '@inquirer/prompts';
 import chalk from 'chalk';
-import { readFileSync } from 'fs';
-import { type LabelFile, type ProjectConfig } from 'labeleer-cli';
-import { writeFileSync } from 'node:fs';
+import {
+  type LabelFile,
+  type PartialConfig,
+  type ProjectConfig,
+} from 'labeleer-cli';
 import ora from 'ora';
-import { z } from 'zod';
+import { type z } from 'zod';
 
-const languageResponseSchema = z.object({
-  data: z.array(
-    z.object({
-      locale: z.string(),
-      isReference: z.boolean(),
-    })
-  ),
-});
-
-type LocaleEntry = z.infer<typeof languageResponseSchema>['data'][number];
+export type LocaleEntry = z.infer<typeof LocaleResponseDecoder>['data'][number];
 
 export async function tryCreateLabel(config: ProjectConfig) {
   const locales: LocaleEntry[] = await tryFetchLanguages(config);
@@ -51,18 +62,30 @@ export async function tryCreateLabel(config: ProjectConfig) {
     return;
   }
 
-  const currentLabelFile = readFileSync(config.localFilePath, 'utf-8');
-  const labelFile = parseLabelFile(currentLabelFile);
+  const machineTranslations = await inquireMachineTranslation(
+    labelName,
+    localeTranslations,
+    locales
+  );
 
-  labelFile[labelName] = labelFile[labelName] ?? { translations: {} };
-  for (const [locale, translation] of localeTranslations) {
-    labelFile[labelName].translations[locale] = translation;
+  const issues = validateLabelPlaceholders(
+    labelName,
+    localeTranslations,
+    locales
+  );
+
+  if (issues.length) {
+    printPlaceholderIssues(issues);
   }
 
-  // Write back to the label file
-  const updatedContent = JSON.stringify(labelFile, null, 2);
-  writeFileSync(config.localFilePath, updatedContent, 'utf-8');
-  log(chalk.blue(`Label '${labelName}' has been added to the label file.`));
+  if (
+    !issues.length ||
+    (await inquireConfirmation('Add the label anyway?', { interactive: true }))
+  ) {
+    if (await tryAddLabel(config, labelName, localeTranslations, locales)) {
+      await markForReview(machineTranslations);
+    }
+  }
 
   const action = await select(
     {
@@ -83,12 +106,116 @@ export async function tryCreateLabel(config: ProjectConfig) {
   await tryCreateLabel(config);
 }
 
-function parseLabelFile(content: string): LabelFile {
-  return JSON.parse(content) as LabelFile; // Currently only supports JSON.
+/**
+ * Offers to fill the locales that have been left empty,
+ * when a translation provider is configured in `labeleer.json`.
+ */
+async function inquireMachineTranslation(
+  labelName: string,
+  translations: Map<string, string>,
+  locales: LocaleEntry[]
+): Promise<MachineTranslation[]> {
+  const provider = await getTranslationProvider();
+  const emptyLocales = locales.filter(entry => !translations.get(entry.locale));
+
+  if (
+    !provider.success ||
+    !emptyLocales.length ||
+    !(await inquireConfirmation(
+      `Fill ${emptyLocales.length} empty locale(s) through machine translation?`,
+      { interactive: true }
+    ))
+  ) {
+    return [];
+  }
+
+  return await tryTranslateNewLabel(
+    provider.value,
+    labelName,
+    translations,
+    locales
+  );
+}
+
+/**
+ * Adds a label with the provided translations to the local label files,
+ * replacing existing translations for the same locales.
+ * The files are read and written in their own format, keeping the order of the existing labels.
+ *
+ * @returns Whether the label has been added.
+ */
+export async function tryAddLabel(
+  config: ProjectConfig,
+  labelName: string,
+  translations: Map<string, string>,
+  locales: LocaleEntry[]
+): Promise<boolean> {
+  const files = getLocalLabelFiles(config);
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!files.success || !referenceLocale) {
+    log(
+      chalk.red(
+        files.success ? 'The project has no reference locale.' : files.error
+      )
+    );
+    return false;
+  }
+
+  const labelFile = await readLocalLabels(files.value, referenceLocale);
+
+  if (!labelFile.success) {
+    log(chalk.red(labelFile.error));
+    return false;
+  }
+
+  const entry = labelFile.value[labelName] ?? { translations: {} };
+  const createdLabels: LabelFile = {
+    ...labelFile.value,
+    [labelName]: {
+      ...entry,
+      translations: {
+        ...entry.translations,
+        ...Object.fromEntries(translations),
+      },
+    },
+  };
+
+  await recordSnapshot('create', labelFile.value, createdLabels);
+  const written = await writeLocalLabels(files.value, createdLabels, {
+    referenceLocale,
+    locales: locales.map(locale => locale.locale),
+  });
+
+  if (!written.success) {
+    log(chalk.red(written.error));
+    return false;
+  }
+
+  log(chalk.blue(`Label '${labelName}' has been added to the label file.`));
+  return true;
+}
+
+/**
+ * Validates the placeholders of a new label against its reference translation.
+ */
+export function validateLabelPlaceholders(
+  labelName: string,
+  translations: Map<string, string>,
+  locales: LocaleEntry[]
+): PlaceholderIssue[] {
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!referenceLocale) return [];
+
+  return validatePlaceholders(
+    { [labelName]: { translations: Object.fromEntries(translations) } },
+    referenceLocale
+  );
 }
 
-async function tryFetchLanguages(
-  config: ProjectConfig
+export async function tryFetchLanguages(
+  config: PartialConfig
 ): Promise<LocaleEntry[]> {
   const loader = ora({
     text: 'Loading languages from project',
@@ -100,19 +227,21 @@ async function tryFetchLanguages(
     'GET',
     {
       accessToken: config.accessToken,
-      decoder: languageResponseSchema,
+      decoder: LocaleResponseDecoder,
     }
   );
   loader.stop();
-  if (!locales?.data) {
-    loader.fail('Failed to load languages from project.');
+  if (!locales.success) {
+    loader.fail(
+      `Failed to load languages from project: ${locales.error.message}`
+    );
     process.exit(1);
   }
 
-  return locales.data;
+  return locales.value.data;
 }
 
-function processLabelName(label: string): boolean {
+export function processLabelName(label: string): boolean {
   return label.replace(/\s+/, '.').replace(/[^a-zA-Z0-9._-]+/g, '-') === label;
 }
 
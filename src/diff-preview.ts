@@ -0,0 +1,52 @@
+import { type LabelChange } from '@/core/label-diff';
+import { getLocaleName } from '@/create-labels';
+import { log } from '@/utils';
+import chalk from 'chalk';
+
+/**
+ * Prints the changes per locale, followed by a summary.
+ */
+export function printLabelDiff(changes: LabelChange[]) {
+  const changesPerLocale = new Map<string, LabelChange[]>();
+  for (const change of changes) {
+    changesPerLocale.set(change.locale, [
+      ...(changesPerLocale.get(change.locale) ?? []),
+      change,
+    ]);
+  }
+
+  for (const [locale, localeChanges] of changesPerLocale) {
+    log(chalk.bold(`${getLocaleName(locale)} ${chalk.gray(`(${locale})`)}`));
+
+    for (const change of localeChanges) {
+      log(`  ${formatChange(change)}`);
+    }
+  }
+
+  const count = (type: LabelChange['type']) =>
+    changes.filter(change => change.type === type).length;
+
+  const summary = [
+    chalk.green(`${count('added')} added`),
+    chalk.yellow(`${count('changed')} changed`),
+  ];
+  // Publishing never removes translations, so its previews leave removals out.
+  if (count('removed')) {
+    summary.push(chalk.red(`${count('removed')} removed`));
+  }
+
+  log(summary.join(', '));
+}
+
+function formatChange(change: LabelChange): string {
+  switch (change.type) {
+    case 'added':
+      return chalk.green(`+ ${change.key}: ${JSON.stringify(change.after)}`);
+    case 'removed':
+      return chalk.red(`- ${change.key}: ${JSON.stringify(change.before)}`);
+    case 'changed':
+      return chalk.yellow(
+        `~ ${change.key}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`
+      );
+  }
+}
@@ -0,0 +1,219 @@
+import { CommandError, unwrapOrFail } from '@/commands/command';
+import {
+  applyKeyOperations,
+  describeKeyOperation,
+  type KeyOperation,
+} from '@/core/key-operations';
+import { recordSnapshot } from '@/core/label-history';
+import {
+  getLocalLabelFiles,
+  readLocalLabels,
+  writeLocalLabels,
+} from '@/core/local-labels';
+import { validatePlaceholders } from '@/core/placeholder-validation';
+import { withoutPseudoLocales } from '@/core/pseudo-localization';
+import { clearReview } from '@/core/review-state';
+import { Ok, type Result } from '@/core/result';
+import { tryFetchLanguages } from '@/create-labels';
+import {
+  inquireConfirmation,
+  type InteractionOptions,
+} from '@/inquire/confirmation';
+import { printPlaceholderIssues } from '@/placeholder-report';
+import {
+  deleteRemoteLabel,
+  fetchRemoteLabels,
+  updateRemoteLabel,
+} from '@/remote-labels';
+import { exitMessage, log } from '@/utils';
+import chalk from 'chalk';
+import type { LabelFile, ProjectConfig } from 'labeleer-cli';
+import ora from 'ora';
+
+export interface EditOptions extends InteractionOptions {
+  /**
+   * Only print the changes that would be made.
+   */
+  dryRun?: boolean;
+}
+
+interface PlannedOperation {
+  operation: KeyOperation;
+  /**
+   * The labels right after the operation has been applied.
+   */
+  labelFile: LabelFile;
+  /**
+   * The remote labels right after the operation has been applied, or `undefined`
+   * if the label does not exist in the remote project. Labels that have not
+   * been published yet are only changed locally.
+   */
+  remoteLabelFile?: LabelFile;
+}
+
+/**
+ * Applies the key operations to the local label files, and then to the remote project.
+ * The operations are derived from the local labels, e.g. to find every key
+ * in a namespace, and are shown and confirmed before anything is changed.
+ *
+ * @throws CommandError whenever an operation is invalid or cannot be applied.
+ */
+export async function tryEditLabels(
+  config: ProjectConfig,
+  getOperations: (labelFile: LabelFile) => Result<KeyOperation[]>,
+  options: EditOptions
+): Promise<void> {
+  const files = unwrapOrFail(getLocalLabelFiles(config));
+  const locales = await tryFetchLanguages(config);
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!referenceLocale) {
+    throw new CommandError('The project has no reference locale.');
+  }
+
+  const localLabels = unwrapOrFail(
+    await readLocalLabels(files, referenceLocale)
+  );
+  const operations = unwrapOrFail(getOperations(localLabels));
+
+  for (const operation of operations) {
+    if (
+      operation.type === 'set' &&
+      !locales.some(entry => entry.locale === operation.locale)
+    ) {
+      throw new CommandError(
+        `Locale '${operation.locale}' is not part of the project. Expected one of: ${locales.map(entry => entry.locale).join(', ')}.`
+      );
+    }
+  }
+
+  const remoteLoader = ora('Loading the remote project...').start();
+  const remoteLabels = await fetchRemoteLabels(config, referenceLocale);
+  remoteLoader.stop();
+
+  const plan = planOperations(
+    localLabels,
+    operations,
+    withoutPseudoLocales(unwrapOrFail(remoteLabels))
+  );
+  const editedLabels = plan.at(-1)?.labelFile ?? localLabels;
+  const editedKeys = operations
+    .filter(operation => operation.type === 'set')
+    .map(operation => operation.key);
+  const issues = validatePlaceholders(
+    Object.fromEntries(editedKeys.map(key => [key, editedLabels[key]])),
+    referenceLocale
+  );
+
+  if (issues.length) {
+    printPlaceholderIssues(issues);
+    throw new CommandError(
+      'The placeholders are inconsistent. Nothing has been changed.'
+    );
+  }
+
+  log(chalk.bold('The following changes will be made:'));
+  for (const { operation, remoteLabelFile } of plan) {
+    log(
+      `  ${describeKeyOperation(operation)}${remoteLabelFile ? '' : chalk.gray(' (local only, not published yet)')}`
+    );
+  }
+
+  if (options.dryRun) {
+    log(chalk.blue('Dry run, nothing has been changed.'));
+    return;
+  }
+
+  if (!(await inquireConfirmation('Apply these changes?', options))) {
+    exitMessage();
+    return;
+  }
+
+  await recordSnapshot(
+    [...new Set(operations.map(operation => operation.type))].join(', '),
+    localLabels,
+    editedLabels
+  );
+  unwrapOrFail(
+    await writeLocalLabels(files, editedLabels, {
+      referenceLocale,
+      locales: locales.map(entry => entry.locale),
+    })
+  );
+  // A translation that has been set by hand no longer needs a review.
+  await clearReview(operations.filter(operation => operation.type === 'set'));
+
+  const remotePlan = plan.filter(planned => planned.remoteLabelFile);
+  const loader = ora('Updating the remote project...').start();
+
+  for (const [index, planned] of remotePlan.entries()) {
+    const applied = await applyRemoteOperation(config, planned);
+
+    if (!applied.success) {
+      loader.fail(chalk.red(applied.error));
+      throw new CommandError(
+        `The local label files have been updated, but ${remotePlan.length - index} change(s) have not been applied to the project.`
+      );
+    }
+  }
+
+  loader.succeed(
+    chalk.green(
+      `Applied ${plan.length} change(s) locally and ${remotePlan.length} to the project.`
+    )
+  );
+}
+
+/**
+ * Applies the operations one by one, to the local labels as well as to the remote ones.
+ * The remote labels are updated with their own translations, so that translations
+ * which only exist locally or remotely are neither published nor overwritten.
+ */
+function planOperations(
+  labelFile: LabelFile,
+  operations: KeyOperation[],
+  remoteLabelFile: LabelFile
+): PlannedOperation[] {
+  const plan: PlannedOperation[] = [];
+  let current = labelFile;
+  let remote = remoteLabelFile;
+
+  for (const operation of operations) {
+    current = unwrapOrFail(applyKeyOperations(current, [operation]));
+
+    if (!remote[operation.key]) {
+      plan.push({ operation, labelFile: current });
+      continue;
+    }
+
+    remote = unwrapOrFail(applyKeyOperations(remote, [operation]));
+    plan.push({ operation, labelFile: current, remoteLabelFile: remote });
+  }
+
+  return plan;
+}
+
+async function applyRemoteOperation(
+  config: ProjectConfig,
+  { operation, remoteLabelFile }: PlannedOperation
+): Promise<Result<void>> {
+  if (!remoteLabelFile) return Ok(undefined);
+
+  switch (operation.type) {
+    case 'rename':
+      return await updateRemoteLabel(
+        config,
+        operation.key,
+        remoteLabelFile[operation.newKey],
+        operation.newKey
+      );
+    case 'set':
+      return await updateRemoteLabel(
+        config,
+        operation.key,
+        remoteLabelFile[operation.key]
+      );
+    case 'delete':
+      return await deleteRemoteLabel(config, operation.key);
+  }
+}
@@ -0,0 +1,252 @@
+import makeRequest, { getApiUrl, makeTextRequest } from '@/fetch';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+  vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+const config = { accessToken: 'token' };
+
+function respond(status: number, body = '', headers?: Record<string, string>) {
+  return new Response(body, { status, headers });
+}
+
+/**
+ * Runs the request while skipping the retry delays.
+ */
+async function settle<T>(request: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return request;
+}
+
+describe('makeRequest', () => {
+  it('sends the token and body to the API and decodes the response', async () => {
+    fetchMock.mockResolvedValue(respond(200, '{"count": 2}'));
+
+    const result = await makeRequest('/project/p1/translations', 'POST', {
+      ...config,
+      body: { entries: {} },
+      query: { locale: 'de_DE' },
+      decoder: z.object({ count: z.number() }),
+    });
+
+    expect(result).toEqual({ success: true, value: { count: 2 } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'https://labeleer.com/api/project/p1/translations?locale=de_DE'
+    );
+    expect(init).toMatchObject({
+      method: 'POST',
+      body: '{"entries":{}}',
+      headers: { Authorization: 'Bearer token' },
+    });
+  });
+
+  it('uses the API URL of LABELEER_API_URL', async () => {
+    vi.stubEnv('LABELEER_API_URL', 'http://localhost:4000/api/');
+    fetchMock.mockResolvedValue(respond(200, 'labels'));
+
+    expect(getApiUrl()).toBe('http://localhost:4000/api');
+    expect(
+      await makeTextRequest('/project/p1/translations/export', 'GET', config)
+    ).toEqual({ success: true, value: 'labels' });
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:4000/api/project/p1/translations/export'
+    );
+  });
+
+  it('rejects responses that do not match the decoder', async () => {
+    fetchMock.mockResolvedValue(respond(200, '{"count": "two"}'));
+
+    expect(
+      await makeRequest('/project/p1/locale', 'GET', {
+        ...config,
+        decoder: z.object({ count: z.number() }),
+      })
+    ).toEqual({
+      success: false,
+      error: {
+        type: 'server',
+        status: 200,
+        message: 'Unexpected response from /project/p1/locale',
+      },
+    });
+  });
+
+  it.each([
+    [
+      401,
+      '{"message": "Invalid token"}',
+      'auth',
+      'Authentication failed. Check the project ID and access token: Invalid token',
+    ],
+    [
+      403,
+      '',
+      'auth',
+      'Authentication failed. Check the project ID and access token',
+    ],
+    [
+      404,
+      'Not Found',
+      'not_found',
+      'The project or resource was not found: Not Found',
+    ],
+    [
+      422,
+      '{"error": "Unknown locale"}',
+      'validation',
+      'The request was rejected (422): Unknown locale',
+    ],
+    [429, '', 'rate_limit', 'Too many requests. Try again later'],
+    [500, '', 'server', 'The server responded with 500'],
+  ])('classifies a %i response', async (status, body, type, message) => {
+    fetchMock.mockImplementation(() => Promise.resolve(respond(status, body)));
+
+    expect(
+      await settle(makeRequest('/project/p1/locale', 'GET', config))
+    ).toEqual({ success: false, error: { type, status, message } });
+  });
+
+  it('reports network errors', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    expect(
+      await settle(
+        makeRequest('/project/p1/locale', 'GET', { ...config, retries: 0 })
+      )
+    ).toEqual({
+      success: false,
+      error: {
+        type: 'network',
+        message:
+          'Unable to reach https://labeleer.com/api/project/p1/locale: fetch failed',
+      },
+    });
+  });
+
+  it('times out attempts that take too long', async () => {
+    vi.useRealTimers();
+    fetchMock.mockImplementation(
+      (_, init) =>
+        new Promise((_, reject) =>
+          init?.signal?.addEventListener('abort', () =>
+            reject(init.signal?.reason as Error)
+          )
+        )
+    );
+
+    expect(
+      await makeRequest('/project/p1/locale', 'GET', {
+        ...config,
+        timeout: 10,
+        retries: 0,
+      })
+    ).toEqual({
+      success: false,
+      error: {
+        type: 'network',
+        message:
+          'The request to https://labeleer.com/api/project/p1/locale timed out after 0.01s',
+      },
+    });
+  });
+
+  it('retries rate limits and server errors until the retries run out', async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(respond(503)));
+
+    const result = await settle(
+      makeRequest('/project/p1/locale', 'GET', config)
+    );
+
+    expect(result.success).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('backs off exponentially', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    fetchMock
+      .mockResolvedValueOnce(respond(500))
+      .mockResolvedValueOnce(respond(500))
+      .mockResolvedValueOnce(respond(200, '{}'));
+
+    const request = makeRequest('/project/p1/locale', 'GET', config);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect((await request).success).toBe(true);
+  });
+
+  it.each([
+    ['GET', 502, 4],
+    ['PUT', 502, 4],
+    ['DELETE', 502, 4],
+    ['POST', 502, 1],
+    ['POST', 429, 4],
+  ] as const)(
+    'retries a %s request after a %i response as often as is safe',
+    async (method, status, attempts) => {
+      fetchMock.mockImplementation(() => Promise.resolve(respond(status)));
+
+      await settle(makeRequest('/project/p1/translations', method, config));
+
+      expect(fetchMock).toHaveBeenCalledTimes(attempts);
+    }
+  );
+
+  it('only retries idempotent requests after network errors', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await settle(makeRequest('/project/p1/translations', 'POST', config));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await settle(makeRequest('/project/p1/translations/key', 'PUT', config));
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('waits as long as Retry-After asks, in seconds or as a date', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(429, '', { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(
+        respond(429, '', { 'Retry-After': 'Mon, 01 Jan 2024 00:00:12 GMT' })
+      )
+      .mockResolvedValueOnce(respond(200, '{}'));
+
+    const request = makeRequest('/project/p1/translations', 'POST', config);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect((await request).success).toBe(true);
+  });
+
+  it('fails right away when Retry-After asks to wait too long', async () => {
+    fetchMock.mockResolvedValue(respond(429, '', { 'Retry-After': '86400' }));
+
+    expect(
+      await makeRequest('/project/p1/locale', 'GET', config)
+    ).toMatchObject({ success: false, error: { type: 'rate_limit' } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
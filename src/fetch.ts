@@ -1,36 +1,270 @@
-import { z, type ZodObject } from 'zod';
+import { Err, Ok, type Result } from '@/core/result';
+import { z, type ZodType } from 'zod';
 
-export default async function makeRequest<T extends ZodObject>(
+const DEFAULT_API_URL = 'https://labeleer.com/api';
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_RETRIES = 3;
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30_000;
+/**
+ * Methods that can be repeated without changing the outcome. Other requests are not
+ * retried after network and server errors, as they may have reached the server.
+ */
+const idempotentMethods = ['GET', 'PUT', 'DELETE'];
+
+export type ApiErrorType =
+  'auth' | 'not_found' | 'validation' | 'rate_limit' | 'server' | 'network';
+
+export interface ApiError {
+  type: ApiErrorType;
+  /**
+   * A message that can be shown to the user as is.
+   */
+  message: string;
+  /**
+   * The HTTP status of the response, absent for network errors.
+   */
+  status?: number;
+}
+
+export interface RequestConfig<T extends ZodType> {
+  accessToken: string;
+  decoder?: T;
+  headers?: Record<string, string>;
+  /**
+   * Serialized as JSON.
+   */
+  body?: unknown;
+  query?: Record<string, string>;
+  /**
+   * Milliseconds to wait for a single attempt.
+   */
+  timeout?: number;
+  /**
+   * How often a request is retried after a rate limit, or a network or server error
+   * of an idempotent request.
+   */
+  retries?: number;
+}
+
+/**
+ * The base URL of the API, configurable through `LABELEER_API_URL`
+ * to use a self-hosted instance or a local mock.
+ */
+export function getApiUrl(): string {
+  return (process.env.LABELEER_API_URL || DEFAULT_API_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Sends a request to the API and decodes the JSON response.
+ * Rate limited requests, and idempotent requests that failed on the network or server,
+ * are retried with exponential backoff.
+ */
+export default async function makeRequest<T extends ZodType = z.ZodUnknown>(
+  endpoint: Endpoint,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+  config: RequestConfig<T>
+): Promise<Result<z.infer<T>, ApiError>> {
+  const response = await sendRequest(endpoint, method, config);
+
+  if (!response.success) return response;
+
+  const text = await response.value.text();
+  let json: unknown;
+
+  try {
+    json = text ? JSON.parse(text) : undefined;
+  } catch {
+    return Err(unexpectedResponseError(endpoint, response.value.status));
+  }
+
+  // Without a decoder, the caller is not interested in the response body.
+  if (!config.decoder) return Ok(json as z.infer<T>);
+
+  const decoded = config.decoder.safeParse(json);
+
+  if (!decoded.success) {
+    return Err(unexpectedResponseError(endpoint, response.value.status));
+  }
+
+  return Ok(decoded.data);
+}
+
+/**
+ * Sends a request to the API and returns the raw response body, e.g. for exports.
+ */
+export async function makeTextRequest(
   endpoint: Endpoint,
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-  config: {
-    accessToken: string;
-    decoder?: T;
-    headers?: Record<string, string>;
-    body?: any;
-  }
-): Promise<z.infer<T> | undefined> {
-  const path = `https://labeleer.com/api/${endpoint}`;
-  return await fetch(path, {
-    method,
-    headers: {
-      'Content-Type': 'application/json',
-      ...(config?.headers ?? {}),
-      Authorization: `Bearer ${config.accessToken}`,
-      'User-Agent': 'Labeleer-CLI',
-    },
-  })
-    .then(res => res.json())
-    .then(res => {
-      if (!config.decoder) return;
-
-      const decoded = config.decoder.safeParse(res);
-      if (!decoded.success) {
-        return undefined;
+  config: RequestConfig<never>
+): Promise<Result<string, ApiError>> {
+  const response = await sendRequest(endpoint, method, config);
+
+  if (!response.success) return response;
+
+  return Ok(await response.value.text());
+}
+
+async function sendRequest<T extends ZodType>(
+  endpoint: Endpoint,
+  method: string,
+  config: RequestConfig<T>
+): Promise<Result<Response, ApiError>> {
+  const query = config.query
+    ? `?${new URLSearchParams(config.query).toString()}`
+    : '';
+  const url = `${getApiUrl()}${endpoint}${query}`;
+  const retries = config.retries ?? DEFAULT_RETRIES;
+  const timeout = config.timeout ?? DEFAULT_TIMEOUT;
+  const isIdempotent = idempotentMethods.includes(method);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.headers ?? {}),
+          Authorization: `Bearer ${config.accessToken}`,
+          'User-Agent': 'Labeleer-CLI',
+        },
+        body:
+          config.body === undefined ? undefined : JSON.stringify(config.body),
+        signal: AbortSignal.timeout(timeout),
+      });
+    } catch (error) {
+      if (isIdempotent && attempt < retries) {
+        await sleep(getRetryDelay(attempt));
+        continue;
       }
+      return Err(networkError(url, error, timeout));
+    }
+
+    if (response.ok) return Ok(response);
+
+    const isRetryable =
+      response.status === 429 || (isIdempotent && response.status >= 500);
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
 
-      return decoded.data;
-    });
+    // When the server asks to wait longer than the CLI is willing to, the request fails right away.
+    if (
+      isRetryable &&
+      attempt < retries &&
+      (retryAfter === undefined || retryAfter <= MAX_RETRY_DELAY)
+    ) {
+      await response.body?.cancel();
+      await sleep(retryAfter ?? getRetryDelay(attempt));
+      continue;
+    }
+
+    return Err(await toApiError(response));
+  }
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const details = await readErrorDetails(response);
+  const status = response.status;
+  const withDetails = (message: string) =>
+    details ? `${message}: ${details}` : message;
+
+  if (status === 401 || status === 403) {
+    return {
+      type: 'auth',
+      status,
+      message: withDetails(
+        'Authentication failed. Check the project ID and access token'
+      ),
+    };
+  }
+  if (status === 404) {
+    return {
+      type: 'not_found',
+      status,
+      message: withDetails('The project or resource was not found'),
+    };
+  }
+  if (status === 429) {
+    return {
+      type: 'rate_limit',
+      status,
+      message: 'Too many requests. Try again later',
+    };
+  }
+  if (status >= 500) {
+    return {
+      type: 'server',
+      status,
+      message: withDetails(`The server responded with ${status}`),
+    };
+  }
+
+  return {
+    type: 'validation',
+    status,
+    message: withDetails(`The request was rejected (${status})`),
+  };
+}
+
+/**
+ * Extracts the error message from the response body, which is either
+ * JSON with a `message` or `error` field, or plain text.
+ */
+async function readErrorDetails(response: Response): Promise<string> {
+  const text = (await response.text().catch(() => '')).trim();
+
+  try {
+    const json = ErrorResponseDecoder.safeParse(JSON.parse(text));
+    if (json.success) return json.data.message ?? json.data.error ?? '';
+  } catch {
+    // Not JSON, the text is used as is.
+  }
+
+  return text.slice(0, 500);
+}
+
+function networkError(url: string, error: unknown, timeout: number): ApiError {
+  const isTimeout = error instanceof Error && error.name === 'TimeoutError';
+
+  return {
+    type: 'network',
+    message: isTimeout
+      ? `The request to ${url} timed out after ${timeout / 1000}s`
+      : `Unable to reach ${url}: ${error instanceof Error ? error.message : String(error)}`,
+  };
+}
+
+function unexpectedResponseError(endpoint: string, status: number): ApiError {
+  return {
+    type: 'server',
+    status,
+    message: `Unexpected response from ${endpoint}`,
+  };
+}
+
+/**
+ * Exponential backoff with jitter, used unless the server says when to retry.
+ */
+function getRetryDelay(attempt: number): number {
+  return BASE_RETRY_DELAY * 2 ** attempt * (1 + Math.random() / 2);
+}
+
+/**
+ * Converts a `Retry-After` header, either in seconds or an HTTP date, into milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value?.trim()) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(milliseconds: number) {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
 }
 
 export type Endpoint =
@@ -50,3 +284,8 @@ export const LocaleResponseDecoder = z.object({
     })
   ),
 });
+
+const ErrorResponseDecoder = z.object({
+  message: z.string().optional(),
+  error: z.string().optional(),
+});
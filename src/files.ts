@@ -1,4 +1,5 @@
 import {
+  getFileExtensionsFromFormat,
   getFormatForExtension,
   type SupportedFormat,
 } from '@labeleer/translation-dataset-transformers';
@@ -16,3 +17,20 @@ export function inferFileFormatFromFileName(
 
   return getFormatForExtension(`.${extension}`);
 }
+
+/**
+ * Builds a glob pattern that matches the file extensions of the provided formats,
+ * e.g. `{yaml,yml}`.
+ */
+export function getExtensionsGlobPattern(formats: SupportedFormat[]): string {
+  const extensions = formats
+    .flatMap(fmt => getFileExtensionsFromFormat(fmt))
+    .map(extension => extension.replace(/^\./, ''));
+
+  const uniqueExtensions = [...new Set(extensions)];
+
+  // Braces around a single alternative are not expanded by glob.
+  return uniqueExtensions.length === 1
+    ? uniqueExtensions[0]
+    : `{${uniqueExtensions.join(',')}}`;
+}
@@ -1,50 +1,56 @@
 #!/usr/bin/env node
-import { tryInquireProjectSetup } from '@/core/project-setup';
+import { CommandError } from '@/commands/command';
+import { runCommand } from '@/commands';
+import { findLabelFiles } from '@/core/file-discovery';
+import { hasProjectIdentityInEnv } from '@/core/project-location';
+import {
+  createConfigFromSetup,
+  tryInquireProjectSetup,
+} from '@/core/project-setup';
 import { tryCreateLabel } from '@/create-labels';
 import { inquireUserAction, UserAction } from '@/inquire/user-action';
+import { extractOrInquireLabelFilePaths } from '@/label-file-finder';
 import {
-  extractOrInquireLabelFilePaths,
-  tryFindLabelFiles,
-} from '@/label-file-finder';
-import { tryAcquireProjectConfig } from '@/project-settings';
-import { exitMessage } from '@/utils';
+  resolveProjectConfigFromIdentity,
+  tryAcquireProjectConfig,
+} from '@/project-settings';
+import { exitMessage, log } from '@/utils';
 import { tryPublishLocalLabels } from '@/publish-labels';
 import { tryRetrieveLabels } from '@/retrieve-labels';
 import chalk from 'chalk';
 import { type PartialConfig, type ProjectConfig } from 'labeleer-cli';
 
 async function main() {
-  console.log(
-    `${chalk.blue('┏━')} ${chalk.bgBlack.bold.whiteBright('Labeleer CLI')}`
-  );
-
-  const projectSetup = await tryInquireProjectSetup();
-
-  const partialConfig: PartialConfig | undefined =
-    await tryAcquireProjectConfig();
+  const [commandName, ...args] = process.argv.slice(2);
 
-  if (!partialConfig) {
-    process.exit(0);
+  // Subcommands may write machine-readable output when stdout is redirected.
+  if (!commandName || process.stdout.isTTY) {
+    console.log(
+      `${chalk.blue('┏━')} ${chalk.bgBlack.bold.whiteBright('Labeleer CLI')}`
+    );
   }
 
-  const possibleLabelFiles: string[] = await tryFindLabelFiles();
+  if (commandName) {
+    await runCommand(commandName, args);
+    return;
+  }
 
-  const { path: localFilePath, isNew } =
-    await extractOrInquireLabelFilePaths(possibleLabelFiles);
+  await runInteractiveSession();
+}
 
-  const config: ProjectConfig = {
-    ...partialConfig,
-    localFilePath,
-  };
+async function runInteractiveSession() {
+  const { config, isNew } = hasProjectIdentityInEnv()
+    ? await resolveIdentityConfig()
+    : await inquireConfig();
 
   const action = await inquireUserAction({ isNew });
 
   switch (action) {
     case UserAction.RETRIEVE:
-      await tryRetrieveLabels(config);
+      await tryRetrieveLabels(config, { interactive: true });
       return;
     case UserAction.PUBLISH:
-      await tryPublishLocalLabels(config);
+      await tryPublishLocalLabels(config, { interactive: true });
       return;
     case UserAction.CREATE:
       await tryCreateLabel(config);
@@ -54,11 +60,65 @@ async function main() {
   }
 }
 
+interface SessionConfig {
+  config: ProjectConfig;
+  isNew: boolean;
+}
+
+/**
+ * Resolves the configuration from the `LABELEER_PROJECT` environment variable,
+ * without any prompts.
+ */
+async function resolveIdentityConfig(): Promise<SessionConfig> {
+  const config = await resolveProjectConfigFromIdentity({});
+
+  if (!config.success) {
+    log(chalk.red(config.error));
+    process.exit(1);
+  }
+
+  log(chalk.blue('Using project configuration from LABELEER_PROJECT.'));
+
+  return { config: config.value, isNew: false };
+}
+
+async function inquireConfig(): Promise<SessionConfig> {
+  const projectSetup = await tryInquireProjectSetup();
+
+  const partialConfig: PartialConfig | undefined =
+    await tryAcquireProjectConfig();
+
+  if (!partialConfig) {
+    process.exit(0);
+  }
+
+  const setup = projectSetup.success ? projectSetup.value : undefined;
+
+  return setup
+    ? { config: createConfigFromSetup(partialConfig, setup), isNew: false }
+    : await inquireLocalFileConfig(partialConfig);
+}
+
+async function inquireLocalFileConfig(
+  partialConfig: PartialConfig
+): Promise<SessionConfig> {
+  const possibleLabelFiles: string[] = await findLabelFiles();
+
+  const { path: localFilePath, isNew } =
+    await extractOrInquireLabelFilePaths(possibleLabelFiles);
+
+  return { config: { ...partialConfig, localFilePath }, isNew };
+}
+
 main().catch(error => {
   if (error instanceof Error && error.name === 'ExitPromptError') {
     exitMessage();
     process.exit(0);
   }
+  if (error instanceof CommandError) {
+    log(chalk.red(error.message));
+    process.exit(1);
+  }
   console.error(chalk.red('An unexpected error occurred:'), error);
   process.exit(1);
 });
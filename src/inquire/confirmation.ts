@@ -0,0 +1,33 @@
+import { CommandError } from '@/commands/command';
+import { inquireContinuationChoice } from '@/inquire/continuation-choice';
+
+export interface InteractionOptions {
+  /**
+   * Whether the user can be prompted.
+   * When `false`, anything that requires a decision fails instead.
+   */
+  interactive: boolean;
+  /**
+   * Confirms every prompt without asking.
+   */
+  yes?: boolean;
+}
+
+/**
+ * Asks the user to confirm an action, unless `yes` is set.
+ * Without a user to ask, this fails instead of waiting for input that will never arrive.
+ */
+export async function inquireConfirmation(
+  message: string,
+  options: InteractionOptions
+): Promise<boolean> {
+  if (options.yes) return true;
+
+  if (!options.interactive) {
+    throw new CommandError(
+      `${message} Re-run with --yes to confirm without a terminal.`
+    );
+  }
+
+  return await inquireContinuationChoice({ message });
+}
@@ -0,0 +1,60 @@
+import { type LabelConflict } from '@/core/label-merge';
+import { getLocaleName } from '@/create-labels';
+import { log, theme } from '@/utils';
+import { input, select } from '@inquirer/prompts';
+import chalk from 'chalk';
+
+const enum ConflictResolution {
+  KEEP_LOCAL = 'local',
+  TAKE_REMOTE = 'remote',
+  EDIT = 'edit',
+}
+
+/**
+ * Asks the user how to resolve a conflicting translation.
+ *
+ * @returns The resolved translation, or undefined if the translation should be removed.
+ */
+export async function inquireConflictResolution(
+  conflict: LabelConflict
+): Promise<string | undefined> {
+  log(
+    chalk.yellow(
+      `Conflict in ${chalk.bold(conflict.key)} for ${getLocaleName(conflict.locale)}:`
+    )
+  );
+  log(`  local:  ${formatValue(conflict.local)}`);
+  log(`  remote: ${formatValue(conflict.remote)}`);
+
+  const resolution = await select(
+    {
+      message: 'How would you like to resolve this conflict?',
+      choices: [
+        { name: 'Keep local', value: ConflictResolution.KEEP_LOCAL },
+        { name: 'Take remote', value: ConflictResolution.TAKE_REMOTE },
+        { name: 'Edit', value: ConflictResolution.EDIT },
+      ],
+      theme,
+    },
+    { clearPromptOnDone: true }
+  );
+
+  switch (resolution) {
+    case ConflictResolution.KEEP_LOCAL:
+      return conflict.local;
+    case ConflictResolution.TAKE_REMOTE:
+      return conflict.remote;
+    case ConflictResolution.EDIT:
+      return await input({
+        message: `Enter the value for ${chalk.underline(conflict.key)}:`,
+        default: conflict.local ?? conflict.remote,
+        theme,
+      });
+  }
+}
+
+export function formatValue(value: string | undefined): string {
+  return value === undefined
+    ? chalk.italic.gray('(removed)')
+    : JSON.stringify(value);
+}
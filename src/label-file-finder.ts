@@ -9,39 +9,36 @@ import { toRelativePath } from '@/files';
 import { select } from '@inquirer/prompts';
 import chalk from 'chalk';
 import { writeFile } from 'fs/promises';
-import { glob } from 'glob';
 
 export interface FileIdentificationResult {
   path: string;
   isNew: boolean;
 }
 
-const globIgnorePatterns = [
-  'node_modules',
-  'dist',
-  'build',
-  'out',
-  'coverage',
-  '.tmp',
-  '.gradle',
-  'DerivedData',
-  'Pods',
-  'xcuserdata',
-  '.git',
-  '.idea',
-  'reports',
-  '__tests__',
-];
 const defaultLabelFileName = 'labels';
-const labelFileNames = ['labels', 'strings'];
 
 export async function extractOrInquireLabelFilePaths(
-  initialPath: string[]
+  candidates: string[]
 ): Promise<FileIdentificationResult> {
-  if (initialPath.length === 0) {
+  if (candidates.length === 0) {
     return await handleMissingLabelFiles();
   }
 
+  const initialPath =
+    candidates.length === 1
+      ? candidates[0]
+      : await select(
+          {
+            message: 'Found multiple label files. Please select one to use:',
+            choices: candidates.map(path => ({
+              name: toRelativePath(path),
+              value: path,
+            })),
+            theme,
+          },
+          { clearPromptOnDone: true }
+        );
+
   log(
     chalk.blue(
       `Using label file at ${chalk.bgBlack.bold.blueBright.underline(toRelativePath(initialPath))}`
@@ -86,26 +83,3 @@ async function handleMissingLabelFiles(): Promise<FileIdentificationResult> {
   );
   return { path: newLabelFilePath, isNew: true };
 }
-
-/**
- * Attempts to find a label file in the current working directory or its subdirectories.
- * If multiple label files are found, prompts the user to select one.
- *
- * @returns A Promise that resolves to the path of the found label file, or undefined if none found.
- */
-export async function tryFindLabelFiles(): Promise<string[]> {
-  const extensions: string[] = Object.values(SupportedFormat).flatMap(fmt =>
-    getFileExtensionsFromFormat(fmt)
-  );
-  const labelFileNamesPattern = `{${labelFileNames.join(',')}}`;
-  const extensionsPattern = `{${extensions.join(',')}}`;
-
-  const pattern: string = `**/${labelFileNamesPattern}.${extensionsPattern}`;
-
-  return await glob(pattern, {
-    cwd: process.cwd(),
-    nodir: true,
-    absolute: true,
-    ignore: globIgnorePatterns,
-  });
-}
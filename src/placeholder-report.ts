@@ -0,0 +1,31 @@
+import { type PlaceholderIssue } from '@/core/placeholder-validation';
+import { getLocaleName } from '@/create-labels';
+import { log } from '@/utils';
+import chalk from 'chalk';
+
+/**
+ * Prints the placeholder issues per locale, followed by a summary.
+ */
+export function printPlaceholderIssues(issues: PlaceholderIssue[]) {
+  const issuesPerLocale = new Map<string, PlaceholderIssue[]>();
+  for (const issue of issues) {
+    issuesPerLocale.set(issue.locale, [
+      ...(issuesPerLocale.get(issue.locale) ?? []),
+      issue,
+    ]);
+  }
+
+  for (const [locale, localeIssues] of issuesPerLocale) {
+    log(chalk.bold(`${getLocaleName(locale)} ${chalk.gray(`(${locale})`)}`));
+
+    for (const issue of localeIssues) {
+      log(`  ${chalk.red(`✗ ${issue.key}:`)} ${issue.message}`);
+    }
+  }
+
+  log(
+    issues.length === 0
+      ? chalk.green('All placeholders are consistent.')
+      : chalk.yellow(`${issues.length} placeholder issue(s) found.`)
+  );
+}
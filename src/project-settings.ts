@@ -1,54 +1,81 @@
-import { log, theme } from '@/utils';
-import { input, password, select } from '@inquirer/prompts';
+import {
+  extractProjectConfigFromEnv,
+  getLocalFileEntries,
+} from '@/core/project-location';
+import { getProjectSetup } from '@/core/project-setup';
+import {
+  DEFAULT_PROFILE,
+  readCredentialProfile,
+} from '@/core/credential-store';
+import { type EnvFile, findEnvFiles, readEnvFile } from '@/core/dotenv';
+import { Err, Ok, type Result } from '@/core/result';
+import { toRelativePath } from '@/files';
+import { log } from '@/utils';
+import { input, password } from '@inquirer/prompts';
 import chalk from 'chalk';
-import { readdir, readFile } from 'fs/promises';
-import type { PartialConfig } from 'labeleer-cli';
+import type { PartialConfig, ProjectConfig } from 'labeleer-cli';
+import { resolve } from 'path';
 
 /**
- * Attempts to acquire the project configuration by searching for .env files
- * in the current working directory. If found, it tries to read the access token
- * and project ID from the selected .env file. If no suitable .env file is found,
- * or if the required variables are missing, it prompts the user for input.
+ * Where the project configuration may be read from, besides the process environment.
+ */
+export interface ConfigSources {
+  /**
+   * A profile of the credential store, which takes precedence over the environment.
+   */
+  profile?: string;
+  /**
+   * A `.env` file to read instead of looking up `.env` files.
+   */
+  envFile?: string;
+}
+
+/**
+ * Attempts to acquire the project configuration from the process environment
+ * and the `.env` files from the current working directory up to the repository root,
+ * see {@link findEnvFiles}. If the required variables are missing, it falls back to
+ * the credentials stored through `labeleer-cli login`, and prompts the user for input
+ * as a last resort.
  *
  * @returns A Promise that resolves to the ProjectConfiguration or undefined if not acquired.
  */
 export async function tryAcquireProjectConfig(): Promise<
   PartialConfig | undefined
 > {
-  const penvSettings = tryExtractConfigFromProcessEnv();
-  if (penvSettings) {
+  const penvSettings = extractPartialConfig(process.env);
+  if (penvSettings.accessToken && penvSettings.projectId) {
     log(
       chalk.blue(
         'Using project configuration from process environment variables.'
       )
     );
-    return penvSettings;
+    return {
+      accessToken: penvSettings.accessToken,
+      projectId: penvSettings.projectId,
+    };
   }
 
-  const envFileExpression = /\.env(\..*)?$/;
-  const files = await readdir(process.cwd());
-  const dotEnvCandidates: string[] = files.filter(fileName =>
-    envFileExpression.test(fileName)
-  );
+  const envFiles = await readEnvFiles();
 
-  if (!dotEnvCandidates.length) {
-    log(chalk.yellow('Unable to locate any .env files.'));
-    return await inquireProjectConfig();
+  if (!envFiles.success) {
+    log(chalk.yellow(envFiles.error));
+    return await readStoredOrInquireProjectConfig();
   }
-
-  const dotEnvPath = await tryDeduceEnvFilePathFromCandidates(dotEnvCandidates);
-
-  if (!dotEnvPath) {
-    log(chalk.yellow('No .env file selected.'));
-    return await inquireProjectConfig();
+  if (!envFiles.value.length) {
+    log(chalk.yellow('Unable to locate any .env files.'));
+    return await readStoredOrInquireProjectConfig();
   }
 
-  const projectFromEnv = await tryReadTokenFromEnv(dotEnvPath);
+  const { accessToken, projectId } = mergePartialConfigs([
+    penvSettings,
+    ...envFiles.value.map(file => extractPartialConfig(file.variables)),
+  ]);
+  const envFilePaths = envFiles.value.map(file => toRelativePath(file.path));
 
-  if (!projectFromEnv) {
+  if (!accessToken || !projectId) {
     log(
       chalk.yellow(
-        `Unable to locate project configuration from ${chalk.bold.yellowBright(dotEnvPath)}.`
+        `Unable to locate project configuration from ${chalk.bold.yellowBright(envFilePaths.join(', '))}.`
       )
     );
     log(
@@ -56,16 +83,49 @@ export async function tryAcquireProjectConfig(): Promise<
         `Make sure it contains both ${chalk.bold.yellowBright('LABELEER_ACCESS_TOKEN')} and ${chalk.bold.yellowBright('LABELEER_PROJECT_ID')}.`
       )
     );
-    return await inquireProjectConfig();
+    return await readStoredOrInquireProjectConfig();
   }
 
   log(
-    chalk.blue('Using environment file ') +
-      chalk.bold.underline.bgBlack.blueBright(`${dotEnvPath}`) +
+    chalk.blue('Using environment file(s) ') +
+      chalk.bold.underline.bgBlack.blueBright(envFilePaths.join(', ')) +
       chalk.blue(' for project configuration.')
   );
 
-  return projectFromEnv;
+  return { accessToken, projectId };
+}
+
+/**
+ * Reads the credentials of the default profile, see {@link getDefaultProfile},
+ * or prompts the user for them if none are stored.
+ */
+async function readStoredOrInquireProjectConfig(): Promise<
+  PartialConfig | undefined
+> {
+  const profile = await getDefaultProfile();
+  const storedConfig = await readCredentialProfile(profile);
+
+  if (!storedConfig.success) {
+    return await inquireProjectConfig();
+  }
+
+  log(
+    chalk.blue('Using stored credentials of profile ') +
+      chalk.bold.underline.bgBlack.blueBright(profile) +
+      chalk.blue('.')
+  );
+
+  return storedConfig.value;
+}
+
+/**
+ * The profile that is used when none is passed with `--profile`.
+ * A repository can pick one with the `profile` field in `labeleer.json`.
+ */
+export async function getDefaultProfile(): Promise<string> {
+  const setup = await getProjectSetup();
+
+  return (setup.success ? setup.value.profile : undefined) ?? DEFAULT_PROFILE;
 }
 
 /**
@@ -91,108 +151,151 @@ async function inquireProjectConfig(): Promise<PartialConfig | undefined> {
 }
 
 /**
- * Reads the specified .env file to extract the project access token and project ID.
- * If multiple tokens or IDs are found, prompts the user to select one of each.
- *
- * @param envFilePath - The path to the .env file.
- * @returns A Promise that resolves to the ProjectConfiguration or undefined if not found.
+ * Resolves the project configuration without prompting the user.
+ * Each value is taken from the first source that defines it:
+ * explicitly provided values, an explicitly selected profile, the process environment,
+ * the `.env` files (or only the `--env-file`) and finally the default profile
+ * of the credential store.
+ * Fails when a value is missing.
  */
-async function tryReadTokenFromEnv(
-  envFilePath: string
-): Promise<PartialConfig | undefined> {
-  const content = await readFile(envFilePath, { encoding: 'utf-8' });
-  const accessTokenExpr = /^LABELEER.*TOKEN=['"]?([a-zA-Z0-9_-]+)['"]$/;
-  const projectIdExpr = /^LABELEER.*PROJECT_ID=['"]?([a-zA-Z0-9_-]+)['"]$/;
-
-  const accessTokenCandidates: string[] = [];
-  const projectIdCandidates: string[] = [];
-
-  for (const line of content.split('\n')) {
-    const accessTokenMatch = line.match(accessTokenExpr);
-    const projectIdMatch = line.match(projectIdExpr);
-
-    if (accessTokenMatch) {
-      accessTokenCandidates.push(accessTokenMatch[1]);
-    }
-    if (projectIdMatch) {
-      projectIdCandidates.push(projectIdMatch[1]);
-    }
-  }
+export async function resolveProjectConfig(
+  overrides: Partial<PartialConfig>,
+  sources: ConfigSources = {}
+): Promise<Result<PartialConfig>> {
+  const profileSettings = sources.profile
+    ? await readCredentialProfile(sources.profile)
+    : undefined;
 
-  if (!accessTokenCandidates.length || !projectIdCandidates.length) {
-    return undefined;
-  }
+  if (profileSettings && !profileSettings.success) return profileSettings;
 
-  if (accessTokenCandidates.length === 1 && projectIdCandidates.length === 1) {
-    return {
-      accessToken: accessTokenCandidates[0],
-      projectId: projectIdCandidates[0],
-    };
-  }
+  const candidates = [
+    overrides,
+    profileSettings?.value ?? {},
+    extractPartialConfig(process.env),
+  ];
+  let { accessToken, projectId } = mergePartialConfigs(candidates);
 
-  const accessToken = await select({
-    message: 'Multiple access tokens found. Please select one:',
-    choices: accessTokenCandidates.map(token => ({
-      name: token,
-      value: token,
-    })),
-    theme,
-  });
+  if (!accessToken || !projectId) {
+    const envFiles = await readEnvFiles(sources.envFile);
 
-  const projectId = await select({
-    message: 'Multiple project IDs found. Please select one:',
-    choices: projectIdCandidates.map(id => ({
-      name: id,
-      value: id,
-    })),
-    theme,
-  });
+    if (!envFiles.success) return envFiles;
 
-  return { accessToken, projectId };
-}
+    candidates.push(
+      ...envFiles.value.map(file => extractPartialConfig(file.variables))
+    );
+    ({ accessToken, projectId } = mergePartialConfigs(candidates));
+  }
 
-function tryExtractConfigFromProcessEnv(): PartialConfig | undefined {
-  let accessToken: string | undefined = undefined;
-  let projectId: string | undefined = undefined;
+  if (!accessToken || !projectId) {
+    const storedSettings = await readCredentialProfile(
+      await getDefaultProfile()
+    );
 
-  for (const key of Object.keys(process.env)) {
-    if (/^LABELEER.*TOKEN$/.test(key) && process.env[key]) {
-      accessToken = process.env[key];
-    }
-    if (/^LABELEER.*PROJECT_ID$/.test(key) && process.env[key]) {
-      projectId = process.env[key];
+    if (storedSettings.success) {
+      accessToken ??= storedSettings.value.accessToken;
+      projectId ??= storedSettings.value.projectId;
     }
   }
 
-  if (accessToken && projectId) {
-    return { accessToken, projectId };
+  if (!accessToken) {
+    return Err(
+      "No access token found. Pass --token, set LABELEER_ACCESS_TOKEN or run 'labeleer-cli login'."
+    );
+  }
+  if (!projectId) {
+    return Err(
+      'No project ID found. Pass --project or set LABELEER_PROJECT_ID.'
+    );
   }
 
-  return undefined;
+  return Ok({ accessToken, projectId });
 }
 
 /**
- * Prompts the user to select one of the provided .env file candidates.
- *
- * @param candidates - An array of .env file names to choose from.
- * @returns A Promise that resolves to the selected .env file name or undefined if none selected.
+ * Reads the given `.env` file, or otherwise all `.env` files from the current
+ * working directory up to the repository root, ordered by precedence.
  */
-async function tryDeduceEnvFilePathFromCandidates(
-  candidates: string[]
-): Promise<string | undefined> {
-  if (candidates.length === 1) {
-    return candidates[0];
+async function readEnvFiles(envFile?: string): Promise<Result<EnvFile[]>> {
+  if (envFile) {
+    try {
+      return Ok([await readEnvFile(resolve(envFile))]);
+    } catch {
+      return Err(`Unable to read the environment file ${envFile}.`);
+    }
   }
 
-  return await select(
+  const paths = await findEnvFiles();
+
+  return Ok(await Promise.all(paths.map(path => readEnvFile(path))));
+}
+
+/**
+ * Takes each value from the first configuration that defines it.
+ */
+function mergePartialConfigs(
+  configs: Partial<PartialConfig>[]
+): Partial<PartialConfig> {
+  return {
+    accessToken: configs.find(config => config.accessToken)?.accessToken,
+    projectId: configs.find(config => config.projectId)?.projectId,
+  };
+}
+
+/**
+ * Extracts the project configuration from environment variables.
+ * `LABELEER_ACCESS_TOKEN` and `LABELEER_PROJECT_ID` are preferred, but any
+ * `LABELEER*TOKEN` and `LABELEER*PROJECT_ID` variable is accepted as well.
+ */
+function extractPartialConfig(
+  variables: Record<string, string | undefined>
+): Partial<PartialConfig> {
+  const findVariable = (name: string, expression: RegExp) =>
+    variables[name] ||
+    Object.entries(variables).find(
+      ([key, value]) => expression.test(key) && value
+    )?.[1];
+
+  return {
+    accessToken: findVariable('LABELEER_ACCESS_TOKEN', /^LABELEER.*TOKEN$/),
+    projectId: findVariable('LABELEER_PROJECT_ID', /^LABELEER.*PROJECT_ID$/),
+  };
+}
+
+/**
+ * Resolves the full configuration from the `LABELEER_PROJECT` environment variable,
+ * which identifies the project, the format of its label files and where to find them.
+ * The access token is resolved as in {@link resolveProjectConfig}.
+ */
+export async function resolveProjectConfigFromIdentity(
+  overrides: Partial<PartialConfig>,
+  sources: ConfigSources = {}
+): Promise<Result<ProjectConfig>> {
+  const location = await extractProjectConfigFromEnv();
+
+  if (!location.success) return location;
+
+  const partialConfig = await resolveProjectConfig(
     {
-      message: 'Identified multiple .env files. Please select one to use:',
-      choices: candidates.map(fileName => ({
-        name: fileName,
-        value: fileName,
-      })),
-      theme,
+      ...overrides,
+      projectId: overrides.projectId ?? location.value.projectId,
     },
-    { clearPromptOnDone: true }
+    sources
   );
+
+  if (!partialConfig.success) return partialConfig;
+
+  const localFiles = getLocalFileEntries(location.value);
+
+  if (!localFiles.length) {
+    return Err(
+      `Unable to infer the locales of the label files under ${location.value.basePath}.`
+    );
+  }
+
+  return Ok({
+    ...partialConfig.value,
+    localFilePath: localFiles[0].path,
+    localFiles,
+    format: location.value.type,
+  });
 }
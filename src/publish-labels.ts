@@ -1,68 +1,132 @@
-import { type SupportedFormat } from '@labeleer/models';
-import { inferFileFormatFromFileName } from '@/files';
-import { log } from '@/utils';
+import { getLocalLabelFiles, readLocalLabels } from '@/core/local-labels';
+import { diffLabelFiles } from '@/core/label-diff';
+import { validatePlaceholders } from '@/core/placeholder-validation';
+import { withoutPseudoLocales } from '@/core/pseudo-localization';
+import { writeBaseSnapshot } from '@/core/sync-snapshot';
+import { tryFetchLanguages } from '@/create-labels';
+import { printLabelDiff } from '@/diff-preview';
+import {
+  inquireConfirmation,
+  type InteractionOptions,
+} from '@/inquire/confirmation';
+import { printPlaceholderIssues } from '@/placeholder-report';
+import { fetchRemoteLabels, publishRemoteLabels } from '@/remote-labels';
+import { exitMessage, log } from '@/utils';
 import chalk from 'chalk';
-import { readFile } from 'fs/promises';
 import type { ProjectConfig } from 'labeleer-cli';
 import ora from 'ora';
 
+export interface PublishOptions extends InteractionOptions {
+  /**
+   * Only print the changes that would be published.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Publishes the local labels to the remote project.
+ * Per-locale label files are merged into a single upload.
+ * The changes compared to the remote project are shown and confirmed before uploading.
+ * Inconsistent placeholders are reported first, publishing them requires confirmation.
+ */
 export async function tryPublishLocalLabels(
-  config: ProjectConfig
+  config: ProjectConfig,
+  options: PublishOptions
 ): Promise<void> {
-  const localFileContent: string = await readFile(config.localFilePath, {
-    encoding: 'utf-8',
-  });
-  const fileType: SupportedFormat | undefined = inferFileFormatFromFileName(
-    config.localFilePath
-  );
+  const files = getLocalLabelFiles(config);
 
-  if (!localFileContent) {
-    log(chalk.red('Unable to read local file content. Aborting.'));
-    return;
+  if (!files.success) {
+    log(chalk.red(`${files.error} Sync aborted.`));
+    process.exit(1);
+  }
+
+  const locales = await tryFetchLanguages(config);
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!referenceLocale) {
+    log(chalk.red('The project has no reference locale. Sync aborted.'));
+    process.exit(1);
+  }
+
+  const localLabels = await readLocalLabels(files.value, referenceLocale);
+
+  if (!localLabels.success) {
+    log(chalk.red(localLabels.error));
+    process.exit(1);
   }
 
-  if (!fileType) {
+  // Pseudo locales are generated locally and never published.
+  const labelFile = withoutPseudoLocales(localLabels.value);
+
+  if (!Object.keys(labelFile).length) {
+    log(chalk.red('No local labels found. Aborting.'));
+    process.exit(1);
+  }
+
+  const issues = validatePlaceholders(labelFile, referenceLocale);
+
+  if (issues.length) {
+    printPlaceholderIssues(issues);
+
+    if (
+      !options.dryRun &&
+      !(await inquireConfirmation('Publish despite these issues?', options))
+    ) {
+      exitMessage();
+      return;
+    }
+  }
+
+  const remoteLoader = ora('Comparing with remote project...').start();
+  const remoteLabels = await fetchRemoteLabels(config, referenceLocale);
+
+  if (!remoteLabels.success) {
+    remoteLoader.fail(chalk.red(remoteLabels.error));
+    process.exit(1);
+  }
+  remoteLoader.stop();
+
+  // Publishing never removes translations, those missing locally are kept in the project.
+  const diff = diffLabelFiles(remoteLabels.value, labelFile);
+  const changes = diff.filter(change => change.type !== 'removed');
+  const remoteOnly = diff.length - changes.length;
+
+  if (remoteOnly) {
     log(
-      chalk.red(
-        'Unable to infer file format from label file name. Sync aborted.'
+      chalk.gray(
+        `${remoteOnly} ${remoteOnly === 1 ? 'translation exists' : 'translations exist'} only in the remote project and will be kept.`
       )
     );
+  }
+
+  if (!changes.length) {
+    log(chalk.blue('The remote project is already up to date.'));
     return;
   }
 
-  if (fileType !== 'json') {
-    log(
-      chalk.red(
-        'Unsupported format. Currently, only JSON is supported for remote synchronization.'
-      )
-    );
+  printLabelDiff(changes);
+
+  if (options.dryRun) {
+    log(chalk.blue('Dry run, no changes have been published.'));
+    return;
+  }
+
+  if (!(await inquireConfirmation('Publish these changes?', options))) {
+    exitMessage();
     return;
   }
 
   const loader = ora('Synchronizing with project...').start();
 
-  const response = await fetch(
-    `https://labeleer.com/api/project/${config.projectId}/translations`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: `{"entries":${localFileContent}}`,
-    }
-  );
+  const published = await publishRemoteLabels(config, labelFile);
 
-  if (!response.ok) {
-    loader.fail(
-      chalk.red(
-        `Something went wrong with the synchronization: ${response.statusText}`
-      )
-    );
-    log(await response.text());
-    return;
+  if (!published.success) {
+    loader.fail(chalk.red(published.error));
+    process.exit(1);
   }
 
+  await writeBaseSnapshot(labelFile);
+
   loader.succeed(
     chalk.green(`Local labels have been synchronized with remote project`)
   );
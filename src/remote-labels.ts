@@ -0,0 +1,98 @@
+import { parseLabelFile } from '@/core/label-codec';
+import { Err, Ok, type Result } from '@/core/result';
+import makeRequest, { makeTextRequest } from '@/fetch';
+import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+import type { LabelEntry, LabelFile, PartialConfig } from 'labeleer-cli';
+
+/**
+ * Fetches the current labels of the remote project in the canonical {@link LabelFile} shape.
+ */
+export async function fetchRemoteLabels(
+  config: PartialConfig,
+  referenceLocale: string
+): Promise<Result<LabelFile>> {
+  const response = await makeTextRequest(
+    `/project/${config.projectId}/translations/export`,
+    'GET',
+    {
+      accessToken: config.accessToken,
+      query: { format: SupportedFormat.JSON },
+    }
+  );
+
+  if (!response.success) {
+    return Err(`Failed to fetch labels: ${response.error.message}`);
+  }
+
+  return await parseLabelFile(response.value, SupportedFormat.JSON, {
+    referenceLocale,
+  });
+}
+
+/**
+ * Uploads the labels to the remote project. Keys that are not part of the upload are left as is.
+ */
+export async function publishRemoteLabels(
+  config: PartialConfig,
+  labelFile: LabelFile
+): Promise<Result<void>> {
+  const response = await makeRequest(
+    `/project/${config.projectId}/translations`,
+    'POST',
+    {
+      accessToken: config.accessToken,
+      body: { entries: labelFile },
+    }
+  );
+
+  if (!response.success) {
+    return Err(
+      `Something went wrong with the synchronization: ${response.error.message}`
+    );
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Replaces a single label of the remote project.
+ * Passing a different `newKey` renames the label.
+ */
+export async function updateRemoteLabel(
+  config: PartialConfig,
+  key: string,
+  entry: LabelEntry,
+  newKey: string = key
+): Promise<Result<void>> {
+  const response = await makeRequest(
+    `/project/${config.projectId}/translations/${encodeURIComponent(key)}`,
+    'PUT',
+    {
+      accessToken: config.accessToken,
+      body: { key: newKey, entry },
+    }
+  );
+
+  if (!response.success) {
+    return Err(`Failed to update '${key}': ${response.error.message}`);
+  }
+
+  return Ok(undefined);
+}
+
+export async function deleteRemoteLabel(
+  config: PartialConfig,
+  key: string
+): Promise<Result<void>> {
+  const response = await makeRequest(
+    `/project/${config.projectId}/translations/${encodeURIComponent(key)}`,
+    'DELETE',
+    { accessToken: config.accessToken }
+  );
+
+  if (!response.success) {
+    return Err(`Failed to delete '${key}': ${response.error.message}`);
+  }
+
+  return Ok(undefined);
+}
@@ -0,0 +1,46 @@
+import { Err, Ok, type Result } from '@/core/result';
+import makeRequest from '@/fetch';
+import type { PartialConfig } from 'labeleer-cli';
+
+/**
+ * Adds a locale to the remote project. Its translations start out empty.
+ */
+export async function addRemoteLocale(
+  config: PartialConfig,
+  locale: string
+): Promise<Result<void>> {
+  const response = await makeRequest(
+    `/project/${config.projectId}/locale`,
+    'POST',
+    {
+      accessToken: config.accessToken,
+      body: { locale },
+    }
+  );
+
+  if (!response.success) {
+    return Err(`Failed to add ${locale}: ${response.error.message}`);
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Removes a locale and all of its translations from the remote project.
+ */
+export async function removeRemoteLocale(
+  config: PartialConfig,
+  locale: string
+): Promise<Result<void>> {
+  const response = await makeRequest(
+    `/project/${config.projectId}/locale/${encodeURIComponent(locale)}`,
+    'DELETE',
+    { accessToken: config.accessToken }
+  );
+
+  if (!response.success) {
+    return Err(`Failed to remove ${locale}: ${response.error.message}`);
+  }
+
+  return Ok(undefined);
+}
@@ -0,0 +1,35 @@
+import { renderJUnitReport } from '@/reporting';
+import { describe, expect, it } from 'vitest';
+
+describe('renderJUnitReport', () => {
+  it('renders passed, failed and skipped test cases', () => {
+    const report = renderJUnitReport('labeleer-scan', [
+      {
+        name: 'keys',
+        testCases: [
+          { name: 'passed', className: 'labeleer' },
+          { name: 'failed', className: 'labeleer', failure: 'Missing <key>' },
+          { name: 'skipped', className: 'labeleer', skipped: 'Unused key' },
+        ],
+      },
+    ]);
+
+    expect(report).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<testsuites name="labeleer-scan" tests="3" failures="1" skipped="1">',
+        '  <testsuite name="keys" tests="3" failures="1" skipped="1">',
+        '    <testcase name="passed" classname="labeleer"/>',
+        '    <testcase name="failed" classname="labeleer">',
+        '      <failure message="Missing &lt;key&gt;"/>',
+        '    </testcase>',
+        '    <testcase name="skipped" classname="labeleer">',
+        '      <skipped message="Unused key"/>',
+        '    </testcase>',
+        '  </testsuite>',
+        '</testsuites>',
+        '',
+      ].join('\n')
+    );
+  });
+});
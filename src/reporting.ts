@@ -0,0 +1,113 @@
+import { CommandError } from '@/commands/command';
+import { writeFile } from 'fs/promises';
+import { resolve } from 'path';
+
+/**
+ * The formats in which the results of a check can be reported.
+ */
+export type ReportFormat = 'text' | 'json' | 'junit';
+
+const reportFormats: ReportFormat[] = ['text', 'json', 'junit'];
+
+export interface JUnitTestCase {
+  name: string;
+  className: string;
+  /**
+   * The failure message, or `undefined` if the test case passed.
+   */
+  failure?: string;
+  /**
+   * The reason the test case was skipped, e.g. a finding that does not fail the check.
+   */
+  skipped?: string;
+}
+
+export interface JUnitTestSuite {
+  name: string;
+  testCases: JUnitTestCase[];
+}
+
+/**
+ * Validates a report format passed on the command line.
+ */
+export function parseReportFormat(value: string): ReportFormat {
+  if (!reportFormats.includes(value as ReportFormat)) {
+    throw new CommandError(
+      `Unsupported report format '${value}'. Expected one of: ${reportFormats.join(', ')}.`
+    );
+  }
+
+  return value as ReportFormat;
+}
+
+/**
+ * Renders the test suites as a JUnit XML document, as understood by most CI systems.
+ */
+export function renderJUnitReport(name: string, suites: JUnitTestSuite[]) {
+  const count = (testCases: JUnitTestCase[]) => ({
+    tests: testCases.length,
+    failures: testCases.filter(testCase => testCase.failure !== undefined)
+      .length,
+    skipped: testCases.filter(
+      testCase =>
+        testCase.failure === undefined && testCase.skipped !== undefined
+    ).length,
+  });
+  const total = count(suites.flatMap(suite => suite.testCases));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${total.tests}" failures="${total.failures}" skipped="${total.skipped}">`,
+  ];
+
+  for (const suite of suites) {
+    const { tests, failures, skipped } = count(suite.testCases);
+    lines.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${tests}" failures="${failures}" skipped="${skipped}">`
+    );
+
+    for (const testCase of suite.testCases) {
+      const attributes = `name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.className)}"`;
+
+      if (testCase.failure !== undefined) {
+        lines.push(
+          `    <testcase ${attributes}>`,
+          `      <failure message="${escapeXml(testCase.failure)}"/>`,
+          '    </testcase>'
+        );
+      } else if (testCase.skipped !== undefined) {
+        lines.push(
+          `    <testcase ${attributes}>`,
+          `      <skipped message="${escapeXml(testCase.skipped)}"/>`,
+          '    </testcase>'
+        );
+      } else {
+        lines.push(`    <testcase ${attributes}/>`);
+      }
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes a machine-readable report to the given file, or to stdout if omitted.
+ */
+export async function writeReport(content: string, path?: string) {
+  if (path) {
+    await writeFile(resolve(path), content, 'utf-8');
+    return;
+  }
+
+  process.stdout.write(content);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,125 @@
+import { CommandError, unwrapOrFail } from '@/commands/command';
+import { diffLabelFiles, flattenTranslations } from '@/core/label-diff';
+import { readSnapshot, recordSnapshot } from '@/core/label-history';
+import {
+  getLocalLabelFiles,
+  readLocalLabels,
+  writeLocalLabels,
+} from '@/core/local-labels';
+import { updateProjectSetupPaths } from '@/core/project-setup';
+import { isPseudoLocale } from '@/core/pseudo-localization';
+import { tryFetchLanguages } from '@/create-labels';
+import { printLabelDiff } from '@/diff-preview';
+import { toRelativePath } from '@/files';
+import {
+  inquireConfirmation,
+  type InteractionOptions,
+} from '@/inquire/confirmation';
+import { tryPublishLocalLabels } from '@/publish-labels';
+import { exitMessage, log } from '@/utils';
+import chalk from 'chalk';
+import type { ProjectConfig } from 'labeleer-cli';
+
+export interface RestoreOptions extends InteractionOptions {
+  /**
+   * Also publish the restored labels to the remote project.
+   */
+  push?: boolean;
+  /**
+   * Only print the changes that would be made.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Rolls the local label files back to a snapshot of `.labeleer/history`.
+ * The current labels are stored as a snapshot first, so a restore can be undone as well.
+ *
+ * @throws CommandError whenever the snapshot does not exist or cannot be written.
+ */
+export async function tryRestoreSnapshot(
+  config: ProjectConfig,
+  id: string,
+  options: RestoreOptions
+): Promise<void> {
+  const snapshot = unwrapOrFail(await readSnapshot(id));
+  const files = unwrapOrFail(getLocalLabelFiles(config));
+  const locales = await tryFetchLanguages(config);
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!referenceLocale) {
+    throw new CommandError('The project has no reference locale.');
+  }
+
+  // Restoring is also the way out of label files that cannot be parsed anymore.
+  const localLabels = await readLocalLabels(files, referenceLocale);
+
+  if (!localLabels.success) {
+    log(
+      chalk.yellow(
+        `${localLabels.error} The local labels are replaced as a whole.`
+      )
+    );
+  }
+
+  const changes = diffLabelFiles(
+    localLabels.success ? localLabels.value : {},
+    snapshot.labelFile
+  );
+
+  if (!changes.length) {
+    log(chalk.blue(`The local labels already match snapshot ${id}.`));
+  } else {
+    printLabelDiff(changes);
+
+    if (options.dryRun) {
+      log(chalk.blue('Dry run, nothing has been changed.'));
+      return;
+    }
+
+    if (
+      !(await inquireConfirmation(
+        `Restore the local labels to snapshot ${id}?`,
+        options
+      ))
+    ) {
+      exitMessage();
+      return;
+    }
+
+    // Pseudo locales are not part of the project, but are restored as well.
+    const pseudoLocales = [
+      ...flattenTranslations(snapshot.labelFile).keys(),
+    ].filter(isPseudoLocale);
+
+    if (localLabels.success) {
+      await recordSnapshot(
+        `restore ${id}`,
+        localLabels.value,
+        snapshot.labelFile
+      );
+    }
+    const written = unwrapOrFail(
+      await writeLocalLabels(files, snapshot.labelFile, {
+        referenceLocale,
+        locales: [...locales.map(entry => entry.locale), ...pseudoLocales],
+      })
+    );
+
+    if (config.localFiles && written.length > config.localFiles.length) {
+      await updateProjectSetupPaths(written);
+    }
+
+    log(
+      chalk.green(
+        `Restored snapshot ${id} to ${written
+          .map(entry => chalk.underline(toRelativePath(entry.path)))
+          .join(', ')}.`
+      )
+    );
+  }
+
+  if (options.push) {
+    await tryPublishLocalLabels(config, options);
+  }
+}
@@ -1,56 +1,197 @@
+import { recordSnapshot } from '@/core/label-history';
+import {
+  applyConflictResolutions,
+  type LabelConflict,
+  mergeThreeWay,
+} from '@/core/label-merge';
+import {
+  getLocalLabelFiles,
+  readLocalLabels,
+  writeLocalLabels,
+} from '@/core/local-labels';
+import { getProjectSetup, updateProjectSetupPaths } from '@/core/project-setup';
+import { readBaseSnapshot, writeBaseSnapshot } from '@/core/sync-snapshot';
+import { writeLabelTypes } from '@/core/type-generation';
+import { tryFetchLanguages } from '@/create-labels';
+import { type InteractionOptions } from '@/inquire/confirmation';
+import {
+  formatValue,
+  inquireConflictResolution,
+} from '@/inquire/conflict-resolution';
+import { fetchRemoteLabels } from '@/remote-labels';
 import { log, theme } from '@/utils';
 import { inferFileFormatFromFileName, toRelativePath } from '@/files';
 import { select } from '@inquirer/prompts';
 import { SupportedFormat } from '@labeleer/translation-dataset-transformers';
 import chalk from 'chalk';
-import { writeFile } from 'fs/promises';
-import type { ProjectConfig } from 'labeleer-cli';
+import type { LabelFile, ProjectConfig } from 'labeleer-cli';
 import ora from 'ora';
+import { resolve } from 'path';
 
 /**
- * Fetches labels from the remote project and writes them to the local label file.
+ * Fetches labels from the remote project and merges them into the local label file,
+ * or into one file per locale when the project setup configures per-locale paths.
+ * Local changes that have not been published yet are preserved through a three-way merge
+ * with the labels of the last synchronization.
  */
-export async function tryRetrieveLabels(config: ProjectConfig): Promise<void> {
+export async function tryRetrieveLabels(
+  config: ProjectConfig,
+  options: InteractionOptions
+): Promise<void> {
   const format: SupportedFormat | undefined =
-    await tryInferOrInquireFormatFromFileName(config.localFilePath);
+    config.format ??
+    (await tryInferOrInquireFormatFromFileName(config.localFilePath));
 
   if (!format) {
     log(chalk.red('No label file format selected. Unable to proceed.'));
     process.exit(1);
   }
+
+  const files = getLocalLabelFiles({ ...config, format });
+  if (!files.success) {
+    log(chalk.red(files.error));
+    process.exit(1);
+  }
+
+  const locales = await tryFetchLanguages(config);
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!referenceLocale) {
+    log(chalk.red('The project has no reference locale. Unable to proceed.'));
+    process.exit(1);
+  }
+
   const loader = ora({
     text: 'Retrieving labels...',
     prefixText: chalk.blue('┃'),
   }).start();
 
-  const response = await fetch(
-    `https://labeleer.com/api/project/${config.projectId}/translations/export?format=${format}`,
-    {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${config.accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    }
+  const remoteLabels = await fetchRemoteLabels(config, referenceLocale);
+  if (!remoteLabels.success) {
+    loader.fail(chalk.red(remoteLabels.error));
+    process.exit(1);
+  }
+
+  const localLabels = await readLocalLabels(files.value, referenceLocale);
+  if (!localLabels.success) {
+    loader.fail(chalk.red(localLabels.error));
+    process.exit(1);
+  }
+
+  const mergeResult = mergeThreeWay(
+    await readBaseSnapshot(),
+    localLabels.value,
+    remoteLabels.value
   );
-  if (!response.ok) {
-    loader.fail(chalk.red(`Failed to fetch labels: ${response.statusText}`));
+  loader.stop();
+
+  const resolutions = await tryResolveConflicts(mergeResult.conflicts, options);
+  const mergedLabels = applyConflictResolutions(
+    mergeResult,
+    resolutions,
+    remoteLabels.value,
+    localLabels.value
+  );
+
+  loader.start('Writing labels...');
+
+  await recordSnapshot('pull', localLabels.value, mergedLabels);
+  const writtenEntries = await writeLocalLabels(files.value, mergedLabels, {
+    referenceLocale,
+    locales: locales.map(entry => entry.locale),
+  });
+  if (!writtenEntries.success) {
+    loader.fail(chalk.red(writtenEntries.error));
     process.exit(1);
   }
 
-  const data = await response.text();
+  if (
+    config.localFiles &&
+    writtenEntries.value.length > config.localFiles.length
+  ) {
+    await updateProjectSetupPaths(writtenEntries.value);
+  }
 
-  await writeFile(config.localFilePath, data, { encoding: 'utf-8' });
+  await writeBaseSnapshot(remoteLabels.value);
 
   loader.succeed(
     chalk.blue(
-      `Labels have been written to ${chalk.cyan.underline(
-        toRelativePath(config.localFilePath)
-      )}`
+      `Labels have been written to ${writtenEntries.value
+        .map(entry => chalk.cyan.underline(toRelativePath(entry.path)))
+        .join(', ')}`
+    )
+  );
+
+  await tryGenerateLabelTypes(mergedLabels, referenceLocale);
+}
+
+/**
+ * Regenerates the label types when enabled with `codegen.afterPull` in `labeleer.json`.
+ * The labels have been written at this point, so a failure is only reported.
+ */
+async function tryGenerateLabelTypes(
+  labelFile: LabelFile,
+  referenceLocale: string
+) {
+  const setup = await getProjectSetup();
+  const codegen = setup.success ? setup.value.codegen : undefined;
+
+  if (!codegen?.afterPull) return;
+
+  const result = await writeLabelTypes(
+    labelFile,
+    referenceLocale,
+    codegen.output
+  );
+
+  if (!result.success) {
+    log(chalk.yellow(`Label types have not been updated: ${result.error}`));
+    return;
+  }
+
+  log(
+    chalk.blue(
+      `Label types have been written to ${chalk.cyan.underline(toRelativePath(resolve(result.value)))}`
     )
   );
 }
 
+/**
+ * Resolves every conflict by asking the user.
+ * Without a user to ask, the conflicts are listed and the process exits.
+ */
+async function tryResolveConflicts(
+  conflicts: LabelConflict[],
+  options: InteractionOptions
+): Promise<Map<LabelConflict, string | undefined>> {
+  const resolutions = new Map<LabelConflict, string | undefined>();
+
+  if (!conflicts.length) return resolutions;
+
+  if (!options.interactive) {
+    log(
+      chalk.red(
+        `Found ${conflicts.length} conflicting translation(s) between local and remote labels:`
+      )
+    );
+    for (const conflict of conflicts) {
+      log(
+        chalk.red(
+          `  ${conflict.key} (${conflict.locale}): local ${formatValue(conflict.local)}, remote ${formatValue(conflict.remote)}`
+        )
+      );
+    }
+    log(chalk.red('Run the CLI in a terminal to resolve them.'));
+    process.exit(1);
+  }
+
+  for (const conflict of conflicts) {
+    resolutions.set(conflict, await inquireConflictResolution(conflict));
+  }
+
+  return resolutions;
+}
+
 /**
  * Attempts to infer the label file format from its file name.
  * If the format cannot be inferred, prompts the user to select one.
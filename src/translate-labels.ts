@@ -0,0 +1,167 @@
+import { CommandError, unwrapOrFail } from '@/commands/command';
+import { recordSnapshot } from '@/core/label-history';
+import {
+  getLocalLabelFiles,
+  readLocalLabels,
+  writeLocalLabels,
+} from '@/core/local-labels';
+import {
+  applyMachineTranslations,
+  getTranslationProvider,
+  type MachineTranslation,
+  type MachineTranslationResult,
+  translateMissingEntries,
+  type TranslationProvider,
+} from '@/core/machine-translation';
+import { markForReview } from '@/core/review-state';
+import { type LocaleEntry, tryFetchLanguages } from '@/create-labels';
+import { log } from '@/utils';
+import chalk from 'chalk';
+import type { ProjectConfig } from 'labeleer-cli';
+import ora from 'ora';
+
+export interface TranslateOptions {
+  /**
+   * The locales to fill, all locales of the project when empty.
+   */
+  locales: string[];
+  /**
+   * Only print the translations that would be written.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Fills the missing translations of the local label files through the translation
+ * provider of `labeleer.json`, and marks them as needing review.
+ * The translations are only written locally; they are published with the next push.
+ *
+ * @throws CommandError whenever the provider is not configured or nothing could be translated.
+ */
+export async function tryTranslateLabels(
+  config: ProjectConfig,
+  options: TranslateOptions
+): Promise<void> {
+  const provider = unwrapOrFail(await getTranslationProvider());
+  const files = unwrapOrFail(getLocalLabelFiles(config));
+  const projectLocales = await tryFetchLanguages(config);
+  const locales = projectLocales.map(entry => entry.locale);
+  const referenceLocale = projectLocales.find(
+    entry => entry.isReference
+  )?.locale;
+
+  if (!referenceLocale) {
+    throw new CommandError('The project has no reference locale.');
+  }
+
+  for (const locale of options.locales) {
+    if (!locales.includes(locale)) {
+      throw new CommandError(
+        `Locale '${locale}' is not part of the project. Expected one of: ${locales.join(', ')}.`
+      );
+    }
+  }
+
+  const labelFile = unwrapOrFail(await readLocalLabels(files, referenceLocale));
+  const result = await translateWithSpinner(provider.name, () =>
+    translateMissingEntries(
+      provider,
+      labelFile,
+      referenceLocale,
+      options.locales.length ? options.locales : locales
+    )
+  );
+
+  printMachineTranslations(result);
+
+  if (!result.translations.length) {
+    if (result.failures.length) {
+      throw new CommandError('No translations have been filled.');
+    }
+    log(chalk.green('There are no missing translations.'));
+    return;
+  }
+  if (options.dryRun) {
+    log(chalk.blue('Dry run, nothing has been changed.'));
+    return;
+  }
+
+  const translatedLabels = applyMachineTranslations(
+    labelFile,
+    result.translations
+  );
+
+  await recordSnapshot('translate', labelFile, translatedLabels);
+  unwrapOrFail(
+    await writeLocalLabels(files, translatedLabels, {
+      referenceLocale,
+      locales,
+    })
+  );
+  await markForReview(result.translations);
+  log(
+    chalk.green(
+      `Filled ${result.translations.length} translation(s), marked as needing review. Run push to publish them.`
+    )
+  );
+}
+
+/**
+ * Fills the empty locales of a label that is about to be created, in place.
+ * Placeholders are validated like those of every other machine translation.
+ *
+ * @returns The translations that have been filled, to be marked for review once the label is added.
+ */
+export async function tryTranslateNewLabel(
+  provider: TranslationProvider,
+  labelName: string,
+  translations: Map<string, string>,
+  locales: LocaleEntry[]
+): Promise<MachineTranslation[]> {
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!referenceLocale) return [];
+
+  const result = await translateWithSpinner(provider.name, () =>
+    translateMissingEntries(
+      provider,
+      { [labelName]: { translations: Object.fromEntries(translations) } },
+      referenceLocale,
+      locales.map(entry => entry.locale)
+    )
+  );
+
+  printMachineTranslations(result);
+  for (const { locale, text } of result.translations) {
+    translations.set(locale, text);
+  }
+
+  return result.translations;
+}
+
+/**
+ * Runs the translation behind a spinner, as external providers may take a while.
+ */
+async function translateWithSpinner(
+  providerName: string,
+  translate: () => Promise<MachineTranslationResult>
+): Promise<MachineTranslationResult> {
+  const spinner = ora(
+    `Translating through ${chalk.bold(providerName)}...`
+  ).start();
+  const result = await translate();
+  spinner.stop();
+
+  return result;
+}
+
+function printMachineTranslations(result: MachineTranslationResult) {
+  for (const { key, locale, text } of result.translations) {
+    log(
+      `  ${chalk.green('+')} ${key} ${chalk.gray(`(${locale})`)}: ${JSON.stringify(text)} ${chalk.yellow('needs review')}`
+    );
+  }
+  for (const failure of result.failures) {
+    log(chalk.red(`  ✗ ${failure}`));
+  }
+}
@@ -1,4 +1,6 @@
 declare module 'labeleer-cli' {
+  import type { SupportedFormat } from '@labeleer/translation-dataset-transformers';
+
   /**
    * Represents the configuration required to access a project.
    */
@@ -15,15 +17,78 @@ declare module 'labeleer-cli' {
     accessToken: string;
 
     localFilePath: string;
+    /**
+     * The format of the local label file.
+     * When omitted, it is inferred from the extension of `localFilePath`.
+     */
+    format?: SupportedFormat;
+    /**
+     * The per-locale label files, as configured in `labeleer.json`.
+     * When omitted, all locales are kept in `localFilePath`.
+     */
+    localFiles?: LocalFileEntry[];
+    /**
+     * A framework-native layout of the label files, as configured in `labeleer.json`.
+     * When present, it replaces `localFilePath` and `localFiles`.
+     */
+    layout?: LabelLayout;
   }
 
-  export type PartialConfig = Omit<ProjectConfig, 'localFilePath'>;
+  /**
+   * Describes label files that are organized the way a framework expects them,
+   * e.g. i18next's `locales/<lng>/<namespace>.json`.
+   */
+  export interface LabelLayout {
+    /**
+     * The path of the label files, relative to the project root,
+     * with a `{locale}` and an optional `{namespace}` placeholder.
+     */
+    pattern: string;
+    /**
+     * Whether keys are nested objects or flat strings, e.g. `{"a": {"b": ""}}` or `{"a.b": ""}`.
+     */
+    structure: 'nested' | 'flat';
+    /**
+     * Joins nested keys and the namespace into a label key.
+     */
+    separator: string;
+    /**
+     * Whether plural forms are stored as suffixed keys, e.g. `item_one` and `item_other`.
+     */
+    pluralSuffixes: boolean;
+  }
 
-  export type LabelFile = {
-    [key: string]: {
-      translations: {
-        [locale: string]: string;
-      };
+  export interface LocalFileEntry {
+    /**
+     * The locale held by the file, `'*'` if it holds every locale,
+     * or `'reference'` if it holds the reference locale of the project.
+     */
+    locale: string;
+    path: string;
+  }
+
+  export type PartialConfig = Omit<
+    ProjectConfig,
+    'localFilePath' | 'format' | 'localFiles' | 'layout'
+  >;
+
+  export type LocalizedEntries = {
+    [locale: string]: string;
+  };
+
+  export type LabelEntry = {
+    translations: LocalizedEntries;
+    description?: string;
+    tags?: string[];
+    /**
+     * Plural forms of the label, keyed by quantity (`zero`, `one`, `other`, ...).
+     */
+    plurals?: {
+      [quantity: string]: LocalizedEntries | undefined;
     };
   };
+
+  export type LabelFile = {
+    [key: string]: LabelEntry;
+  };
 }
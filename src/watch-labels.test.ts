@@ -0,0 +1,150 @@
+import {
+  collectChangedEntries,
+  scheduleWatchTasks,
+  type WatchScheduler,
+} from '@/watch-labels';
+import type { LabelFile } from 'labeleer-cli';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('scheduleWatchTasks', () => {
+  let events: string[];
+  let scheduler: WatchScheduler | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = [];
+  });
+
+  afterEach(() => {
+    scheduler?.stop();
+    vi.useRealTimers();
+  });
+
+  const task = (name: string, duration = 0) => {
+    return async () => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, duration));
+      events.push(`${name} end`);
+    };
+  };
+
+  /**
+   * Stops scheduling and runs the tasks that have been queued so far.
+   */
+  const finish = async (scheduler: WatchScheduler) => {
+    scheduler.stop();
+    await vi.runAllTimersAsync();
+    await scheduler.settled();
+  };
+
+  it('polls and publishes right away, then polls at the interval', async () => {
+    scheduler = scheduleWatchTasks(
+      { debounce: 500, interval: 1000 },
+      { poll: task('poll'), publish: task('publish'), onError: vi.fn() }
+    );
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await finish(scheduler);
+
+    expect(events).toEqual([
+      'poll start',
+      'poll end',
+      'publish start',
+      'publish end',
+      'poll start',
+      'poll end',
+      'poll start',
+      'poll end',
+    ]);
+  });
+
+  it('publishes once after the changes settle', async () => {
+    const publish = vi.fn(() => Promise.resolve());
+    scheduler = scheduleWatchTasks(
+      { debounce: 500, interval: 60_000 },
+      { poll: () => Promise.resolve(), publish, onError: vi.fn() }
+    );
+    await scheduler.settled();
+    publish.mockClear();
+
+    scheduler.notifyChange();
+    await vi.advanceTimersByTimeAsync(400);
+    scheduler.notifyChange();
+    await vi.advanceTimersByTimeAsync(400);
+    expect(publish).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('never runs a poll and a publish at the same time', async () => {
+    scheduler = scheduleWatchTasks(
+      { debounce: 100, interval: 1000 },
+      {
+        poll: task('poll', 800),
+        publish: task('publish', 300),
+        onError: vi.fn(),
+      }
+    );
+    await vi.advanceTimersByTimeAsync(900);
+    scheduler.notifyChange();
+
+    await vi.advanceTimersByTimeAsync(1500);
+    await finish(scheduler);
+
+    expect(events).toEqual([
+      'poll start',
+      'poll end',
+      'publish start',
+      'publish end',
+      'poll start',
+      'poll end',
+      'publish start',
+      'publish end',
+      'poll start',
+      'poll end',
+    ]);
+  });
+
+  it('keeps running after a failed task', async () => {
+    const onError = vi.fn();
+    const poll = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Offline'))
+      .mockResolvedValue(undefined);
+    scheduler = scheduleWatchTasks(
+      { debounce: 500, interval: 1000 },
+      { poll, publish: () => Promise.resolve(), onError }
+    );
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onError).toHaveBeenCalledWith(new Error('Offline'));
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('collectChangedEntries', () => {
+  const base: LabelFile = {
+    greeting: { translations: { en_US: 'Hello' } },
+    farewell: { translations: { en_US: 'Bye' } },
+    title: { translations: { en_US: 'Title' } },
+  };
+
+  it('leaves out unchanged, removed and conflicting keys', () => {
+    const labelFile: LabelFile = {
+      greeting: { translations: { en_US: 'Hi' } },
+      title: { translations: { en_US: 'Heading' } },
+      items: { translations: {}, plurals: { one: { en_US: 'Item' } } },
+    };
+
+    expect(collectChangedEntries(base, labelFile, new Set(['title']))).toEqual({
+      entries: {
+        greeting: { translations: { en_US: 'Hi' } },
+        items: { translations: {}, plurals: { one: { en_US: 'Item' } } },
+      },
+      removedKeys: ['farewell'],
+      skippedKeys: ['title'],
+    });
+  });
+});
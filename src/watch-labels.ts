@@ -0,0 +1,402 @@
+import { diffLabelFiles } from '@/core/label-diff';
+import { recordSnapshot } from '@/core/label-history';
+import { type LabelConflict, mergeUnattended } from '@/core/label-merge';
+import {
+  getLocalLabelFiles,
+  type LocalLabelFiles,
+  readLocalLabels,
+  writeLocalLabels,
+} from '@/core/local-labels';
+import { getLayoutBaseDirectory } from '@/core/label-layout';
+import { validatePlaceholders } from '@/core/placeholder-validation';
+import { withoutPseudoLocales } from '@/core/pseudo-localization';
+import { readBaseSnapshot, writeBaseSnapshot } from '@/core/sync-snapshot';
+import { tryFetchLanguages } from '@/create-labels';
+import { toRelativePath } from '@/files';
+import { formatValue } from '@/inquire/conflict-resolution';
+import { printPlaceholderIssues } from '@/placeholder-report';
+import { fetchRemoteLabels, publishRemoteLabels } from '@/remote-labels';
+import { exitMessage, log } from '@/utils';
+import chalk from 'chalk';
+import { type FSWatcher, watch } from 'fs';
+import type { LabelFile, ProjectConfig } from 'labeleer-cli';
+import ora, { type Ora } from 'ora';
+import { basename, dirname, resolve } from 'path';
+
+export interface WatchOptions {
+  /**
+   * How long to wait after the last change before publishing, in milliseconds.
+   */
+  debounce: number;
+  /**
+   * How often the remote project is polled for changes, in milliseconds.
+   */
+  interval: number;
+}
+
+/**
+ * The shortest interval at which the remote project may be polled.
+ */
+export const MIN_WATCH_INTERVAL = 1000;
+
+interface WatchContext {
+  config: ProjectConfig;
+  files: LocalLabelFiles;
+  referenceLocale: string;
+  locales: string[];
+  spinner: Ora;
+  /**
+   * The keys with conflicting translations as of the last poll, which are not published.
+   * Undefined until the remote project has been polled successfully, before which
+   * nothing is published, as the local changes are not known yet.
+   */
+  conflictingKeys?: Set<string>;
+}
+
+export interface WatchTasks {
+  publish: () => Promise<void>;
+  poll: () => Promise<void>;
+  onError: (error: unknown) => void;
+}
+
+export interface WatchScheduler {
+  /**
+   * Publishes once the changes settle, after the debounce delay.
+   */
+  notifyChange: () => void;
+  /**
+   * Resolves once the tasks queued so far have run.
+   */
+  settled: () => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Watches the local label files and publishes the changed keys once the edits settle,
+ * while polling the remote project and merging its changes into the local files.
+ * Runs until the process is interrupted.
+ */
+export async function watchLabels(
+  config: ProjectConfig,
+  options: WatchOptions
+): Promise<void> {
+  const files = getLocalLabelFiles(config);
+
+  if (!files.success) {
+    log(chalk.red(files.error));
+    process.exit(1);
+  }
+
+  const locales = await tryFetchLanguages(config);
+  const referenceLocale = locales.find(entry => entry.isReference)?.locale;
+
+  if (!referenceLocale) {
+    log(chalk.red('The project has no reference locale. Watch aborted.'));
+    process.exit(1);
+  }
+
+  const context: WatchContext = {
+    config,
+    files: files.value,
+    referenceLocale,
+    locales: locales.map(entry => entry.locale),
+    spinner: ora(),
+  };
+
+  const scheduler = scheduleWatchTasks(options, {
+    publish: () => publishLocalChanges(context),
+    poll: () => mergeRemoteChanges(context),
+    onError: error =>
+      report(context, chalk.red(`Unexpected error: ${String(error)}`)),
+  });
+  const watchers = watchLabelFiles(files.value, scheduler.notifyChange);
+
+  process.once('SIGINT', () => {
+    scheduler.stop();
+    watchers.forEach(watcher => watcher.close());
+    context.spinner.stop();
+    exitMessage();
+    process.exit(0);
+  });
+
+  log(
+    chalk.blue(
+      `Watching ${files.value.entries
+        .map(entry => chalk.cyan.underline(toRelativePath(entry.path)))
+        .join(', ')}`
+    )
+  );
+  await scheduler.settled();
+}
+
+/**
+ * Runs the tasks of the watch loop one after another, so a poll never interleaves
+ * with a publish. Polls right away and then at the interval, and publishes once
+ * changes settle, as well as after the first poll to catch up on earlier edits.
+ */
+export function scheduleWatchTasks(
+  options: WatchOptions,
+  tasks: WatchTasks
+): WatchScheduler {
+  let queue = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(tasks.onError);
+  };
+
+  let debounceTimeout: NodeJS.Timeout | undefined;
+  const pollInterval = setInterval(() => enqueue(tasks.poll), options.interval);
+
+  enqueue(tasks.poll);
+  enqueue(tasks.publish);
+
+  return {
+    notifyChange: () => {
+      clearTimeout(debounceTimeout);
+      debounceTimeout = setTimeout(
+        () => enqueue(tasks.publish),
+        options.debounce
+      );
+    },
+    settled: () => queue,
+    stop: () => {
+      clearTimeout(debounceTimeout);
+      clearInterval(pollInterval);
+    },
+  };
+}
+
+/**
+ * Watches the directories of the label files rather than the files themselves,
+ * as editors often replace a file on save and label files may not exist yet.
+ * Layouts are watched from their base directory, as new locales and namespaces
+ * add directories and files below it.
+ */
+function watchLabelFiles(
+  files: LocalLabelFiles,
+  onChange: () => void
+): FSWatcher[] {
+  if (files.layout) {
+    return [
+      watch(
+        getLayoutBaseDirectory(files.layout),
+        { recursive: true },
+        (_, filename) => {
+          if (filename?.toString().endsWith('.json')) onChange();
+        }
+      ),
+    ];
+  }
+
+  const namesPerDirectory = new Map<string, Set<string>>();
+  for (const entry of files.entries) {
+    const directory = dirname(resolve(entry.path));
+    namesPerDirectory.set(
+      directory,
+      (namesPerDirectory.get(directory) ?? new Set()).add(basename(entry.path))
+    );
+  }
+
+  return [...namesPerDirectory].map(([directory, names]) =>
+    watch(directory, (_, filename) => {
+      if (filename && names.has(filename.toString())) onChange();
+    })
+  );
+}
+
+/**
+ * Publishes the keys that changed since the last synchronization.
+ * Invalid label files and inconsistent placeholders are reported and not published,
+ * and neither are keys with conflicting translations.
+ */
+async function publishLocalChanges(context: WatchContext) {
+  const { config, files, referenceLocale, spinner, conflictingKeys } = context;
+
+  if (!conflictingKeys) return;
+
+  const localLabels = await readLocalLabels(files, referenceLocale);
+
+  if (!localLabels.success) {
+    report(context, chalk.red(localLabels.error));
+    return;
+  }
+
+  const labelFile = withoutPseudoLocales(localLabels.value);
+
+  const issues = validatePlaceholders(labelFile, referenceLocale);
+
+  if (issues.length) {
+    spinner.stop();
+    printPlaceholderIssues(issues);
+    report(context, chalk.yellow('Fix the placeholders to publish changes.'));
+    return;
+  }
+
+  const base = await readBaseSnapshot();
+  const { entries, removedKeys, skippedKeys } = collectChangedEntries(
+    base,
+    labelFile,
+    conflictingKeys
+  );
+
+  if (removedKeys.length) {
+    report(
+      context,
+      chalk.yellow(
+        `Removed keys are not published while watching: ${removedKeys.join(', ')}`
+      )
+    );
+  }
+  if (skippedKeys.length) {
+    report(
+      context,
+      chalk.yellow(
+        `Keys with conflicting translations are not published: ${skippedKeys.join(', ')}. Run \`pull\` to resolve the conflicts.`
+      )
+    );
+  }
+  if (!Object.keys(entries).length) return;
+
+  spinner.start(`Publishing ${Object.keys(entries).length} changed key(s)...`);
+  const published = await publishRemoteLabels(config, entries);
+
+  if (!published.success) {
+    report(context, chalk.red(published.error));
+    return;
+  }
+
+  // Removed and skipped keys keep their base, so the next poll does not restore them.
+  await writeBaseSnapshot({ ...base, ...entries });
+  report(context, chalk.green(`Published ${Object.keys(entries).join(', ')}`));
+}
+
+/**
+ * Collects the entries of the keys that changed compared to the base,
+ * leaving out removed keys and the excluded keys.
+ */
+export function collectChangedEntries(
+  base: LabelFile,
+  labelFile: LabelFile,
+  excludedKeys: Set<string>
+): { entries: LabelFile; removedKeys: string[]; skippedKeys: string[] } {
+  const changedKeys = new Set(
+    diffLabelFiles(base, labelFile).map(change =>
+      change.key.replace(/\[\w+]$/, '')
+    )
+  );
+
+  return {
+    entries: Object.fromEntries(
+      Object.entries(labelFile).filter(
+        ([key]) => changedKeys.has(key) && !excludedKeys.has(key)
+      )
+    ),
+    removedKeys: [...changedKeys].filter(key => !labelFile[key]),
+    skippedKeys: [...changedKeys].filter(
+      key => labelFile[key] && excludedKeys.has(key)
+    ),
+  };
+}
+
+/**
+ * Merges the remote changes into the local label files.
+ * Conflicting translations keep their local value and are reported, they are
+ * neither published nor overwritten until resolved through `pull`.
+ */
+async function mergeRemoteChanges(context: WatchContext) {
+  const { config, files, referenceLocale, spinner } = context;
+
+  spinner.start('Checking the remote project for changes...');
+  const [remoteLabels, localLabels] = await Promise.all([
+    fetchRemoteLabels(config, referenceLocale),
+    readLocalLabels(files, referenceLocale),
+  ]);
+
+  if (!remoteLabels.success) {
+    report(context, chalk.red(remoteLabels.error));
+    return;
+  }
+  if (!localLabels.success) {
+    report(context, chalk.red(localLabels.error));
+    return;
+  }
+
+  const merge = mergeUnattended(
+    await readBaseSnapshot(),
+    localLabels.value,
+    remoteLabels.value
+  );
+  const conflictingKeys = new Set(
+    merge.conflicts.map(conflict => conflict.key.replace(/\[\w+]$/, ''))
+  );
+
+  if (hasNewConflicts(context.conflictingKeys, conflictingKeys)) {
+    reportConflicts(context, merge.conflicts);
+  }
+
+  if (diffLabelFiles(localLabels.value, merge.labels).length) {
+    await recordSnapshot('watch', localLabels.value, merge.labels);
+    const written = await writeMergedLabels(context, merge.labels);
+    if (!written) return;
+
+    report(context, chalk.blue('Merged remote changes into the local files.'));
+  }
+
+  await writeBaseSnapshot(merge.base);
+  context.conflictingKeys = conflictingKeys;
+  idle(context);
+}
+
+function hasNewConflicts(previous: Set<string> | undefined, keys: Set<string>) {
+  return [...keys].some(key => !previous?.has(key));
+}
+
+function reportConflicts(context: WatchContext, conflicts: LabelConflict[]) {
+  context.spinner.stop();
+  log(
+    chalk.yellow(
+      `Found ${conflicts.length} conflicting translation(s) between local and remote labels:`
+    )
+  );
+  for (const conflict of conflicts) {
+    log(
+      chalk.yellow(
+        `  ${conflict.key} (${conflict.locale}): local ${formatValue(conflict.local)}, remote ${formatValue(conflict.remote)}`
+      )
+    );
+  }
+  report(
+    context,
+    chalk.yellow(
+      'These keys keep their local value and are not published. Run `pull` to resolve the conflicts.'
+    )
+  );
+}
+
+async function writeMergedLabels(
+  context: WatchContext,
+  labelFile: LabelFile
+): Promise<boolean> {
+  const written = await writeLocalLabels(context.files, labelFile, {
+    referenceLocale: context.referenceLocale,
+    locales: context.locales,
+  });
+
+  if (!written.success) {
+    report(context, chalk.red(written.error));
+  }
+
+  return written.success;
+}
+
+/**
+ * Logs a message without garbling the spinner, then returns to watching.
+ */
+function report(context: WatchContext, message: string) {
+  context.spinner.stop();
+  log(message);
+  idle(context);
+}
+
+function idle(context: WatchContext) {
+  context.spinner.start(chalk.gray('Watching for changes...'));
+}
@@ -0,0 +1,138 @@
+import type { WorkspacePackage } from '@/core/workspace';
+import { log } from '@/utils';
+import chalk from 'chalk';
+import { spawn } from 'child_process';
+import ora from 'ora';
+import { resolve } from 'path';
+
+export interface PackageRunResult {
+  workspacePackage: WorkspacePackage;
+  exitCode: number;
+  /**
+   * The combined stdout and stderr of the command.
+   */
+  output: string;
+  /**
+   * In milliseconds.
+   */
+  duration: number;
+}
+
+/**
+ * Runs a subcommand in every package, at most `concurrency` at a time.
+ * Each package runs in its own process, from its own directory, so it picks up
+ * its own `labeleer.json` and `.env` files. The output of a package is printed
+ * once it finishes, so the output of packages does not interleave.
+ *
+ * @returns The results in the order of the packages.
+ */
+export async function runInWorkspace(
+  packages: WorkspacePackage[],
+  args: string[],
+  concurrency: number
+): Promise<PackageRunResult[]> {
+  const spinner = ora();
+  const queue = [...packages];
+  const results = new Map<WorkspacePackage, PackageRunResult>();
+  const updateSpinner = () => {
+    spinner.text = `Running ${chalk.bold(args[0])}, ${packages.length - results.size} of ${packages.length} package(s) remaining...`;
+  };
+
+  const runNext = async (): Promise<void> => {
+    const workspacePackage = queue.shift();
+    if (!workspacePackage) return;
+
+    const result = await runInPackage(workspacePackage, args);
+    results.set(workspacePackage, result);
+
+    spinner.stop();
+    printPackageOutput(result);
+    if (results.size < packages.length) {
+      updateSpinner();
+      spinner.start();
+    }
+
+    await runNext();
+  };
+
+  updateSpinner();
+  spinner.start();
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, packages.length) }, runNext)
+  );
+  spinner.stop();
+
+  return packages.map(workspacePackage => results.get(workspacePackage)!);
+}
+
+export function printWorkspaceSummary(results: PackageRunResult[]) {
+  const nameWidth = Math.max(
+    ...results.map(result => result.workspacePackage.name.length)
+  );
+
+  log(chalk.bold('\nSummary'));
+  for (const result of results) {
+    const name = result.workspacePackage.name.padEnd(nameWidth);
+    const duration = chalk.gray(`${(result.duration / 1000).toFixed(1)}s`);
+
+    log(
+      result.exitCode === 0
+        ? `  ${chalk.green('✓')} ${name}  ${duration}`
+        : `  ${chalk.red('✗')} ${name}  ${duration}  ${chalk.red(`exit code ${result.exitCode}`)}`
+    );
+  }
+}
+
+/**
+ * Runs the CLI itself in the directory of the package. Standard input is not
+ * passed on, so the command cannot prompt and confirmations require `--yes`.
+ */
+function runInPackage(
+  workspacePackage: WorkspacePackage,
+  args: string[]
+): Promise<PackageRunResult> {
+  const startTime = Date.now();
+
+  return new Promise(resolvePromise => {
+    let output = '';
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, process.argv[1], ...args],
+      {
+        cwd: resolve(workspacePackage.directory),
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, FORCE_COLOR: String(chalk.level) },
+      }
+    );
+    const finish = (exitCode: number) =>
+      resolvePromise({
+        workspacePackage,
+        exitCode,
+        output,
+        duration: Date.now() - startTime,
+      });
+
+    child.stdout.on('data', (chunk: Buffer) => (output += chunk.toString()));
+    child.stderr.on('data', (chunk: Buffer) => (output += chunk.toString()));
+    child.on('error', error => {
+      output += `${error.message}\n`;
+      finish(1);
+    });
+    child.on('close', exitCode => finish(exitCode ?? 1));
+  });
+}
+
+function printPackageOutput(result: PackageRunResult) {
+  const { name, directory } = result.workspacePackage;
+  const status =
+    result.exitCode === 0 ? chalk.green('done') : chalk.red('failed');
+
+  log(
+    chalk.bold.cyan(`\n── ${name}`) + chalk.gray(` (${directory}) `) + status
+  );
+
+  const output = result.output.trimEnd();
+  if (output) {
+    log(output.replace(/^/gm, '   '));
+  }
+}
@@ -0,0 +1,19 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    server: {
+      deps: {
+        // Its ES modules import directories and files without extension, which Node rejects.
+        inline: ['@labeleer/translation-dataset-transformers'],
+      },
+    },
+  },
+});